@@ -1,13 +1,83 @@
-import React, { useState, useRef, useEffect } from "react";
+import React, { useState, useRef, useEffect, useMemo } from "react";
 import { v4 as uuidv4 } from "uuid";
-import { Message, PlaceData, Location, ChatSession, User } from "./types";
 import {
-  sendMessageToGemini,
-  startNewChat,
-  resumeChat,
-} from "./services/geminiService";
+  Message,
+  PlaceData,
+  Location,
+  ChatSession,
+  User,
+  SearchArea,
+  SearchCriteria,
+  ShortlistItem,
+  Anchor,
+  CommuteFilter,
+  SharedSession,
+  OutboxEntry,
+  SavedSearch,
+  SearchAlert,
+  Locale,
+} from "./types";
+import { getDefaultConciergeProvider } from "./services/concierge";
 import ChatMessage from "./components/ChatMessage";
 import Sidebar from "./components/Sidebar";
+import { SessionPatch } from "./components/SessionListItem";
+import SearchAreaControl from "./components/SearchAreaControl";
+import ModelPicker from "./components/ModelPicker";
+import LanguagePicker from "./components/LanguagePicker";
+import CriteriaChips from "./components/CriteriaChips";
+import ComparisonView from "./components/ComparisonView";
+import PlaceDetailDrawer from "./components/PlaceDetailDrawer";
+import ExportMenu from "./components/ExportMenu";
+import ShareButton from "./components/ShareButton";
+import SavedSearchButton from "./components/SavedSearchButton";
+import AlertsMenu from "./components/AlertsMenu";
+import SharedSessionView from "./components/SharedSessionView";
+import ResultsMap from "./components/ResultsMap";
+import { getDefaultMapProvider } from "./services/mapProvider";
+import { ExportFormat, exportReport } from "./services/reportExport";
+import { forkShare, shareIdFromPath } from "./services/shares";
+import CommuteControl from "./components/CommuteControl";
+import { anchorsStorageKey, parseAnchors } from "./services/commute";
+import {
+  addToShortlist,
+  isShortlisted,
+  parseShortlist,
+  placeKey,
+  removeFromShortlist,
+  shortlistStorageKey,
+  updateShortlistItem,
+} from "./services/shortlistStore";
+import {
+  GUEST_SESSION_MAX_AGE_DAYS,
+  GuestSessionRepository,
+  SessionQuotaError,
+  SessionSync,
+  createSessionRepository,
+  hasConversation,
+  mergeGuestSessions,
+} from "./services/sessionRepository";
+import { setSessionToken, setUnauthorizedHandler } from "./services/api";
+import { restoreSession, signInWithGoogle, signOut } from "./services/auth";
+import { findPlaceReferences, numberPlaces } from "./services/placeReferences";
+import { branchAt, replaceTurn, selectVersion } from "./services/branches";
+import { toConciergeError } from "./services/conciergeErrors";
+import { useOnlineStatus } from "./services/connectivity";
+import {
+  outboxStorageKey,
+  parseOutbox,
+  queueMessage,
+  queuedFor,
+  removeFromOutbox,
+} from "./services/outbox";
+import {
+  createSavedSearch,
+  deleteSavedSearch,
+  listAlerts,
+  listSavedSearches,
+  markAlertsRead,
+  savedSearchDraft,
+} from "./services/savedSearches";
+import { LOCALES, getLocale, saveLocale, setLocale, t } from "./services/i18n";
 
 // Fix: Extend Window interface to include google property for Google Sign-In
 declare global {
@@ -16,23 +86,6 @@ declare global {
   }
 }
 
-// Decodes JWT token structure from Google Sign-In
-function parseJwt(token: string) {
-  var base64Url = token.split(".")[1];
-  var base64 = base64Url.replace(/-/g, "+").replace(/_/g, "/");
-  var jsonPayload = decodeURIComponent(
-    window
-      .atob(base64)
-      .split("")
-      .map(function (c) {
-        return "%" + ("00" + c.charCodeAt(0).toString(16)).slice(-2);
-      })
-      .join(""),
-  );
-
-  return JSON.parse(jsonPayload);
-}
-
 // Fallback Bear Icon for when external images fail
 const FallbackBearIcon = () => (
   <svg
@@ -52,6 +105,18 @@ const FallbackBearIcon = () => (
   </svg>
 );
 
+// Comparison table stays readable up to this many columns
+const MAX_COMPARE = 4;
+
+// How long the undo toast stays up after deleting searches
+const UNDO_DELETE_MS = 8000;
+
+// How often signed-in users check for new saved search alerts
+const ALERT_POLL_MS = 60 * 1000;
+
+const mapProvider = getDefaultMapProvider();
+const concierge = getDefaultConciergeProvider();
+
 function App() {
   // --- State ---
   const [user, setUser] = useState<User | null>(null);
@@ -59,10 +124,48 @@ function App() {
   const GUEST_AVATAR_SEED = "condoscout-v1-guest";
   const [sessions, setSessions] = useState<ChatSession[]>([]);
   const [currentSessionId, setCurrentSessionId] = useState<string | null>(null);
+  const [shortlist, setShortlist] = useState<ShortlistItem[]>([]);
+  const [compareSelection, setCompareSelection] = useState<PlaceData[]>([]);
+  const [isCompareOpen, setIsCompareOpen] = useState(false);
+  const [detailPlace, setDetailPlace] = useState<PlaceData | null>(null);
+  const [isMapOpen, setIsMapOpen] = useState(false);
+  // Set while the next click on the map places the search area's pin
+  const [isPickingSearchPoint, setIsPickingSearchPoint] = useState(false);
+  const [anchors, setAnchors] = useState<Anchor[]>([]);
+  const [commuteFilter, setCommuteFilter] = useState<CommuteFilter | null>(
+    null,
+  );
+  const [isEstimatingCommutes, setIsEstimatingCommutes] = useState(false);
+  const [hoveredPlaceKey, setHoveredPlaceKey] = useState<string | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<
+    string | null
+  >(null);
+  const [syncError, setSyncError] = useState<string | null>(null);
+  // The last deletion, kept until its undo toast times out
+  const [deletedSessions, setDeletedSessions] = useState<ChatSession[]>([]);
+  // Chats from guest mode on this device, offered to a newly signed-in account
+  const [guestSessions, setGuestSessions] = useState<ChatSession[]>([]);
+  const [authNotice, setAuthNotice] = useState<string | null>(null);
   const [inputText, setInputText] = useState("");
-  const [isLoading, setIsLoading] = useState(false);
+  // Sessions with a reply in flight; each can be waiting in the background
+  const [pendingSessionIds, setPendingSessionIds] = useState<string[]>([]);
+  // Messages typed while offline, sent in order once the connection is back
+  const [outbox, setOutbox] = useState<OutboxEntry[]>([]);
+  const isOnline = useOnlineStatus();
+  // Searches the server re-runs for this account, and what those runs found
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  const [alerts, setAlerts] = useState<SearchAlert[]>([]);
+  // A /share/<id> link shows the read-only viewer instead of the app
+  const [sharedId, setSharedId] = useState(() =>
+    shareIdFromPath(window.location.pathname),
+  );
+  // A shared search to copy into history once this user's sessions are loaded
+  const [pendingFork, setPendingFork] = useState<SharedSession | null>(null);
+  const isLoading =
+    currentSessionId !== null && pendingSessionIds.includes(currentSessionId);
   const [location, setLocation] = useState<Location | undefined>(undefined);
   const [isDarkMode, setIsDarkMode] = useState(false);
+  const [locale, setLocaleState] = useState<Locale>(getLocale);
   const [isSidebarOpen, setIsSidebarOpen] = useState(true);
   const [isMobile, setIsMobile] = useState(window.innerWidth < 1024);
   const [imageError, setImageError] = useState(false);
@@ -73,22 +176,20 @@ function App() {
   const inputRef = useRef<HTMLInputElement>(null);
   const googleButtonRef = useRef<HTMLDivElement>(null);
   const dropdownRef = useRef<HTMLDivElement>(null);
+  const abortControllersRef = useRef(new Map<string, AbortController>());
+  const sessionSyncRef = useRef<SessionSync | null>(null);
 
   // Handle Google Login
-  const handleCredentialResponse = (response: any) => {
+  const handleCredentialResponse = async (response: any) => {
     try {
-      const payload = parseJwt(response.credential);
-      const newUser: User = {
-        id: payload.sub,
-        name: payload.name,
-        email: payload.email,
-        picture: payload.picture,
-      };
+      const newUser = await signInWithGoogle(response.credential);
       setUser(newUser);
       setIsGuest(false);
+      setAuthNotice(null);
       localStorage.setItem("condoscout_user", JSON.stringify(newUser));
     } catch (e) {
       console.error("Login failed", e);
+      setAuthNotice(t("login.failed"));
     }
   };
 
@@ -100,8 +201,7 @@ function App() {
   useEffect(() => {
     if (!user && !isGuest && window.google && googleButtonRef.current) {
       window.google.accounts.id.initialize({
-        client_id:
-          "727392686189-u3558g67u60et872hll962g557j03s72.apps.googleusercontent.com",
+        client_id: process.env.GOOGLE_CLIENT_ID,
         callback: handleCredentialResponse,
         auto_select: false,
         theme: isDarkMode ? "filled_black" : "outline",
@@ -111,9 +211,10 @@ function App() {
         size: "large",
         width: 280,
         shape: "pill",
+        locale: LOCALES[locale].intl,
       });
     }
-  }, [user, isGuest, isDarkMode]);
+  }, [user, isGuest, isDarkMode, locale, sharedId]);
 
   useEffect(() => {
     const savedUser = localStorage.getItem("condoscout_user");
@@ -122,8 +223,17 @@ function App() {
     if (savedTheme === "dark") setIsDarkMode(true);
     if (savedUser) {
       try {
-        setUser(JSON.parse(savedUser));
-        setIsGuest(false);
+        const remembered: User = JSON.parse(savedUser);
+        // Accounts saved before sessions were verified have no token; sign in again
+        if (remembered.sessionToken) {
+          setUser(remembered);
+          setIsGuest(false);
+          restoreSession(remembered).then((restored) => {
+            if (!restored) endSession(t("login.expired"));
+          });
+        } else {
+          localStorage.removeItem("condoscout_user");
+        }
       } catch (e) {
         console.error(e);
       }
@@ -152,51 +262,172 @@ function App() {
     return () => document.removeEventListener("mousedown", handleClickOutside);
   }, []);
 
-  const parseAndLoadSessions = (jsonString: string | null) => {
-    if (jsonString) {
-      try {
-        const parsed = JSON.parse(jsonString);
-        setSessions(parsed);
-        if (parsed.length > 0) {
-          const mostRecent = parsed.sort(
-            (a: ChatSession, b: ChatSession) => b.lastUpdated - a.lastUpdated,
-          )[0];
-          setCurrentSessionId(mostRecent.id);
-          resumeChat(mostRecent.messages);
-        } else {
-          createNewSession();
-        }
-      } catch (e) {
-        createNewSession();
-      }
+  const loadSessions = (loaded: ChatSession[]) => {
+    const sorted = [...loaded].sort((a, b) => b.lastUpdated - a.lastUpdated);
+    setSessions(sorted);
+    if (sorted.length > 0) {
+      setCurrentSessionId(sorted[0].id);
+      concierge.resume(sorted[0].id, sorted[0].messages, sorted[0].model);
     } else {
       createNewSession();
     }
   };
 
+  const applyRemoteSession = (session: ChatSession) => {
+    setSessions((prev) =>
+      prev.some((s) => s.id === session.id)
+        ? prev.map((s) => (s.id === session.id ? session : s))
+        : [session, ...prev],
+    );
+  };
+
+  const offerGuestSessions = (isCancelled: () => boolean) => {
+    new GuestSessionRepository()
+      .list()
+      .then((found) => {
+        if (!isCancelled()) setGuestSessions(found.filter(hasConversation));
+      })
+      .catch((e) => console.error("Failed to read guest sessions", e));
+  };
+
+  const forgetGuestSessions = () => {
+    const repo = new GuestSessionRepository();
+    guestSessions.forEach((s) =>
+      repo
+        .remove(s.id)
+        .catch((e) => console.error("Failed to remove guest session", e)),
+    );
+    setGuestSessions([]);
+  };
+
+  // SessionSync then saves the added and combined sessions to the account
+  const mergeGuestSessionsIntoAccount = () => {
+    setSessions((prev) => mergeGuestSessions(prev, guestSessions));
+    forgetGuestSessions();
+  };
+
+  // Must run before the session load below, which may call the API
+  useEffect(() => {
+    setSessionToken(user?.sessionToken ?? null);
+  }, [user]);
+
   useEffect(() => {
+    setUnauthorizedHandler(() => endSession(t("login.expired")));
+    return () => setUnauthorizedHandler(null);
+  }, []);
+
+  useEffect(() => {
+    if (!user && !isGuest) return;
+
+    const sync = new SessionSync(createSessionRepository(user), {
+      onChange: applyRemoteSession,
+      onRemove: (id) => {
+        setSessions((prev) => prev.filter((s) => s.id !== id));
+        concierge.end(id);
+      },
+      onError: (error) => {
+        console.error("Failed to save session", error);
+        setSyncError(
+          error instanceof SessionQuotaError
+            ? t("sync.quota")
+            : t("sync.failed"),
+        );
+      },
+    });
+    sessionSyncRef.current = sync;
+
+    let cancelled = false;
+    sync
+      .load()
+      .then((loaded) => {
+        if (cancelled) return;
+        loadSessions(loaded);
+        if (user) offerGuestSessions(() => cancelled);
+      })
+      .catch((e) => {
+        if (cancelled) return;
+        console.error("Failed to load sessions", e);
+        setSyncError(t("sync.loadFailed"));
+        loadSessions([]);
+      });
+
     if (user) {
-      const storageKey = `condoscout_sessions_${user.id}`;
-      parseAndLoadSessions(localStorage.getItem(storageKey));
-    } else if (isGuest) {
-      parseAndLoadSessions(sessionStorage.getItem("condoscout_guest_sessions"));
+      setShortlist(
+        parseShortlist(localStorage.getItem(shortlistStorageKey(user.id))),
+      );
+      setAnchors(
+        parseAnchors(localStorage.getItem(anchorsStorageKey(user.id))),
+      );
+    } else {
+      setShortlist(
+        parseShortlist(sessionStorage.getItem(shortlistStorageKey(null))),
+      );
+      setAnchors(parseAnchors(sessionStorage.getItem(anchorsStorageKey(null))));
     }
+    // Guest chats outlive the tab, so their queued messages do too
+    setOutbox(
+      parseOutbox(localStorage.getItem(outboxStorageKey(user?.id ?? null))),
+    );
+
+    return () => {
+      cancelled = true;
+      sync.dispose();
+      sessionSyncRef.current = null;
+    };
   }, [user, isGuest]);
 
+  // Only sessions that actually changed are written, see SessionSync
   useEffect(() => {
-    if (sessions.length >= 0) {
-      if (user)
-        localStorage.setItem(
-          `condoscout_sessions_${user.id}`,
-          JSON.stringify(sessions),
-        );
-      else if (isGuest)
-        sessionStorage.setItem(
-          "condoscout_guest_sessions",
-          JSON.stringify(sessions),
-        );
-    }
-  }, [sessions, user, isGuest]);
+    sessionSyncRef.current?.push(sessions);
+  }, [sessions]);
+
+  useEffect(() => {
+    if (user)
+      localStorage.setItem(
+        shortlistStorageKey(user.id),
+        JSON.stringify(shortlist),
+      );
+    else if (isGuest)
+      sessionStorage.setItem(
+        shortlistStorageKey(null),
+        JSON.stringify(shortlist),
+      );
+  }, [shortlist, user, isGuest]);
+
+  useEffect(() => {
+    if (user)
+      localStorage.setItem(anchorsStorageKey(user.id), JSON.stringify(anchors));
+    else if (isGuest)
+      sessionStorage.setItem(anchorsStorageKey(null), JSON.stringify(anchors));
+  }, [anchors, user, isGuest]);
+
+  useEffect(() => {
+    if (user || isGuest)
+      localStorage.setItem(
+        outboxStorageKey(user?.id ?? null),
+        JSON.stringify(outbox),
+      );
+  }, [outbox, user, isGuest]);
+
+  // Saved searches run on the server, so only signed-in users have them
+  useEffect(() => {
+    if (!user || !isOnline) return;
+    let cancelled = false;
+    const refresh = () => {
+      listSavedSearches()
+        .then((found) => !cancelled && setSavedSearches(found))
+        .catch((e) => console.error("Failed to load saved searches", e));
+      listAlerts()
+        .then((found) => !cancelled && setAlerts(found))
+        .catch((e) => console.error("Failed to load alerts", e));
+    };
+    refresh();
+    const timer = setInterval(refresh, ALERT_POLL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [user, isOnline]);
 
   useEffect(() => {
     const handleResize = () => {
@@ -217,62 +448,313 @@ function App() {
   }, [isDarkMode]);
 
   useEffect(() => {
+    document.documentElement.lang = locale;
+    saveLocale(locale);
+  }, [locale]);
+
+  // The module locale is set before re-rendering so t() and the formatters
+  // already use it during this render
+  const changeLocale = (next: Locale) => {
+    setLocale(next);
+    setLocaleState(next);
+  };
+
+  useEffect(() => {
+    if (highlightedMessageId) {
+      document
+        .getElementById(`message-${highlightedMessageId}`)
+        ?.scrollIntoView({ behavior: "smooth", block: "center" });
+      return;
+    }
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [sessions, currentSessionId, isLoading]);
+    // Replies arriving in background sessions must not scroll this one
+  }, [
+    sessions.find((s) => s.id === currentSessionId),
+    isLoading,
+    highlightedMessageId,
+  ]);
+
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    const timer = setTimeout(() => setHighlightedMessageId(null), 2500);
+    return () => clearTimeout(timer);
+  }, [highlightedMessageId]);
+
+  useEffect(() => {
+    if (deletedSessions.length === 0) return;
+    const timer = setTimeout(() => {
+      setDeletedSessions([]);
+      // Once the chat is gone for good, nothing is left to watch it for
+      const ids = deletedSessions.map((s) => s.id);
+      savedSearches
+        .filter((saved) => ids.includes(saved.sessionId))
+        .forEach((saved) =>
+          stopWatching(saved.id).catch((e) =>
+            console.error("Failed to remove saved search", e),
+          ),
+        );
+    }, UNDO_DELETE_MS);
+    return () => clearTimeout(timer);
+  }, [deletedSessions]);
+
+  const getCurrentSession = () =>
+    sessions.find((s) => s.id === currentSessionId);
+
+  const getCurrentMessages = () => getCurrentSession()?.messages || [];
 
-  const getCurrentMessages = () =>
-    sessions.find((s) => s.id === currentSessionId)?.messages || [];
+  const getCurrentSearchArea = (): SearchArea =>
+    getCurrentSession()?.searchArea || {
+      mode: "device",
+    };
+
+  // Device mode is stored without coordinates so a resumed chat follows the user
+  const resolveSearchArea = (area: SearchArea): SearchArea =>
+    area.mode === "device" ? { ...area, location } : area;
+
+  const updateSearchArea = (area: SearchArea) => {
+    setSessions((prev) =>
+      prev.map((session) =>
+        session.id === currentSessionId
+          ? { ...session, searchArea: area, lastUpdated: Date.now() }
+          : session,
+      ),
+    );
+  };
+
+  // Later turns of this session continue on the new model with the same history
+  const updateSessionModel = (model: string) => {
+    const session = getCurrentSession();
+    if (!session) return;
+    setSessions((prev) =>
+      prev.map((s) =>
+        s.id === session.id ? { ...s, model, lastUpdated: Date.now() } : s,
+      ),
+    );
+    concierge.resume(session.id, session.messages, model);
+  };
 
   const createNewSession = () => {
     const newId = uuidv4();
     const welcomeMsg: Message = {
       id: "welcome",
       role: "model",
-      text: "👋 Hello, I'm **Royce**.\n\nI am your personal real estate concierge. I'll help you find condominiums, apartments, or luxury hotels.\n\n*\"Show me some 1-bedroom apartments in Sukhumvit near the station.\"*",
+      text: t("chat.welcome"),
       places: [],
     };
 
     const newSession: ChatSession = {
       id: newId,
-      title: "New Search",
+      title: t("common.newSearch"),
       messages: [welcomeMsg],
       createdAt: Date.now(),
       lastUpdated: Date.now(),
+      searchArea: { mode: "device" },
+      model: concierge.defaultModel,
     };
 
     setSessions((prev) => [newSession, ...prev]);
     setCurrentSessionId(newId);
-    startNewChat();
+    concierge.start(newId, newSession.model);
+    if (isMobile) setIsSidebarOpen(false);
+  };
+
+  const leaveSharedView = () => {
+    window.history.replaceState(null, "", "/");
+    setSharedId(null);
+  };
+
+  const forkSharedSession = (share: SharedSession) => {
+    setPendingFork(share);
+    leaveSharedView();
+  };
+
+  useEffect(() => {
+    if (!pendingFork || !currentSessionId) return;
+    const session = {
+      ...forkShare(pendingFork),
+      model: concierge.defaultModel,
+    };
+    setSessions((prev) => [session, ...prev]);
+    setCurrentSessionId(session.id);
+    concierge.resume(session.id, session.messages, session.model);
+    setPendingFork(null);
+  }, [pendingFork, currentSessionId]);
+
+  const selectSession = (id: string) => {
+    const s = sessions.find((x) => x.id === id);
+    if (s) {
+      setCurrentSessionId(id);
+      concierge.resume(s.id, s.messages, s.model);
+    }
     if (isMobile) setIsSidebarOpen(false);
   };
 
-  const deleteSession = (e: React.MouseEvent, id: string) => {
-    e.stopPropagation();
-    const newSessions = sessions.filter((s) => s.id !== id);
+  const watchCurrentSearch = async (intervalMs: number) => {
+    const session = getCurrentSession();
+    const draft =
+      session &&
+      savedSearchDraft(
+        session,
+        resolveSearchArea(getCurrentSearchArea()),
+        intervalMs,
+      );
+    if (!draft) return;
+    const saved = await createSavedSearch(draft);
+    setSavedSearches((prev) => [
+      ...prev.filter((s) => s.id !== saved.id),
+      saved,
+    ]);
+  };
+
+  const stopWatching = async (id: string) => {
+    await deleteSavedSearch(id);
+    setSavedSearches((prev) => prev.filter((s) => s.id !== id));
+  };
+
+  const readAlerts = (ids: string[]) => {
+    setAlerts((prev) =>
+      prev.map((a) => (ids.includes(a.id) ? { ...a, read: true } : a)),
+    );
+    markAlertsRead(ids).catch((e) =>
+      console.error("Failed to mark alerts as read", e),
+    );
+  };
+
+  // The drawer shows the place as the run found it, even if the chat is gone
+  const openAlertPlace = (alert: SearchAlert, place: PlaceData) => {
+    if (!alert.read) readAlerts([alert.id]);
+    if (sessions.some((s) => s.id === alert.sessionId)) {
+      selectSession(alert.sessionId);
+    }
+    setDetailPlace(place);
+  };
+
+  const toggleSavePlace = (place: PlaceData, messageId: string) => {
+    setShortlist((prev) =>
+      isShortlisted(prev, place)
+        ? removeFromShortlist(prev, placeKey(place))
+        : addToShortlist(
+            prev,
+            place,
+            currentSessionId
+              ? { sessionId: currentSessionId, messageId }
+              : undefined,
+          ),
+    );
+  };
+
+  const isPlaceCompared = (place: PlaceData) =>
+    compareSelection.some((p) => placeKey(p) === placeKey(place));
+
+  const toggleComparePlace = (place: PlaceData) => {
+    setCompareSelection((prev) => {
+      const key = placeKey(place);
+      if (prev.some((p) => placeKey(p) === key))
+        return prev.filter((p) => placeKey(p) !== key);
+      return prev.length >= MAX_COMPARE ? prev : [...prev, place];
+    });
+  };
+
+  // Opens the session if needed, then scrolls to and flashes the message
+  const openMessage = (sessionId: string, messageId: string) => {
+    if (sessionId !== currentSessionId) selectSession(sessionId);
+    setHighlightedMessageId(messageId);
+  };
+
+  const openShortlistSource = (item: ShortlistItem) => {
+    if (!item.source) return;
+    openMessage(item.source.sessionId, item.source.messageId);
+  };
+
+  // Renaming marks the title as the user's own so AI titles never replace it;
+  // organising a session does not count as activity for lastUpdated
+  const updateSessions = (ids: string[], patch: SessionPatch) => {
+    setSessions((prev) =>
+      prev.map((session) =>
+        ids.includes(session.id)
+          ? {
+              ...session,
+              ...patch,
+              ...(patch.title !== undefined && { isTitleEdited: true }),
+            }
+          : session,
+      ),
+    );
+  };
+
+  const deleteSessions = (ids: string[]) => {
+    const removed = sessions.filter((s) => ids.includes(s.id));
+    const newSessions = sessions.filter((s) => !ids.includes(s.id));
     setSessions(newSessions);
-    if (currentSessionId === id) {
-      if (newSessions.length > 0) {
-        setCurrentSessionId(newSessions[0].id);
-        resumeChat(newSessions[0].messages);
+    if (currentSessionId && ids.includes(currentSessionId)) {
+      const next = newSessions.find((s) => !s.archived);
+      if (next) {
+        setCurrentSessionId(next.id);
+        concierge.resume(next.id, next.messages, next.model);
       } else {
         createNewSession();
       }
     }
+    ids.forEach((id) => {
+      abortControllersRef.current.get(id)?.abort();
+      concierge.end(id);
+    });
+    setDeletedSessions(removed);
   };
 
-  const handleLogout = () => {
+  const undoDelete = () => {
+    setSessions((prev) =>
+      [...prev, ...deletedSessions].sort(
+        (a, b) => b.lastUpdated - a.lastUpdated,
+      ),
+    );
+    setDeletedSessions([]);
+  };
+
+  // Only uses setters, so it is safe to call from handlers registered once
+  const endSession = (notice: string | null = null) => {
+    abortControllersRef.current.forEach((controller) => controller.abort());
     setUser(null);
     setIsGuest(false);
     setSessions([]);
+    setGuestSessions([]);
+    setShortlist([]);
+    setAnchors([]);
+    setOutbox([]);
+    setSavedSearches([]);
+    setAlerts([]);
+    setCommuteFilter(null);
     setCurrentSessionId(null);
     localStorage.removeItem("condoscout_user");
     setIsDropdownOpen(false);
+    setAuthNotice(notice);
   };
 
-  const handleSendMessage = async () => {
-    if (!inputText.trim() || isLoading || !currentSessionId) return;
-    const userText = inputText.trim();
-    setInputText("");
+  const handleLogout = () => {
+    if (user) signOut(user);
+    endSession();
+  };
+
+  // With `branch`, the message at `branch.at` and everything after it become
+  // an older version of the turn instead of being followed by the new one; a
+  // retry replaces them outright. Messages from the outbox name their own
+  // session, which need not be the one on screen.
+  const sendUserMessage = async (
+    userText: string,
+    criteriaOverride?: SearchCriteria,
+    branch?: { at: number; isRegenerate: boolean; isRetry?: boolean },
+    targetSessionId: string | null = currentSessionId,
+  ) => {
+    const current = sessions.find((s) => s.id === targetSessionId);
+    if (!current || pendingSessionIds.includes(current.id)) return;
+    // Everything below is tied to this session, even if the user switches away
+    const sessionId = current.id;
+    const isFirstTurn = !branch && current.messages.length <= 1;
+    if (sessionId === currentSessionId) setHighlightedMessageId(null);
+    const searchArea = resolveSearchArea(
+      current.searchArea || { mode: "device" },
+    );
+    const criteria = criteriaOverride || current.searchCriteria;
     const userMsg: Message = { id: uuidv4(), role: "user", text: userText };
     const thinkingMsgId = uuidv4();
     const thinkingMsg: Message = {
@@ -281,72 +763,311 @@ function App() {
       text: "",
       isThinking: true,
     };
+    const turn = branch?.isRegenerate ? [thinkingMsg] : [userMsg, thinkingMsg];
 
     setSessions((prev) =>
       prev.map((session) => {
-        if (session.id === currentSessionId) {
+        if (session.id === sessionId) {
           return {
             ...session,
-            title:
-              session.messages.length <= 1
-                ? userText.length > 30
-                  ? userText.substring(0, 30) + "..."
-                  : userText
-                : session.title,
+            title: isFirstTurn
+              ? userText.length > 30
+                ? userText.substring(0, 30) + "..."
+                : userText
+              : session.title,
             lastUpdated: Date.now(),
-            messages: [...session.messages, userMsg, thinkingMsg],
+            messages: !branch
+              ? [...session.messages, ...turn]
+              : branch.isRetry
+                ? replaceTurn(session.messages, branch.at, turn)
+                : branchAt(session.messages, branch.at, turn),
           };
         }
         return session;
       }),
     );
 
-    setIsLoading(true);
-    try {
-      const response = await sendMessageToGemini(userText, location);
+    const updateThinkingMessage = (patch: Partial<Message>) =>
       setSessions((prev) =>
         prev.map((session) => {
-          if (session.id === currentSessionId) {
+          if (session.id === sessionId) {
             const updatedMessages = session.messages.map((msg) =>
-              msg.id === thinkingMsgId
-                ? {
-                    ...msg,
-                    text: response.text,
-                    places: response.places,
-                    isThinking: false,
-                  }
-                : msg,
+              msg.id === thinkingMsgId ? { ...msg, ...patch } : msg,
             );
             return { ...session, messages: updatedMessages };
           }
           return session;
         }),
       );
-    } catch (error) {
-      setSessions((prev) =>
-        prev.map((session) => {
-          if (session.id === currentSessionId) {
-            const updatedMessages = session.messages.map((msg) =>
-              msg.id === thinkingMsgId
-                ? {
-                    ...msg,
-                    text: "Connection error. Please try again.",
-                    isThinking: false,
-                  }
-                : msg,
-            );
-            return { ...session, messages: updatedMessages };
-          }
-          return session;
-        }),
+
+    // Criteria set through the chips are already authoritative; otherwise read
+    // them from the message in the background for the next turn and the chips
+    if (!criteriaOverride && !branch?.isRegenerate) {
+      concierge
+        .extractSearchCriteria(userText, criteria, current.model)
+        .then((next) =>
+          setSessions((prev) =>
+            prev.map((session) =>
+              session.id === sessionId
+                ? { ...session, searchCriteria: next }
+                : session,
+            ),
+          ),
+        );
+    }
+
+    // Royce should only remember the path up to the message being answered.
+    // Otherwise this is a no-op unless the chat was never opened here, as
+    // with a queued message for another session.
+    if (branch) {
+      const userIndex = branch.isRegenerate ? branch.at - 1 : branch.at;
+      concierge.end(sessionId);
+      concierge.resume(
+        sessionId,
+        current.messages.slice(0, userIndex),
+        current.model,
       );
+    } else {
+      concierge.resume(sessionId, current.messages, current.model);
+    }
+
+    const controller = new AbortController();
+    abortControllersRef.current.set(sessionId, controller);
+    setPendingSessionIds((prev) => [...prev, sessionId]);
+    let received = "";
+    let receivedPlaces: PlaceData[] = [];
+    try {
+      for await (const chunk of concierge.stream(
+        sessionId,
+        userText,
+        {
+          searchArea,
+          criteria,
+          anchors,
+          commuteFilter,
+          references: findPlaceReferences(
+            userText,
+            numberPlaces(current.messages),
+          ),
+        },
+        controller.signal,
+      )) {
+        received = chunk.text;
+        receivedPlaces = chunk.places;
+        updateThinkingMessage({
+          text: chunk.text,
+          places: chunk.places,
+          isThinking: false,
+          isStreaming: true,
+        });
+      }
+      updateThinkingMessage({
+        text: received || (controller.signal.aborted ? t("chat.stopped") : ""),
+        isThinking: false,
+        isStreaming: false,
+      });
+      // The truncated first message stands in as the title until this arrives
+      if (isFirstTurn && received && !controller.signal.aborted) {
+        concierge
+          .suggestTitle(userText, received, current.model)
+          .then((title) =>
+            setSessions((prev) =>
+              prev.map((session) =>
+                session.id === sessionId && !session.isTitleEdited && title
+                  ? { ...session, title }
+                  : session,
+              ),
+            ),
+          )
+          .catch((error) => console.error("Failed to suggest a title", error));
+      }
+      // Listing details arrive after the reply so they never hold up the text
+      if (receivedPlaces.length > 0) {
+        concierge
+          .enrichPlaces(receivedPlaces, criteria, anchors, current.model)
+          .then((places) => updateThinkingMessage({ places }));
+      }
+    } catch (error) {
+      // Whatever arrived before the failure stays; ChatMessage explains the rest
+      updateThinkingMessage({
+        text: received,
+        error: toConciergeError(error).kind,
+        isThinking: false,
+        isStreaming: false,
+      });
     } finally {
-      setIsLoading(false);
+      abortControllersRef.current.delete(sessionId);
+      setPendingSessionIds((prev) => prev.filter((id) => id !== sessionId));
       setTimeout(() => inputRef.current?.focus(), 100);
     }
   };
 
+  const editMessage = (messageId: string, text: string) => {
+    const index = messages.findIndex((m) => m.id === messageId);
+    if (index < 0) return;
+    sendUserMessage(text, undefined, { at: index, isRegenerate: false });
+  };
+
+  const regenerateMessage = (messageId: string) => {
+    const index = messages.findIndex((m) => m.id === messageId);
+    const asked = messages[index - 1];
+    if (index < 1 || asked.role !== "user") return;
+    sendUserMessage(asked.text, undefined, { at: index, isRegenerate: true });
+  };
+
+  const retryMessage = (messageId: string) => {
+    const index = messages.findIndex((m) => m.id === messageId);
+    const asked = messages[index - 1];
+    if (index < 1 || asked.role !== "user") return;
+    sendUserMessage(asked.text, undefined, {
+      at: index,
+      isRegenerate: true,
+      isRetry: true,
+    });
+  };
+
+  const showMessageVersion = (messageId: string, version: number) => {
+    const session = getCurrentSession();
+    const index = messages.findIndex((m) => m.id === messageId);
+    if (!session || index < 0 || isLoading) return;
+    const next = selectVersion(session.messages, index, version);
+    setSessions((prev) =>
+      prev.map((s) =>
+        s.id === session.id
+          ? { ...s, messages: next, lastUpdated: Date.now() }
+          : s,
+      ),
+    );
+    concierge.end(session.id);
+    concierge.resume(session.id, next, session.model);
+  };
+
+  const handleSendMessage = () => {
+    if (!inputText.trim() || !currentSessionId) return;
+    const userText = inputText.trim();
+    // Anything typed behind a queued message waits its turn, so order holds
+    if (!isOnline || queuedFor(outbox, currentSessionId).length > 0) {
+      setInputText("");
+      setOutbox((prev) => queueMessage(prev, currentSessionId, userText));
+      return;
+    }
+    if (isLoading) return;
+    setInputText("");
+    sendUserMessage(userText);
+  };
+
+  // Delivers the oldest queued message once online. A session only gets its
+  // next one after the previous reply has finished.
+  useEffect(() => {
+    // No current session means the chats have not loaded yet
+    if (!isOnline || outbox.length === 0 || !currentSessionId) return;
+    const next = outbox[0];
+    if (!sessions.some((s) => s.id === next.sessionId)) {
+      // The chat was deleted while the message waited
+      setOutbox((prev) => removeFromOutbox(prev, next.id));
+      return;
+    }
+    if (pendingSessionIds.includes(next.sessionId)) return;
+    setOutbox((prev) => removeFromOutbox(prev, next.id));
+    sendUserMessage(next.text, undefined, undefined, next.sessionId);
+  }, [isOnline, outbox, pendingSessionIds, sessions, currentSessionId]);
+
+  // Editing a chip re-runs the search with the revised criteria
+  const updateSearchCriteria = (criteria: SearchCriteria) => {
+    setSessions((prev) =>
+      prev.map((session) =>
+        session.id === currentSessionId
+          ? { ...session, searchCriteria: criteria, lastUpdated: Date.now() }
+          : session,
+      ),
+    );
+    sendUserMessage(t("chat.updateCriteria"), criteria);
+  };
+
+  // Re-runs enrichment for the current chat so newly added anchors get estimates
+  const estimateCommutes = async () => {
+    const session = getCurrentSession();
+    if (!session || anchors.length === 0) return;
+    setIsEstimatingCommutes(true);
+    try {
+      for (const msg of session.messages) {
+        if (!msg.places?.length) continue;
+        const places = await concierge.enrichPlaces(
+          msg.places,
+          session.searchCriteria,
+          anchors,
+          session.model,
+        );
+        setSessions((prev) =>
+          prev.map((s) =>
+            s.id === session.id
+              ? {
+                  ...s,
+                  messages: s.messages.map((m) =>
+                    m.id === msg.id ? { ...m, places } : m,
+                  ),
+                }
+              : s,
+          ),
+        );
+      }
+    } finally {
+      setIsEstimatingCommutes(false);
+    }
+  };
+
+  const handleStopGenerating = () => {
+    if (currentSessionId) {
+      abortControllersRef.current.get(currentSessionId)?.abort();
+    }
+  };
+
   const messages = getCurrentMessages();
+
+  // Every distinct place in the conversation, numbered in order of appearance
+  const mapPins = useMemo(() => numberPlaces(messages), [messages]);
+
+  const getPinNumber = (place: PlaceData) => {
+    const key = placeKey(place);
+    return mapPins.find((pin) => pin.key === key)?.number;
+  };
+
+  const exportSession = (format: ExportFormat) =>
+    exportReport(
+      format,
+      {
+        title: getCurrentSession()?.title || t("report.untitled"),
+        messages,
+        anchors,
+      },
+      mapProvider,
+    );
+
+  const exportSelection = (format: ExportFormat) =>
+    exportReport(
+      format,
+      { title: t("report.selection"), places: compareSelection, anchors },
+      mapProvider,
+    );
+
+  // "Ask about this" on a card: mention it as "#n" so the reply resolves to it
+  const askAboutPlace = (place: PlaceData) => {
+    const number = getPinNumber(place);
+    if (number === undefined) return;
+    setInputText((prev) => `${prev.trimEnd()} #${number} `.trimStart());
+    inputRef.current?.focus();
+  };
+
+  const scrollToPlaceCard = (key: string) => {
+    setHoveredPlaceKey(key);
+    document
+      .querySelector(`[data-place-key="${CSS.escape(key)}"]`)
+      ?.scrollIntoView({
+        behavior: "smooth",
+        block: "center",
+        inline: "center",
+      });
+  };
   const guestAvatarUrl = `https://api.dicebear.com/7.x/bottts/svg?seed=${GUEST_AVATAR_SEED}&radius=50`;
 
   const themeToggleIcon = isDarkMode ? (
@@ -381,6 +1102,16 @@ function App() {
     </svg>
   );
 
+  if (sharedId) {
+    return (
+      <SharedSessionView
+        shareId={sharedId}
+        onFork={forkSharedSession}
+        onOpenApp={leaveSharedView}
+      />
+    );
+  }
+
   if (!user && !isGuest) {
     return (
       <div className="flex h-[100dvh] w-full flex-col items-center justify-center bg-slate-50 dark:bg-slate-900 text-slate-900 dark:text-slate-100 p-4 relative overflow-hidden transition-colors duration-500 select-none">
@@ -396,6 +1127,11 @@ function App() {
         >
           {themeToggleIcon}
         </button>
+        <LanguagePicker
+          value={locale}
+          onChange={changeLocale}
+          className="absolute top-7 right-24 z-50 shadow-xl"
+        />
 
         {/* Centered Logo & Branding */}
         <div className="relative z-10 flex flex-col items-center w-full max-w-5xl h-full justify-center gap-6 md:gap-10 animate-in fade-in zoom-in-95 duration-700">
@@ -419,7 +1155,7 @@ function App() {
                 CondoScout
               </h1>
               <p className="text-slate-500 dark:text-slate-400 text-[10px] md:text-sm lg:text-base font-black uppercase tracking-[0.25em] md:tracking-[0.4em] opacity-90 leading-none">
-                Elite Real Estate Concierge
+                {t("login.tagline")}
               </p>
             </div>
           </div>
@@ -444,10 +1180,10 @@ function App() {
                   </div>
                   <div>
                     <h3 className="font-black text-slate-900 dark:text-white text-base">
-                      Elite Scouting
+                      {t("login.scoutingTitle")}
                     </h3>
                     <p className="text-xs text-slate-500 dark:text-slate-400 font-medium">
-                      Verified architectural data and location insights.
+                      {t("login.scoutingBody")}
                     </p>
                   </div>
                 </div>
@@ -466,10 +1202,10 @@ function App() {
                   </div>
                   <div>
                     <h3 className="font-black text-slate-900 dark:text-white text-base">
-                      3D Perspectives
+                      {t("login.perspectivesTitle")}
                     </h3>
                     <p className="text-xs text-slate-500 dark:text-slate-400 font-medium">
-                      Satellite-first approach to neighborhood discovery.
+                      {t("login.perspectivesBody")}
                     </p>
                   </div>
                 </div>
@@ -480,13 +1216,19 @@ function App() {
             <div className="flex flex-col justify-center items-center lg:w-1/2 space-y-5 md:space-y-6">
               <div className="text-center space-y-1.5">
                 <h2 className="text-lg md:text-2xl font-black text-slate-900 dark:text-white leading-tight">
-                  Begin Exploration
+                  {t("login.title")}
                 </h2>
                 <p className="text-[11px] md:text-sm text-slate-500 dark:text-slate-400 font-medium px-4">
-                  Instant access to premium curated listings.
+                  {t("login.subtitle")}
                 </p>
               </div>
 
+              {authNotice && (
+                <p className="max-w-[280px] md:max-w-xs text-center text-[11px] md:text-xs font-bold text-amber-700 dark:text-amber-300 bg-amber-50 dark:bg-amber-900/30 border border-amber-100 dark:border-amber-800 rounded-2xl px-4 py-2.5">
+                  {authNotice}
+                </p>
+              )}
+
               <div className="w-full flex flex-col space-y-3.5 md:space-y-4 max-w-[280px] md:max-w-xs">
                 <div className="flex justify-center transition-all hover:scale-[1.03] active:scale-[0.98]">
                   <div
@@ -498,7 +1240,7 @@ function App() {
                 <div className="relative flex items-center py-1">
                   <div className="grow border-t border-slate-200 dark:border-slate-700/50"></div>
                   <span className="shrink-0 mx-4 text-[9px] text-slate-400 dark:text-slate-500 font-black tracking-[0.4em]">
-                    OR
+                    {t("login.or")}
                   </span>
                   <div className="grow border-t border-slate-200 dark:border-slate-700/50"></div>
                 </div>
@@ -514,15 +1256,18 @@ function App() {
                       className="w-full h-full object-cover"
                     />
                   </div>
-                  Guest Access
+                  {t("login.guest")}
                 </button>
+                <p className="text-center text-[10px] text-slate-400 dark:text-slate-500">
+                  {t("login.guestNote", { days: GUEST_SESSION_MAX_AGE_DAYS })}
+                </p>
               </div>
             </div>
           </div>
 
           {/* Sticky Footer - Compacted */}
           <div className="text-slate-400 dark:text-slate-600 text-[9px] md:text-[10px] font-black uppercase tracking-[0.4em] md:tracking-[0.6em] opacity-60 text-center shrink-0">
-            Concierge Engine &middot; CondoScout AI
+            {t("login.footer")}
           </div>
         </div>
       </div>
@@ -536,17 +1281,23 @@ function App() {
         isMobile={isMobile}
         sessions={sessions}
         currentSessionId={currentSessionId}
-        onSelectSession={(id) => {
-          const s = sessions.find((x) => x.id === id);
-          if (s) {
-            setCurrentSessionId(id);
-            resumeChat(s.messages);
-          }
-          if (isMobile) setIsSidebarOpen(false);
-        }}
+        pendingSessionIds={pendingSessionIds}
+        onSelectSession={selectSession}
+        onOpenMessage={openMessage}
         onNewChat={createNewSession}
-        onDeleteSession={deleteSession}
+        onUpdateSessions={updateSessions}
+        onDeleteSessions={deleteSessions}
         onClose={() => setIsSidebarOpen(false)}
+        shortlist={shortlist}
+        onOpenShortlistSource={openShortlistSource}
+        onUpdateShortlistItem={(key, patch) =>
+          setShortlist((prev) => updateShortlistItem(prev, key, patch))
+        }
+        onRemoveShortlistItem={(key) =>
+          setShortlist((prev) => removeFromShortlist(prev, key))
+        }
+        isShortlistItemCompared={(item) => isPlaceCompared(item.place)}
+        onToggleCompareShortlistItem={(item) => toggleComparePlace(item.place)}
       />
       <div className="flex-1 flex flex-col min-w-0 transition-all duration-300 relative h-full">
         <header className="bg-white/90 dark:bg-slate-900/90 backdrop-blur-2xl border-b border-slate-200/60 dark:border-slate-800/60 py-3 md:py-4 px-4 md:px-6 shadow-sm z-30 shrink-0 flex items-center justify-between">
@@ -591,6 +1342,81 @@ function App() {
             </div>
           </div>
           <div className="flex items-center space-x-2 md:space-x-5">
+            {user && (
+              <AlertsMenu
+                alerts={alerts}
+                onOpenPlace={openAlertPlace}
+                onMarkRead={readAlerts}
+              />
+            )}
+            <button
+              onClick={() => {
+                setIsMapOpen(!isMapOpen);
+                setIsPickingSearchPoint(false);
+              }}
+              className={`p-2.5 rounded-full transition-all ${isMapOpen ? "bg-indigo-50 dark:bg-indigo-900/30 text-indigo-600 dark:text-indigo-300" : "text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800"}`}
+              title={t(isMapOpen ? "header.hideMap" : "header.showMap")}
+            >
+              <svg
+                width="20"
+                height="20"
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2.5"
+              >
+                <polygon points="1 6 1 22 8 18 16 22 23 18 23 2 16 6 8 2 1 6"></polygon>
+                <line x1="8" y1="2" x2="8" y2="18"></line>
+                <line x1="16" y1="6" x2="16" y2="22"></line>
+              </svg>
+            </button>
+            <ShareButton
+              session={getCurrentSession()}
+              disabled={messages.length <= 1}
+            />
+            {user && (
+              <SavedSearchButton
+                savedSearch={savedSearches.find(
+                  (s) => s.sessionId === currentSessionId,
+                )}
+                canSave={
+                  isOnline &&
+                  !!getCurrentSession() &&
+                  !!savedSearchDraft(getCurrentSession(), { mode: "device" }, 0)
+                }
+                onSave={watchCurrentSearch}
+                onStop={stopWatching}
+              />
+            )}
+            <ExportMenu
+              compact
+              title={t("header.export")}
+              disabled={messages.length <= 1}
+              onExport={exportSession}
+            />
+            <CommuteControl
+              anchors={anchors}
+              filter={commuteFilter}
+              isEstimating={isEstimatingCommutes}
+              onChangeAnchors={setAnchors}
+              onChangeFilter={setCommuteFilter}
+              onEstimate={estimateCommutes}
+            />
+            <ModelPicker
+              models={concierge.models}
+              value={getCurrentSession()?.model || concierge.defaultModel}
+              disabled={isLoading}
+              onChange={updateSessionModel}
+            />
+            <SearchAreaControl
+              searchArea={getCurrentSearchArea()}
+              deviceLocation={location}
+              onChange={updateSearchArea}
+              onPickOnMap={() => {
+                setIsPickingSearchPoint(true);
+                setIsMapOpen(true);
+              }}
+            />
             <button
               onClick={() => setIsDarkMode(!isDarkMode)}
               className="p-2.5 rounded-full text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800 transition-all hover:rotate-12"
@@ -655,12 +1481,18 @@ function App() {
                 <div className="absolute right-0 mt-3 w-64 bg-white/95 dark:bg-slate-800/95 backdrop-blur-xl rounded-2xl shadow-[0_20px_40px_rgba(0,0,0,0.2)] border border-slate-200/50 dark:border-slate-700/50 py-3 z-50 animate-in fade-in zoom-in-95 duration-200 origin-top-right">
                   <div className="px-5 py-2 border-b border-slate-100 dark:border-slate-700 mb-2">
                     <p className="text-sm font-bold text-slate-900 dark:text-slate-100 truncate">
-                      {user ? user.name : "Guest Access"}
+                      {user ? user.name : t("login.guest")}
                     </p>
                     <p className="text-[10px] text-slate-400 dark:text-slate-500 uppercase font-bold tracking-widest mt-0.5">
-                      {user ? user.email : "Limited Search History"}
+                      {user ? user.email : t("menu.guestNote")}
                     </p>
                   </div>
+                  <div className="flex items-center justify-between gap-3 px-5 py-2">
+                    <span className="text-xs font-bold text-slate-500 dark:text-slate-400">
+                      {t("menu.language")}
+                    </span>
+                    <LanguagePicker value={locale} onChange={changeLocale} />
+                  </div>
                   <div className="px-2">
                     <button
                       onClick={handleLogout}
@@ -678,7 +1510,7 @@ function App() {
                         <polyline points="16 17 21 12 16 7"></polyline>
                         <line x1="21" y1="12" x2="9" y2="12"></line>
                       </svg>
-                      Sign Out
+                      {t("menu.signOut")}
                     </button>
                   </div>
                 </div>
@@ -687,21 +1519,208 @@ function App() {
           </div>
         </header>
 
-        <main className="flex-1 overflow-y-auto p-4 sm:p-6 lg:p-10 scroll-smooth">
-          <div className="max-w-4xl lg:max-w-5xl mx-auto space-y-8">
-            {messages.map((msg) => (
-              <ChatMessage
-                key={msg.id}
-                message={msg}
-                userAvatar={user ? user.picture : guestAvatarUrl}
+        <div className="flex-1 flex min-h-0 relative">
+          <main className="flex-1 min-w-0 overflow-y-auto p-4 sm:p-6 lg:p-10 scroll-smooth">
+            <div className="max-w-4xl lg:max-w-5xl mx-auto space-y-8">
+              {messages.map((msg, i) => (
+                <ChatMessage
+                  key={msg.id}
+                  message={msg}
+                  userAvatar={user ? user.picture : guestAvatarUrl}
+                  isHighlighted={highlightedMessageId === msg.id}
+                  isPlaceSaved={(place) => isShortlisted(shortlist, place)}
+                  onToggleSavePlace={toggleSavePlace}
+                  isPlaceCompared={isPlaceCompared}
+                  onToggleComparePlace={toggleComparePlace}
+                  getPinNumber={getPinNumber}
+                  hoveredPlaceKey={hoveredPlaceKey}
+                  onHoverPlace={setHoveredPlaceKey}
+                  onAskAboutPlace={askAboutPlace}
+                  onOpenPlace={setDetailPlace}
+                  anchors={anchors}
+                  commuteFilter={commuteFilter}
+                  canBranch={!isLoading}
+                  onEdit={
+                    msg.role === "user"
+                      ? (text) => editMessage(msg.id, text)
+                      : undefined
+                  }
+                  onRegenerate={
+                    msg.role === "model" && messages[i - 1]?.role === "user"
+                      ? () => regenerateMessage(msg.id)
+                      : undefined
+                  }
+                  onRetry={() => retryMessage(msg.id)}
+                  onSelectVersion={(version) =>
+                    showMessageVersion(msg.id, version)
+                  }
+                  isOffline={!isOnline}
+                />
+              ))}
+              {queuedFor(outbox, currentSessionId).map((entry) => (
+                <ChatMessage
+                  key={entry.id}
+                  message={{ id: entry.id, role: "user", text: entry.text }}
+                  userAvatar={user ? user.picture : guestAvatarUrl}
+                  anchors={anchors}
+                  commuteFilter={commuteFilter}
+                  isOffline={!isOnline}
+                  onCancelQueued={() =>
+                    setOutbox((prev) => removeFromOutbox(prev, entry.id))
+                  }
+                />
+              ))}
+              <div ref={messagesEndRef} />
+            </div>
+          </main>
+          {isMapOpen && (
+            <div
+              className={
+                isMobile
+                  ? "absolute inset-0 z-20"
+                  : "w-[42%] max-w-2xl shrink-0 border-l border-slate-200 dark:border-slate-800"
+              }
+            >
+              <ResultsMap
+                pins={mapPins}
+                provider={mapProvider}
+                hoveredKey={hoveredPlaceKey}
+                onHoverPin={setHoveredPlaceKey}
+                onSelectPin={(key) => {
+                  if (isMobile) setIsMapOpen(false);
+                  scrollToPlaceCard(key);
+                }}
+                onClose={() => {
+                  setIsMapOpen(false);
+                  setIsPickingSearchPoint(false);
+                }}
+                searchPoint={
+                  getCurrentSearchArea().mode === "pinned"
+                    ? getCurrentSearchArea().location
+                    : undefined
+                }
+                onPickLocation={
+                  isPickingSearchPoint
+                    ? (point) => {
+                        updateSearchArea({ mode: "pinned", location: point });
+                        setIsPickingSearchPoint(false);
+                        if (isMobile) setIsMapOpen(false);
+                      }
+                    : undefined
+                }
+                onCancelPick={() => setIsPickingSearchPoint(false)}
               />
-            ))}
-            <div ref={messagesEndRef} />
-          </div>
-        </main>
+            </div>
+          )}
+        </div>
 
         <div className="bg-white/90 dark:bg-slate-900/90 backdrop-blur-2xl border-t border-slate-200/60 dark:border-slate-800/60 p-4 md:p-6 shrink-0 z-20 pb-safe">
           <div className="max-w-4xl lg:max-w-5xl mx-auto relative">
+            {!isOnline && (
+              <div className="mb-3 px-4 py-2.5 rounded-2xl bg-amber-50 dark:bg-amber-900/30 border border-amber-100 dark:border-amber-800 text-xs font-bold text-amber-700 dark:text-amber-300">
+                {t("banner.offline")}
+              </div>
+            )}
+            {syncError && (
+              <div className="flex items-center justify-between gap-3 mb-3 px-4 py-2.5 rounded-2xl bg-red-50 dark:bg-red-900/30 border border-red-100 dark:border-red-800">
+                <span className="text-xs font-bold text-red-700 dark:text-red-300">
+                  {syncError}
+                </span>
+                <button
+                  onClick={() => setSyncError(null)}
+                  className="shrink-0 text-red-400 hover:text-red-600 text-sm"
+                  title={t("common.dismiss")}
+                >
+                  ×
+                </button>
+              </div>
+            )}
+            {guestSessions.length > 0 && (
+              <div className="flex items-center justify-between gap-3 mb-3 px-4 py-2.5 rounded-2xl bg-indigo-50 dark:bg-indigo-900/30 border border-indigo-100 dark:border-indigo-800">
+                <span className="text-xs font-bold text-indigo-700 dark:text-indigo-300">
+                  {guestSessions.length === 1
+                    ? t("banner.guestOne")
+                    : t("banner.guestMany", { count: guestSessions.length })}
+                </span>
+                <div className="flex items-center gap-2 shrink-0">
+                  <button
+                    onClick={mergeGuestSessionsIntoAccount}
+                    className="px-3 py-1.5 rounded-xl bg-indigo-600 hover:bg-indigo-700 text-white text-xs font-bold transition-colors"
+                  >
+                    {t("banner.addToAccount")}
+                  </button>
+                  <button
+                    onClick={forgetGuestSessions}
+                    className="px-2 py-1.5 rounded-xl text-xs font-bold text-slate-500 hover:text-red-600 transition-colors"
+                  >
+                    {t("banner.discard")}
+                  </button>
+                  <button
+                    onClick={() => setGuestSessions([])}
+                    className="text-indigo-400 hover:text-indigo-600 text-sm"
+                    title={t("banner.askNextTime")}
+                  >
+                    ×
+                  </button>
+                </div>
+              </div>
+            )}
+            {deletedSessions.length > 0 && (
+              <div className="flex items-center justify-between gap-3 mb-3 px-4 py-2.5 rounded-2xl bg-slate-800 dark:bg-slate-700 text-white shadow-lg">
+                <span className="text-xs font-bold truncate">
+                  {deletedSessions.length === 1
+                    ? t("banner.deletedOne", {
+                        title:
+                          deletedSessions[0].title || t("common.newSearch"),
+                      })
+                    : t("banner.deletedMany", {
+                        count: deletedSessions.length,
+                      })}
+                </span>
+                <button
+                  onClick={undoDelete}
+                  className="shrink-0 text-xs font-black uppercase tracking-widest text-indigo-300 hover:text-indigo-200"
+                >
+                  {t("common.undo")}
+                </button>
+              </div>
+            )}
+            {compareSelection.length > 0 && (
+              <div className="flex items-center justify-between gap-3 mb-3 px-4 py-2.5 rounded-2xl bg-indigo-50 dark:bg-indigo-900/30 border border-indigo-100 dark:border-indigo-800">
+                <span className="text-xs font-bold text-indigo-700 dark:text-indigo-300 truncate">
+                  {t("banner.compareSelected", {
+                    count: compareSelection.length,
+                  })}
+                  {compareSelection.length >= MAX_COMPARE &&
+                    t("banner.compareMax", { max: MAX_COMPARE })}
+                </span>
+                <div className="flex items-center gap-2 shrink-0">
+                  <ExportMenu
+                    opensUpward
+                    title={t("banner.exportSelection")}
+                    onExport={exportSelection}
+                  />
+                  <button
+                    onClick={() => setCompareSelection([])}
+                    className="px-3 py-1.5 rounded-lg text-xs font-bold text-slate-500 hover:bg-white/60 dark:hover:bg-slate-800 transition-colors"
+                  >
+                    {t("banner.clear")}
+                  </button>
+                  <button
+                    onClick={() => setIsCompareOpen(true)}
+                    disabled={compareSelection.length < 2}
+                    className="px-3 py-1.5 rounded-lg text-xs font-bold bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 text-white transition-colors"
+                  >
+                    {t("banner.compare")}
+                  </button>
+                </div>
+              </div>
+            )}
+            <CriteriaChips
+              criteria={getCurrentSession()?.searchCriteria || {}}
+              disabled={isLoading || !isOnline}
+              onChange={updateSearchCriteria}
+            />
             <div className="relative flex items-center bg-slate-100 dark:bg-slate-800/80 rounded-3xl border-2 border-transparent focus-within:border-indigo-500/20 dark:focus-within:border-indigo-500/40 focus-within:bg-white dark:focus-within:bg-slate-900 focus-within:shadow-[0_8px_30px_rgb(0,0,0,0.04)] transition-all duration-300">
               <input
                 ref={inputRef}
@@ -716,33 +1735,30 @@ function App() {
                 disabled={isLoading}
                 autoComplete="off"
                 className="w-full bg-transparent border-none text-slate-800 dark:text-slate-100 placeholder-slate-400 dark:placeholder-slate-500 focus:outline-none focus:ring-0 px-5 md:px-7 py-2 md:py-5 min-h-[56px] md:min-h-[64px] text-base md:text-lg pr-14 md:pr-16 placeholder:text-sm md:placeholder:text-base"
-                placeholder="e.g., 'Luxury condo in Silom under 40k...'"
+                placeholder={t("chat.placeholder")}
               />
-              <button
-                onClick={handleSendMessage}
-                disabled={!inputText.trim() || isLoading}
-                className={`absolute right-3 top-1/2 -translate-y-1/2 p-2.5 rounded-2xl transition-all ${!inputText.trim() || isLoading ? "bg-slate-200 dark:bg-slate-700 text-slate-400 opacity-50" : "bg-indigo-600 text-white hover:bg-indigo-700 shadow-lg active:scale-90"}`}
-              >
-                {isLoading ? (
+              {isLoading ? (
+                <button
+                  onClick={handleStopGenerating}
+                  className="absolute right-3 top-1/2 -translate-y-1/2 p-2.5 rounded-2xl transition-all bg-slate-800 dark:bg-slate-200 text-white dark:text-slate-900 hover:bg-slate-700 dark:hover:bg-white shadow-lg active:scale-90"
+                  title={t("chat.stop")}
+                >
                   <svg
-                    className="animate-spin h-5 w-5 md:h-6 md:w-6"
+                    width="20"
+                    height="20"
                     viewBox="0 0 24 24"
+                    fill="currentColor"
+                    className="md:w-6 md:h-6"
                   >
-                    <circle
-                      className="opacity-25"
-                      cx="12"
-                      cy="12"
-                      r="10"
-                      stroke="currentColor"
-                      strokeWidth="4"
-                    ></circle>
-                    <path
-                      className="opacity-75"
-                      fill="currentColor"
-                      d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
-                    ></path>
+                    <rect x="6" y="6" width="12" height="12" rx="2"></rect>
                   </svg>
-                ) : (
+                </button>
+              ) : (
+                <button
+                  onClick={handleSendMessage}
+                  disabled={!inputText.trim()}
+                  className={`absolute right-3 top-1/2 -translate-y-1/2 p-2.5 rounded-2xl transition-all ${!inputText.trim() ? "bg-slate-200 dark:bg-slate-700 text-slate-400 opacity-50" : "bg-indigo-600 text-white hover:bg-indigo-700 shadow-lg active:scale-90"}`}
+                >
                   <svg
                     width="20"
                     height="20"
@@ -752,16 +1768,44 @@ function App() {
                   >
                     <path d="M2.01 21L23 12 2.01 3 2 10l15 2-15 2z"></path>
                   </svg>
-                )}
-              </button>
+                </button>
+              )}
             </div>
             <p className="text-center text-[8px] uppercase tracking-[0.3em] text-slate-400 dark:text-slate-600 mt-4 opacity-70">
-              CondoScout AI can make mistakes &middot; always verify details
-              with official sources
+              {t("chat.disclaimer")}
             </p>
           </div>
         </div>
       </div>
+      {isCompareOpen && compareSelection.length > 0 && (
+        <ComparisonView
+          provider={concierge}
+          places={compareSelection}
+          criteria={getCurrentSession()?.searchCriteria}
+          model={getCurrentSession()?.model}
+          onRemovePlace={toggleComparePlace}
+          onClose={() => setIsCompareOpen(false)}
+        />
+      )}
+      {detailPlace && (
+        <PlaceDetailDrawer
+          key={placeKey(detailPlace)}
+          provider={concierge}
+          place={detailPlace}
+          pinNumber={getPinNumber(detailPlace)}
+          criteria={getCurrentSession()?.searchCriteria}
+          model={getCurrentSession()?.model}
+          onAskInChat={
+            getPinNumber(detailPlace) !== undefined
+              ? () => {
+                  setDetailPlace(null);
+                  askAboutPlace(detailPlace);
+                }
+              : undefined
+          }
+          onClose={() => setDetailPlace(null)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,128 @@
+import React, { useEffect, useRef, useState } from "react";
+import { PlaceData, SearchAlert } from "../types";
+import { describeChange } from "../services/savedSearches";
+import { formatDateTime, t } from "../services/i18n";
+
+interface AlertsMenuProps {
+  alerts: SearchAlert[]; // Newest first
+  onOpenPlace: (alert: SearchAlert, place: PlaceData) => void;
+  onMarkRead: (ids: string[]) => void;
+}
+
+// Changes listed per alert before the rest are summarised as "+n more"
+const MAX_CHANGES_SHOWN = 3;
+
+// Notifications from saved searches. Picking a place opens its chat and the
+// place's details; the badge counts alerts not yet opened.
+const AlertsMenu: React.FC<AlertsMenuProps> = ({
+  alerts,
+  onOpenPlace,
+  onMarkRead,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const unread = alerts.filter((a) => !a.read);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (
+        containerRef.current &&
+        !containerRef.current.contains(event.target as Node)
+      ) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, []);
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="relative p-2.5 rounded-full text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800 transition-all"
+        title={t("alerts.title")}
+      >
+        <svg
+          width="20"
+          height="20"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2.5"
+        >
+          <path d="M18 8A6 6 0 0 0 6 8c0 7-3 9-3 9h18s-3-2-3-9"></path>
+          <path d="M13.73 21a2 2 0 0 1-3.46 0"></path>
+        </svg>
+        {unread.length > 0 && (
+          <span className="absolute top-1 right-1 min-w-[16px] h-4 px-1 rounded-full bg-red-500 text-white text-[10px] font-black leading-4 text-center">
+            {unread.length > 9 ? "9+" : unread.length}
+          </span>
+        )}
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-3 w-80 max-h-[70vh] overflow-y-auto bg-white/95 dark:bg-slate-800/95 backdrop-blur-xl rounded-2xl shadow-[0_20px_40px_rgba(0,0,0,0.2)] border border-slate-200/50 dark:border-slate-700/50 p-2 z-50 animate-in fade-in zoom-in-95 duration-200 origin-top-right">
+          <div className="flex items-center justify-between px-2 py-1.5">
+            <p className="text-[10px] uppercase tracking-widest font-bold text-slate-400">
+              {t("alerts.heading")}
+            </p>
+            {unread.length > 0 && (
+              <button
+                onClick={() => onMarkRead(unread.map((a) => a.id))}
+                className="text-[11px] font-bold text-indigo-500 hover:text-indigo-600"
+              >
+                {t("alerts.markAllRead")}
+              </button>
+            )}
+          </div>
+          {alerts.length === 0 && (
+            <p className="px-2 py-3 text-sm text-slate-400">
+              {t("alerts.empty")}
+            </p>
+          )}
+          {alerts.map((alert) => (
+            <div
+              key={alert.id}
+              className={`px-2 py-2 rounded-xl ${alert.read ? "" : "bg-indigo-50/70 dark:bg-indigo-900/20"}`}
+            >
+              <p className="text-xs font-bold text-slate-700 dark:text-slate-200 truncate">
+                {alert.title}
+              </p>
+              <p className="text-[10px] text-slate-400 mb-1">
+                {formatDateTime(alert.createdAt)}
+              </p>
+              {alert.changes.slice(0, MAX_CHANGES_SHOWN).map((change, i) => (
+                <button
+                  key={i}
+                  onClick={() => {
+                    setIsOpen(false);
+                    onOpenPlace(alert, change.place);
+                  }}
+                  className="block w-full text-left px-2 py-1 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors"
+                >
+                  <span className="block text-xs font-semibold text-slate-600 dark:text-slate-300 truncate">
+                    {change.place.title}
+                  </span>
+                  <span
+                    className={`block text-[11px] ${change.kind === "new" ? "text-emerald-600 dark:text-emerald-400" : "text-amber-600 dark:text-amber-400"}`}
+                  >
+                    {describeChange(change)}
+                  </span>
+                </button>
+              ))}
+              {alert.changes.length > MAX_CHANGES_SHOWN && (
+                <p className="px-2 text-[11px] text-slate-400">
+                  {t("alerts.more", {
+                    count: alert.changes.length - MAX_CHANGES_SHOWN,
+                  })}
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AlertsMenu;
@@ -1,12 +1,36 @@
 
 import React, { useState } from 'react';
-import { Message } from '../types';
+import { Anchor, CommuteFilter, Message, PlaceData } from '../types';
 import PlaceCard from './PlaceCard';
+import { placeKey } from '../services/shortlistStore';
+import { applyCommuteFilter } from '../services/commute';
+import { versionCount, versionIndex } from '../services/branches';
+import { conciergeErrorText, isTransient } from '../services/conciergeErrors';
+import { formatNumber, t } from '../services/i18n';
 import ReactMarkdown from 'react-markdown';
 
 interface ChatMessageProps {
   message: Message;
   userAvatar?: string;
+  isHighlighted?: boolean;
+  isPlaceSaved?: (place: PlaceData) => boolean;
+  onToggleSavePlace?: (place: PlaceData, messageId: string) => void;
+  isPlaceCompared?: (place: PlaceData) => boolean;
+  onToggleComparePlace?: (place: PlaceData) => void;
+  getPinNumber?: (place: PlaceData) => number | undefined;
+  hoveredPlaceKey?: string | null;
+  onHoverPlace?: (key: string | null) => void;
+  anchors?: Anchor[];
+  commuteFilter?: CommuteFilter | null;
+  onAskAboutPlace?: (place: PlaceData) => void;
+  onOpenPlace?: (place: PlaceData) => void;
+  onEdit?: (text: string) => void; // Resends the user's message as a new version
+  onRegenerate?: () => void;
+  onSelectVersion?: (version: number) => void;
+  onRetry?: () => void; // Asks again in place of a reply that failed
+  canBranch?: boolean; // False while a reply is on its way
+  isOffline?: boolean;
+  onCancelQueued?: () => void; // Set for a message still waiting in the outbox
 }
 
 const FallbackBearIcon = () => (
@@ -19,13 +43,28 @@ const FallbackBearIcon = () => (
   </svg>
 );
 
-const ChatMessage: React.FC<ChatMessageProps> = ({ message, userAvatar }) => {
+const ChatMessage: React.FC<ChatMessageProps> = ({ message, userAvatar, isHighlighted, isPlaceSaved, onToggleSavePlace, isPlaceCompared, onToggleComparePlace, getPinNumber, hoveredPlaceKey, onHoverPlace, anchors, commuteFilter = null, onAskAboutPlace, onOpenPlace, onEdit, onRegenerate, onSelectVersion, onRetry, canBranch = true, isOffline, onCancelQueued }) => {
   const isUser = message.role === 'user';
   const hasPlaces = message.places && message.places.length > 0;
+  const visiblePlaces = applyCommuteFilter(message.places || [], commuteFilter);
+  const hiddenCount = (message.places?.length || 0) - visiblePlaces.length;
   const [imageError, setImageError] = useState(false);
+  const [draft, setDraft] = useState<string | null>(null); // Non-null while editing
+  const versions = versionCount(message);
+  const shownVersion = versionIndex(message);
+  const isDone = !message.isThinking && !message.isStreaming;
+
+  const submitEdit = () => {
+    const text = draft?.trim();
+    if (text && text !== message.text) onEdit?.(text);
+    setDraft(null);
+  };
 
   return (
-    <div className={`flex w-full mb-6 ${isUser ? 'flex-row-reverse' : 'flex-row'} items-start gap-3 md:gap-4`}>
+    <div
+      id={`message-${message.id}`}
+      className={`flex w-full mb-6 ${isUser ? 'flex-row-reverse' : 'flex-row'} items-start gap-3 md:gap-4 rounded-2xl transition-shadow duration-700 ${isHighlighted ? 'ring-2 ring-amber-400/70 ring-offset-8 ring-offset-slate-50 dark:ring-offset-slate-900' : ''}`}
+    >
       {/* Avatar Section */}
       <div className="shrink-0">
         {isUser ? (
@@ -54,11 +93,30 @@ const ChatMessage: React.FC<ChatMessageProps> = ({ message, userAvatar }) => {
       {/* Content Wrapper */}
       <div className={`flex flex-col flex-1 min-w-0 ${isUser ? 'items-end' : 'items-start'}`}>
         <span className="text-[10px] md:text-xs font-bold text-slate-400 dark:text-slate-500 mb-1 px-1 uppercase tracking-wider">
-          {isUser ? 'You' : 'Royce'}
+          {isUser ? t('chat.you') : 'Royce'}
         </span>
 
         {/* Text Bubble */}
-        <div className={`px-4 py-3 md:px-5 md:py-4 rounded-2xl shadow-sm text-sm md:text-base leading-relaxed whitespace-pre-wrap break-words transition-colors duration-300 w-fit max-w-full
+        {draft !== null ? (
+          <div className="w-full max-w-xl flex flex-col items-end gap-2">
+            <textarea
+              autoFocus
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); submitEdit(); }
+                if (e.key === 'Escape') setDraft(null);
+              }}
+              rows={Math.min(6, draft.split('\n').length + 1)}
+              className="w-full px-4 py-3 rounded-2xl rounded-tr-none border-2 border-indigo-400 bg-white dark:bg-slate-800 text-sm md:text-base text-slate-800 dark:text-slate-100 focus:outline-none resize-none"
+            />
+            <div className="flex gap-2">
+              <button onClick={() => setDraft(null)} className="px-3 py-1.5 rounded-xl text-xs font-bold text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors">{t('common.cancel')}</button>
+              <button onClick={submitEdit} disabled={!canBranch || !draft.trim()} className="px-3 py-1.5 rounded-xl bg-indigo-600 hover:bg-indigo-700 text-white text-xs font-bold transition-colors disabled:opacity-40">{t('chat.saveAndSend')}</button>
+            </div>
+          </div>
+        ) : message.error && !message.text ? null : (
+        <div className={`px-4 py-3 md:px-5 md:py-4 rounded-2xl shadow-sm text-sm md:text-base leading-relaxed whitespace-pre-wrap break-words transition-colors duration-300 w-fit max-w-full ${onCancelQueued ? 'opacity-60' : ''}
             ${isUser ? 'bg-indigo-600 text-white rounded-tr-none' : 'bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-slate-800 dark:text-slate-200 rounded-tl-none'}`}>
           {message.isThinking ? (
             <div className="flex flex-col space-y-3 min-w-[180px] py-1">
@@ -67,7 +125,7 @@ const ChatMessage: React.FC<ChatMessageProps> = ({ message, userAvatar }) => {
                       <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                       <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                   </svg>
-                  <span className="text-[10px] font-semibold uppercase tracking-widest animate-pulse">Scouting...</span>
+                  <span className="text-[10px] font-semibold uppercase tracking-widest animate-pulse">{t('chat.scouting')}</span>
                 </div>
             </div>
           ) : (
@@ -81,15 +139,74 @@ const ChatMessage: React.FC<ChatMessageProps> = ({ message, userAvatar }) => {
                 {message.text}
             </ReactMarkdown>
           )}
+          {message.isStreaming && (
+            <span className="inline-block w-2 h-4 ml-0.5 align-middle bg-indigo-500 dark:bg-indigo-400 animate-pulse rounded-sm" />
+          )}
         </div>
+        )}
+
+        {message.error && (
+          <div className={`flex items-center gap-3 px-4 py-2.5 rounded-2xl text-xs md:text-sm border w-fit max-w-full ${message.text ? 'mt-2' : 'rounded-tl-none'} ${isTransient(message.error) ? 'bg-amber-50 dark:bg-amber-900/30 border-amber-200 dark:border-amber-800 text-amber-800 dark:text-amber-200' : 'bg-red-50 dark:bg-red-900/30 border-red-200 dark:border-red-800 text-red-700 dark:text-red-300'}`}>
+            <span>{conciergeErrorText(message.error)}</span>
+            {onRetry && (
+              <button onClick={onRetry} disabled={!canBranch} className="shrink-0 px-3 py-1 rounded-xl bg-white/80 dark:bg-slate-800 border border-current/20 font-bold hover:bg-white dark:hover:bg-slate-700 disabled:opacity-40 transition-colors">{t('chat.retry')}</button>
+            )}
+          </div>
+        )}
+
+        {onCancelQueued && (
+          <div className="flex items-center gap-2 mt-1 px-1 text-[11px] text-slate-400 dark:text-slate-500">
+            <span className="animate-pulse">{t(isOffline ? 'chat.waiting' : 'chat.sending')}</span>
+            <button onClick={onCancelQueued} className="px-2 py-0.5 rounded-md font-semibold hover:bg-slate-200 dark:hover:bg-slate-700 hover:text-slate-600 dark:hover:text-slate-300 transition-colors">{t('common.cancel')}</button>
+          </div>
+        )}
+
+        {/* Versions and actions */}
+        {draft === null && isDone && (versions > 1 || onEdit || onRegenerate) && (
+          <div className={`flex items-center gap-1 mt-1 px-1 text-[11px] text-slate-400 dark:text-slate-500 ${isUser ? 'flex-row-reverse' : ''}`}>
+            {versions > 1 && onSelectVersion && (
+              <div className="flex items-center gap-0.5" title={t('chat.versions')}>
+                <button onClick={() => onSelectVersion(shownVersion - 1)} disabled={!canBranch || shownVersion === 0} className="px-1.5 py-0.5 rounded-md hover:bg-slate-200 dark:hover:bg-slate-700 disabled:opacity-30">‹</button>
+                <span className="tabular-nums">{shownVersion + 1}/{versions}</span>
+                <button onClick={() => onSelectVersion(shownVersion + 1)} disabled={!canBranch || shownVersion === versions - 1} className="px-1.5 py-0.5 rounded-md hover:bg-slate-200 dark:hover:bg-slate-700 disabled:opacity-30">›</button>
+              </div>
+            )}
+            {isUser && onEdit && (
+              <button onClick={() => setDraft(message.text)} disabled={!canBranch} className="px-2 py-0.5 rounded-md font-semibold hover:bg-slate-200 dark:hover:bg-slate-700 hover:text-slate-600 dark:hover:text-slate-300 disabled:opacity-30 transition-colors">{t('chat.edit')}</button>
+            )}
+            {!isUser && onRegenerate && !message.error && (
+              <button onClick={onRegenerate} disabled={!canBranch} className="px-2 py-0.5 rounded-md font-semibold hover:bg-slate-200 dark:hover:bg-slate-700 hover:text-slate-600 dark:hover:text-slate-300 disabled:opacity-30 transition-colors">{t('chat.regenerate')}</button>
+            )}
+          </div>
+        )}
 
         {!isUser && hasPlaces && (
           <div className="mt-4 w-full animate-in fade-in slide-in-from-bottom-2 duration-500">
              <div className="flex space-x-4 overflow-x-auto pb-4 pt-1 snap-x px-2 -mx-2 scrollbar-hide">
-                {message.places?.map((place, idx) => (
-                  <PlaceCard key={`${place.placeId}-${idx}`} place={place} />
+                {visiblePlaces.map((place, idx) => (
+                  <PlaceCard
+                    key={`${place.placeId}-${idx}`}
+                    place={place}
+                    isSaved={isPlaceSaved?.(place)}
+                    onToggleSave={onToggleSavePlace && (() => onToggleSavePlace(place, message.id))}
+                    isCompared={isPlaceCompared?.(place)}
+                    onToggleCompare={onToggleComparePlace && (() => onToggleComparePlace(place))}
+                    pinNumber={getPinNumber?.(place)}
+                    isHovered={!!hoveredPlaceKey && hoveredPlaceKey === placeKey(place)}
+                    onHoverChange={onHoverPlace && ((hovered) => onHoverPlace(hovered ? placeKey(place) : null))}
+                    anchors={anchors}
+                    commuteMode={commuteFilter?.mode}
+                    onAsk={onAskAboutPlace && (() => onAskAboutPlace(place))}
+                    onOpen={onOpenPlace && (() => onOpenPlace(place))}
+                    isOffline={isOffline}
+                  />
                 ))}
              </div>
+             {hiddenCount > 0 && (
+               <p className="text-[11px] text-slate-400 dark:text-slate-500 px-1">
+                 {hiddenCount === 1 ? t('chat.hiddenOne') : t('chat.hiddenMany', { count: formatNumber(hiddenCount) })}
+               </p>
+             )}
           </div>
         )}
       </div>
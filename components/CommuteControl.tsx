@@ -0,0 +1,257 @@
+import React, { useEffect, useRef, useState } from "react";
+import { v4 as uuidv4 } from "uuid";
+import { Anchor, CommuteFilter, TravelMode } from "../types";
+import { TRAVEL_MODE_LABELS, travelModeLabel } from "../services/commute";
+import { formatMinutes, t } from "../services/i18n";
+
+interface CommuteControlProps {
+  anchors: Anchor[];
+  filter: CommuteFilter | null;
+  isEstimating: boolean;
+  onChangeAnchors: (anchors: Anchor[]) => void;
+  onChangeFilter: (filter: CommuteFilter | null) => void;
+  onEstimate: () => void;
+}
+
+const inputClasses =
+  "w-full bg-slate-100 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-800 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-indigo-500/30";
+
+const CommuteControl: React.FC<CommuteControlProps> = ({
+  anchors,
+  filter,
+  isEstimating,
+  onChangeAnchors,
+  onChangeFilter,
+  onEstimate,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [address, setAddress] = useState("");
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (
+        containerRef.current &&
+        !containerRef.current.contains(event.target as Node)
+      ) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, []);
+
+  const addAnchor = () => {
+    if (!name.trim() || !address.trim()) return;
+    const anchor: Anchor = {
+      id: uuidv4(),
+      name: name.trim(),
+      address: address.trim(),
+    };
+    onChangeAnchors([...anchors, anchor]);
+    if (!filter) {
+      onChangeFilter({
+        anchorId: anchor.id,
+        mode: "transit",
+        sortByCommute: false,
+      });
+    }
+    setName("");
+    setAddress("");
+  };
+
+  const removeAnchor = (id: string) => {
+    const remaining = anchors.filter((a) => a.id !== id);
+    onChangeAnchors(remaining);
+    if (filter?.anchorId === id) {
+      onChangeFilter(
+        remaining.length > 0 ? { ...filter, anchorId: remaining[0].id } : null,
+      );
+    }
+  };
+
+  const activeAnchor = filter && anchors.find((a) => a.id === filter.anchorId);
+
+  // Anchors outlive the (unsaved) filter, so offer a neutral one after a reload
+  const editableFilter: CommuteFilter | null =
+    filter ||
+    (anchors.length > 0
+      ? { anchorId: anchors[0].id, mode: "transit", sortByCommute: false }
+      : null);
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`flex items-center gap-2 px-3 py-2 rounded-full text-xs font-bold transition-colors ${filter?.maxMinutes !== undefined || filter?.sortByCommute ? "bg-indigo-50 dark:bg-indigo-900/30 text-indigo-600 dark:text-indigo-300" : "bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700"}`}
+        title={t("commute.anchors")}
+      >
+        <svg
+          width="14"
+          height="14"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2.5"
+          className="shrink-0"
+        >
+          <circle cx="12" cy="12" r="10"></circle>
+          <polyline points="12 6 12 12 16 14"></polyline>
+        </svg>
+        <span className="hidden sm:inline truncate max-w-[8rem]">
+          {activeAnchor && filter?.maxMinutes !== undefined
+            ? t("commute.badge", {
+                time: formatMinutes(filter.maxMinutes),
+                anchor: activeAnchor.name,
+              })
+            : t("commute.button")}
+        </span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-3 w-80 bg-white/95 dark:bg-slate-800/95 backdrop-blur-xl rounded-2xl shadow-[0_20px_40px_rgba(0,0,0,0.2)] border border-slate-200/50 dark:border-slate-700/50 p-4 z-50 animate-in fade-in zoom-in-95 duration-200 origin-top-right space-y-4">
+          <div className="space-y-2">
+            <p className="text-[10px] text-slate-400 dark:text-slate-500 uppercase font-bold tracking-widest">
+              {t("commute.myPlaces")}
+            </p>
+            {anchors.length === 0 && (
+              <p className="text-xs text-slate-500 dark:text-slate-400">
+                {t("commute.empty")}
+              </p>
+            )}
+            {anchors.map((anchor) => (
+              <div
+                key={anchor.id}
+                className="flex items-center justify-between gap-2 px-3 py-2 rounded-lg bg-slate-50 dark:bg-slate-900"
+              >
+                <div className="flex flex-col min-w-0">
+                  <span className="text-sm font-bold text-slate-800 dark:text-slate-100 truncate">
+                    {anchor.name}
+                  </span>
+                  <span className="text-[10px] text-slate-400 truncate">
+                    {anchor.address}
+                  </span>
+                </div>
+                <button
+                  onClick={() => removeAnchor(anchor.id)}
+                  className="shrink-0 text-slate-400 hover:text-red-500 text-sm"
+                  title={t("common.remove")}
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+            <div className="grid grid-cols-3 gap-1.5">
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder={t("commute.namePlaceholder")}
+                className={inputClasses}
+              />
+              <input
+                type="text"
+                value={address}
+                onChange={(e) => setAddress(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && addAnchor()}
+                placeholder={t("commute.addressPlaceholder")}
+                className={`${inputClasses} col-span-2`}
+              />
+            </div>
+            <button
+              onClick={addAnchor}
+              disabled={!name.trim() || !address.trim()}
+              className="w-full py-2 rounded-lg text-xs font-bold bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-200 hover:bg-slate-200 dark:hover:bg-slate-600 disabled:opacity-50 transition-colors"
+            >
+              {t("commute.add")}
+            </button>
+          </div>
+
+          {editableFilter && (
+            <div className="space-y-2 pt-3 border-t border-slate-100 dark:border-slate-700">
+              <p className="text-[10px] text-slate-400 dark:text-slate-500 uppercase font-bold tracking-widest">
+                {t("commute.filter")}
+              </p>
+              <div className="grid grid-cols-2 gap-1.5">
+                <select
+                  value={editableFilter.anchorId}
+                  onChange={(e) =>
+                    onChangeFilter({
+                      ...editableFilter,
+                      anchorId: e.target.value,
+                    })
+                  }
+                  className={inputClasses}
+                >
+                  {anchors.map((anchor) => (
+                    <option key={anchor.id} value={anchor.id}>
+                      {anchor.name}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={editableFilter.mode}
+                  onChange={(e) =>
+                    onChangeFilter({
+                      ...editableFilter,
+                      mode: e.target.value as TravelMode,
+                    })
+                  }
+                  className={inputClasses}
+                >
+                  {(Object.keys(TRAVEL_MODE_LABELS) as TravelMode[]).map(
+                    (mode) => (
+                      <option key={mode} value={mode}>
+                        {travelModeLabel(mode)}
+                      </option>
+                    ),
+                  )}
+                </select>
+              </div>
+              <input
+                type="number"
+                min={1}
+                value={editableFilter.maxMinutes ?? ""}
+                onChange={(e) =>
+                  onChangeFilter({
+                    ...editableFilter,
+                    maxMinutes:
+                      e.target.value === ""
+                        ? undefined
+                        : Math.max(1, Number(e.target.value)),
+                  })
+                }
+                placeholder={t("commute.maxMinutes")}
+                className={inputClasses}
+              />
+              <label className="flex items-center gap-2 text-xs font-medium text-slate-600 dark:text-slate-300">
+                <input
+                  type="checkbox"
+                  checked={editableFilter.sortByCommute}
+                  onChange={(e) =>
+                    onChangeFilter({
+                      ...editableFilter,
+                      sortByCommute: e.target.checked,
+                    })
+                  }
+                  className="accent-indigo-600"
+                />
+                {t("commute.sort")}
+              </label>
+              <button
+                onClick={onEstimate}
+                disabled={isEstimating}
+                className="w-full py-2 rounded-lg text-xs font-bold bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 text-white transition-colors"
+              >
+                {isEstimating ? t("commute.estimating") : t("commute.estimate")}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CommuteControl;
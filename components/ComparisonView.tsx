@@ -0,0 +1,223 @@
+import React, { useState } from "react";
+import ReactMarkdown from "react-markdown";
+import { ListingField, PlaceData, SearchCriteria } from "../types";
+import { MessageKey } from "../services/translations";
+import { ConciergeProvider } from "../services/concierge";
+import { formatPriceRange } from "../services/searchCriteria";
+import { formatMinutes, formatNumber, t } from "../services/i18n";
+import { placeKey } from "../services/shortlistStore";
+import { isWebUrl } from "../services/placeReferences";
+
+interface ComparisonViewProps {
+  provider: ConciergeProvider;
+  places: PlaceData[];
+  criteria?: SearchCriteria;
+  model?: string; // The current session's
+  onRemovePlace: (place: PlaceData) => void;
+  onClose: () => void;
+}
+
+const estimateMark = (place: PlaceData, field: ListingField) =>
+  place.estimatedFields?.includes(field) ? ` (${t("place.est")})` : "";
+
+const ROWS: {
+  label: MessageKey;
+  render: (place: PlaceData) => React.ReactNode;
+}[] = [
+  { label: "compare.address", render: (p) => p.address || "—" },
+  {
+    label: "compare.price",
+    render: (p) =>
+      p.priceRange
+        ? `${formatPriceRange(p.priceRange)}${estimateMark(p, "priceRange")}`
+        : "—",
+  },
+  {
+    label: "compare.transit",
+    render: (p) =>
+      p.nearestTransit
+        ? `${p.nearestTransit.station}${p.nearestTransit.walkingMinutes !== undefined ? ` · ${t("place.walk", { time: formatMinutes(p.nearestTransit.walkingMinutes) })}` : ""}${estimateMark(p, "nearestTransit")}`
+        : "—",
+  },
+  {
+    label: "compare.rating",
+    render: (p) =>
+      p.rating !== undefined
+        ? `★ ${p.rating.toFixed(1)}${p.reviewCount !== undefined ? ` (${formatNumber(p.reviewCount)})` : ""}${estimateMark(p, "rating")}`
+        : "—",
+  },
+  {
+    label: "compare.unitTypes",
+    render: (p) => (p.unitTypes?.length ? p.unitTypes.join(", ") : "—"),
+  },
+  {
+    label: "compare.amenities",
+    render: (p) => (p.amenities?.length ? p.amenities.join(", ") : "—"),
+  },
+  {
+    label: "compare.reviews",
+    render: (p) =>
+      p.description ? <span className="italic">"{p.description}"</span> : "—",
+  },
+];
+
+const ComparisonView: React.FC<ComparisonViewProps> = ({
+  provider,
+  places,
+  criteria,
+  model,
+  onRemovePlace,
+  onClose,
+}) => {
+  const [verdict, setVerdict] = useState<string | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+
+  const handleAskRoyce = async () => {
+    setIsComparing(true);
+    try {
+      setVerdict(await provider.comparePlaces(places, criteria, model));
+    } catch (error) {
+      console.error("Comparison failed", error);
+      setVerdict(t("compare.failed"));
+    } finally {
+      setIsComparing(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-2 md:p-6">
+      <div
+        className="absolute inset-0 bg-black/50 backdrop-blur-sm animate-in fade-in duration-300"
+        onClick={onClose}
+      />
+      <div className="relative w-full max-w-6xl max-h-full flex flex-col bg-white dark:bg-slate-900 rounded-2xl shadow-2xl border border-slate-200 dark:border-slate-700 overflow-hidden animate-in fade-in zoom-in-95 duration-200">
+        <div className="flex items-center justify-between px-5 py-4 border-b border-slate-200 dark:border-slate-800 shrink-0">
+          <h2 className="text-lg font-black text-slate-900 dark:text-white tracking-tight">
+            {t("compare.title", { count: places.length })}
+          </h2>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={handleAskRoyce}
+              disabled={isComparing || places.length < 2}
+              className="px-4 py-2 rounded-xl bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 text-white text-xs font-bold transition-colors"
+            >
+              {isComparing ? t("compare.comparing") : t("compare.ask")}
+            </button>
+            <button
+              onClick={onClose}
+              className="p-2 rounded-lg text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors"
+              title={t("common.close")}
+            >
+              <svg
+                width="18"
+                height="18"
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2.5"
+              >
+                <line x1="18" y1="6" x2="6" y2="18"></line>
+                <line x1="6" y1="6" x2="18" y2="18"></line>
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        <div className="flex flex-col lg:flex-row min-h-0 overflow-y-auto lg:overflow-hidden">
+          <div className="flex-1 overflow-auto p-4">
+            <table className="w-full text-sm border-collapse">
+              <thead>
+                <tr>
+                  <th className="w-28"></th>
+                  {places.map((place) => (
+                    <th
+                      key={placeKey(place)}
+                      className="text-left align-top p-2 min-w-[160px]"
+                    >
+                      <div className="flex items-start justify-between gap-2">
+                        <a
+                          href={isWebUrl(place.uri) ? place.uri : undefined}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="font-bold text-slate-900 dark:text-white hover:text-indigo-600 dark:hover:text-indigo-300"
+                        >
+                          {place.title}
+                        </a>
+                        <button
+                          onClick={() => onRemovePlace(place)}
+                          className="text-slate-400 hover:text-red-500 text-xs"
+                          title={t("place.removeCompare")}
+                        >
+                          ×
+                        </button>
+                      </div>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {ROWS.map((row) => (
+                  <tr
+                    key={row.label}
+                    className="border-t border-slate-100 dark:border-slate-800"
+                  >
+                    <th className="text-left align-top p-2 text-[10px] uppercase tracking-widest font-bold text-slate-400">
+                      {t(row.label)}
+                    </th>
+                    {places.map((place) => (
+                      <td
+                        key={placeKey(place)}
+                        className="align-top p-2 text-slate-700 dark:text-slate-300"
+                      >
+                        {row.render(place)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {(verdict || isComparing) && (
+            <div className="lg:w-96 shrink-0 border-t lg:border-t-0 lg:border-l border-slate-200 dark:border-slate-800 p-5 overflow-y-auto bg-slate-50 dark:bg-slate-800/50">
+              <p className="text-[10px] uppercase tracking-widest font-bold text-slate-400 mb-3">
+                {t("compare.verdict")}
+              </p>
+              {isComparing ? (
+                <p className="text-sm text-indigo-500 animate-pulse">
+                  {t("chat.scouting")}
+                </p>
+              ) : (
+                <div className="text-sm leading-relaxed text-slate-700 dark:text-slate-200">
+                  <ReactMarkdown
+                    components={{
+                      p: ({ node, ...props }) => (
+                        <p {...props} className="mb-2 last:mb-0" />
+                      ),
+                      ul: ({ node, ...props }) => (
+                        <ul
+                          {...props}
+                          className="list-disc pl-5 space-y-1 mb-2"
+                        />
+                      ),
+                      strong: ({ node, ...props }) => (
+                        <strong
+                          {...props}
+                          className="font-bold text-slate-900 dark:text-white"
+                        />
+                      ),
+                    }}
+                  >
+                    {verdict || ""}
+                  </ReactMarkdown>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ComparisonView;
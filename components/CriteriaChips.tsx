@@ -0,0 +1,289 @@
+import React, { useEffect, useRef, useState } from "react";
+import { SearchCriteria } from "../types";
+import {
+  CriteriaField,
+  PROPERTY_TYPES,
+  criteriaChipLabels,
+  propertyTypeLabel,
+  withoutField,
+} from "../services/searchCriteria";
+import { t } from "../services/i18n";
+import { MessageKey } from "../services/translations";
+
+interface CriteriaChipsProps {
+  criteria: SearchCriteria;
+  disabled?: boolean;
+  onChange: (criteria: SearchCriteria) => void;
+}
+
+const FIELD_LABELS: Record<CriteriaField, MessageKey> = {
+  budget: "criteria.field.budget",
+  bedrooms: "criteria.field.bedrooms",
+  propertyType: "criteria.field.propertyType",
+  maxTransitDistanceMeters: "criteria.field.transit",
+  petsAllowed: "criteria.field.pets",
+  furnished: "criteria.field.furnished",
+};
+
+const fieldLabel = (field: CriteriaField) => t(FIELD_LABELS[field]);
+
+const ALL_FIELDS = Object.keys(FIELD_LABELS) as CriteriaField[];
+
+const inputClasses =
+  "w-full bg-slate-100 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg px-2.5 py-1.5 text-sm text-slate-800 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-indigo-500/30";
+
+const optionClasses = (active: boolean) =>
+  `flex-1 py-1.5 rounded-lg text-xs font-bold transition-colors ${active ? "bg-indigo-600 text-white" : "bg-slate-100 dark:bg-slate-900 text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700"}`;
+
+interface FieldEditorProps {
+  field: CriteriaField;
+  criteria: SearchCriteria;
+  onApply: (criteria: SearchCriteria) => void;
+}
+
+// Popover body for a single field; number fields keep a local draft until applied
+const FieldEditor: React.FC<FieldEditorProps> = ({
+  field,
+  criteria,
+  onApply,
+}) => {
+  const [min, setMin] = useState(criteria.budget?.min?.toString() || "");
+  const [max, setMax] = useState(criteria.budget?.max?.toString() || "");
+  const [currency, setCurrency] = useState(criteria.budget?.currency || "THB");
+  const [amount, setAmount] = useState(
+    field === "bedrooms"
+      ? (criteria.bedrooms?.toString() ?? "")
+      : (criteria.maxTransitDistanceMeters?.toString() ?? ""),
+  );
+
+  const toNumber = (value: string) =>
+    value.trim() === "" || isNaN(Number(value)) ? undefined : Number(value);
+
+  if (field === "propertyType") {
+    return (
+      <div className="flex gap-1">
+        {PROPERTY_TYPES.map((type) => (
+          <button
+            key={type}
+            onClick={() => onApply({ ...criteria, propertyType: type })}
+            className={optionClasses(criteria.propertyType === type)}
+          >
+            {propertyTypeLabel(type)}
+          </button>
+        ))}
+      </div>
+    );
+  }
+
+  if (field === "petsAllowed" || field === "furnished") {
+    const labels =
+      field === "petsAllowed"
+        ? [t("criteria.pets"), t("criteria.noPets")]
+        : [t("criteria.furnished"), t("criteria.unfurnished")];
+    return (
+      <div className="flex gap-1">
+        {[true, false].map((value, idx) => (
+          <button
+            key={labels[idx]}
+            onClick={() => onApply({ ...criteria, [field]: value })}
+            className={optionClasses(criteria[field] === value)}
+          >
+            {labels[idx]}
+          </button>
+        ))}
+      </div>
+    );
+  }
+
+  const applyDraft = () => {
+    if (field === "budget") {
+      const budgetMin = toNumber(min);
+      const budgetMax = toNumber(max);
+      if (budgetMin === undefined && budgetMax === undefined) return;
+      onApply({
+        ...criteria,
+        budget: {
+          min: budgetMin,
+          max: budgetMax,
+          currency: currency.trim().toUpperCase() || "THB",
+        },
+      });
+    } else {
+      const value = toNumber(amount);
+      if (value === undefined || value < 0) return;
+      onApply({ ...criteria, [field]: Math.round(value) });
+    }
+  };
+
+  return (
+    <form
+      className="space-y-2"
+      onSubmit={(e) => {
+        e.preventDefault();
+        applyDraft();
+      }}
+    >
+      {field === "budget" ? (
+        <div className="grid grid-cols-3 gap-1.5">
+          <input
+            type="number"
+            value={min}
+            onChange={(e) => setMin(e.target.value)}
+            placeholder={t("criteria.min")}
+            className={inputClasses}
+          />
+          <input
+            type="number"
+            value={max}
+            onChange={(e) => setMax(e.target.value)}
+            placeholder={t("criteria.max")}
+            className={inputClasses}
+          />
+          <input
+            type="text"
+            value={currency}
+            onChange={(e) => setCurrency(e.target.value)}
+            maxLength={3}
+            className={`${inputClasses} uppercase`}
+          />
+        </div>
+      ) : (
+        <input
+          type="number"
+          min={0}
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+          placeholder={
+            field === "bedrooms"
+              ? t("criteria.bedroomsHint")
+              : t("criteria.meters")
+          }
+          className={inputClasses}
+          autoFocus
+        />
+      )}
+      <button
+        type="submit"
+        className="w-full py-1.5 rounded-lg text-xs font-bold bg-indigo-600 hover:bg-indigo-700 text-white transition-colors"
+      >
+        {t("common.apply")}
+      </button>
+    </form>
+  );
+};
+
+const CriteriaChips: React.FC<CriteriaChipsProps> = ({
+  criteria,
+  disabled,
+  onChange,
+}) => {
+  const [editingField, setEditingField] = useState<CriteriaField | null>(null);
+  const [isAddOpen, setIsAddOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (
+        containerRef.current &&
+        !containerRef.current.contains(event.target as Node)
+      ) {
+        setEditingField(null);
+        setIsAddOpen(false);
+      }
+    };
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, []);
+
+  const chips = criteriaChipLabels(criteria);
+  const unsetFields = ALL_FIELDS.filter(
+    (field) => !chips.some((chip) => chip.field === field),
+  );
+
+  const apply = (next: SearchCriteria) => {
+    setEditingField(null);
+    onChange(next);
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className="relative flex flex-wrap items-center gap-1.5 mb-3 px-1"
+    >
+      {chips.map((chip) => (
+        <div
+          key={chip.field}
+          className={`flex items-center rounded-full border text-[11px] font-bold transition-colors ${editingField === chip.field ? "bg-indigo-600 border-indigo-600 text-white" : "bg-indigo-50 dark:bg-indigo-900/30 border-indigo-100 dark:border-indigo-800 text-indigo-700 dark:text-indigo-300"}`}
+        >
+          <button
+            disabled={disabled}
+            onClick={() => {
+              setIsAddOpen(false);
+              setEditingField(editingField === chip.field ? null : chip.field);
+            }}
+            className="pl-3 pr-1.5 py-1 disabled:opacity-60"
+            title={t("criteria.edit", { field: fieldLabel(chip.field) })}
+          >
+            {chip.label}
+          </button>
+          <button
+            disabled={disabled}
+            onClick={() => apply(withoutField(criteria, chip.field))}
+            className="pr-2.5 pl-0.5 py-1 opacity-60 hover:opacity-100 disabled:opacity-30"
+            title={t("common.remove")}
+          >
+            ×
+          </button>
+        </div>
+      ))}
+
+      {unsetFields.length > 0 && (
+        <button
+          disabled={disabled}
+          onClick={() => {
+            setEditingField(null);
+            setIsAddOpen(!isAddOpen);
+          }}
+          className="px-3 py-1 rounded-full border border-dashed border-slate-300 dark:border-slate-600 text-[11px] font-bold text-slate-500 dark:text-slate-400 hover:border-indigo-400 hover:text-indigo-600 dark:hover:text-indigo-300 transition-colors disabled:opacity-50"
+        >
+          {t("criteria.addFilter")}
+        </button>
+      )}
+
+      {(editingField || isAddOpen) && (
+        <div className="absolute bottom-full left-0 mb-2 w-72 bg-white/95 dark:bg-slate-800/95 backdrop-blur-xl rounded-2xl shadow-[0_20px_40px_rgba(0,0,0,0.2)] border border-slate-200/50 dark:border-slate-700/50 p-3 z-50 animate-in fade-in zoom-in-95 duration-200 origin-bottom-left space-y-2">
+          {editingField ? (
+            <>
+              <p className="text-[10px] text-slate-400 dark:text-slate-500 uppercase font-bold tracking-widest">
+                {fieldLabel(editingField)}
+              </p>
+              <FieldEditor
+                key={editingField}
+                field={editingField}
+                criteria={criteria}
+                onApply={apply}
+              />
+            </>
+          ) : (
+            <div className="flex flex-col">
+              {unsetFields.map((field) => (
+                <button
+                  key={field}
+                  onClick={() => {
+                    setIsAddOpen(false);
+                    setEditingField(field);
+                  }}
+                  className="text-left px-3 py-2 text-sm font-medium text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors"
+                >
+                  {fieldLabel(field)}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CriteriaChips;
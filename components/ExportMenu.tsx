@@ -0,0 +1,106 @@
+import React, { useEffect, useRef, useState } from "react";
+import {
+  EXPORT_FORMATS,
+  ExportFormat,
+  exportFormatLabel,
+} from "../services/reportExport";
+import { t } from "../services/i18n";
+
+interface ExportMenuProps {
+  label?: string;
+  title: string;
+  disabled?: boolean;
+  compact?: boolean; // Icon-only trigger, for the header
+  opensUpward?: boolean; // For triggers near the bottom of the screen
+  onExport: (format: ExportFormat) => Promise<void>;
+}
+
+const ExportMenu: React.FC<ExportMenuProps> = ({
+  label = t("export.button"),
+  title,
+  disabled,
+  compact,
+  opensUpward,
+  onExport,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [busyFormat, setBusyFormat] = useState<ExportFormat | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (
+        containerRef.current &&
+        !containerRef.current.contains(event.target as Node)
+      ) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, []);
+
+  const handleExport = async (format: ExportFormat) => {
+    setBusyFormat(format);
+    try {
+      await onExport(format);
+      setIsOpen(false);
+    } catch (error) {
+      console.error("Export failed", error);
+    } finally {
+      setBusyFormat(null);
+    }
+  };
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        className={
+          compact
+            ? "p-2.5 rounded-full text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800 disabled:opacity-40 transition-all"
+            : "px-3 py-1.5 rounded-lg text-xs font-bold text-slate-600 dark:text-slate-300 hover:bg-white/60 dark:hover:bg-slate-800 disabled:opacity-50 transition-colors"
+        }
+        title={title}
+      >
+        {compact ? (
+          <svg
+            width="20"
+            height="20"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="2.5"
+          >
+            <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"></path>
+            <polyline points="7 10 12 15 17 10"></polyline>
+            <line x1="12" y1="15" x2="12" y2="3"></line>
+          </svg>
+        ) : (
+          label
+        )}
+      </button>
+      {isOpen && (
+        <div
+          className={`absolute right-0 ${opensUpward ? "bottom-full mb-3 origin-bottom-right" : "mt-3 origin-top-right"} w-60 bg-white/95 dark:bg-slate-800/95 backdrop-blur-xl rounded-2xl shadow-[0_20px_40px_rgba(0,0,0,0.2)] border border-slate-200/50 dark:border-slate-700/50 p-2 z-50 animate-in fade-in zoom-in-95 duration-200`}
+        >
+          {EXPORT_FORMATS.map((format) => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              disabled={busyFormat !== null}
+              className="w-full text-left px-3 py-2 rounded-xl text-sm text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700 disabled:opacity-50 transition-colors"
+            >
+              {busyFormat === format
+                ? t("export.preparing")
+                : exportFormatLabel(format)}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,32 @@
+import React from "react";
+import { Locale } from "../types";
+import { LOCALES, t } from "../services/i18n";
+
+interface LanguagePickerProps {
+  value: Locale;
+  onChange: (locale: Locale) => void;
+  className?: string;
+}
+
+// UI language, which is also the language Royce replies in. Each language is
+// listed under its own name so it can be found without reading the current one.
+const LanguagePicker: React.FC<LanguagePickerProps> = ({
+  value,
+  onChange,
+  className = "",
+}) => (
+  <select
+    value={value}
+    onChange={(e) => onChange(e.target.value as Locale)}
+    className={`px-3 py-2 rounded-full text-xs font-bold bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700 border-none focus:outline-none focus:ring-2 focus:ring-indigo-500/30 transition-colors cursor-pointer ${className}`}
+    title={t("menu.language")}
+  >
+    {(Object.keys(LOCALES) as Locale[]).map((locale) => (
+      <option key={locale} value={locale}>
+        {LOCALES[locale].label}
+      </option>
+    ))}
+  </select>
+);
+
+export default LanguagePicker;
@@ -0,0 +1,38 @@
+import React from "react";
+import { ConciergeModel } from "../services/conciergeModels";
+import { t } from "../services/i18n";
+
+interface ModelPickerProps {
+  models: ConciergeModel[];
+  value: string;
+  disabled?: boolean;
+  onChange: (model: string) => void;
+}
+
+// Per-session model choice; hidden when the provider only offers one model
+const ModelPicker: React.FC<ModelPickerProps> = ({
+  models,
+  value,
+  disabled,
+  onChange,
+}) => {
+  if (models.length < 2) return null;
+
+  return (
+    <select
+      value={value}
+      disabled={disabled}
+      onChange={(e) => onChange(e.target.value)}
+      className="hidden md:block px-3 py-2 rounded-full text-xs font-bold bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700 border-none focus:outline-none focus:ring-2 focus:ring-indigo-500/30 disabled:opacity-50 transition-colors cursor-pointer"
+      title={t("model.title")}
+    >
+      {models.map((model) => (
+        <option key={model.id} value={model.id}>
+          {model.label}
+        </option>
+      ))}
+    </select>
+  );
+};
+
+export default ModelPicker;
@@ -1,12 +1,72 @@
-import React, { useState } from 'react';
-import { PlaceData } from '../types';
+import React, { useEffect, useState } from 'react';
+import { Anchor, ListingField, PlaceData, TravelMode } from '../types';
+import { formatPriceRange } from '../services/searchCriteria';
+import { placeKey } from '../services/shortlistStore';
+import { isWebUrl } from '../services/placeReferences';
+import { commuteMinutes, travelModeLabel } from '../services/commute';
+import { getCachedThumbnail, saveThumbnail } from '../services/placeThumbnails';
+import { formatMinutes, formatNumber, t } from '../services/i18n';
 
 interface PlaceCardProps {
   place: PlaceData;
+  isSaved?: boolean;
+  onToggleSave?: () => void;
+  isCompared?: boolean;
+  onToggleCompare?: () => void;
+  pinNumber?: number; // Its number in the session, as on the map and in "#n" references
+  isHovered?: boolean;
+  onHoverChange?: (hovered: boolean) => void;
+  anchors?: Anchor[];
+  commuteMode?: TravelMode;
+  onAsk?: () => void;
+  onOpen?: () => void; // Clicking the card opens Royce's deep-dive
+  isOffline?: boolean; // Shows the saved thumbnail instead of the live map
 }
 
-const PlaceCard: React.FC<PlaceCardProps> = ({ place }) => {
+interface BadgeProps {
+  estimated?: boolean;
+  children: React.ReactNode;
+}
+
+// Small pill for a listing field; estimated values get a dashed border and "est." marker
+const Badge: React.FC<BadgeProps> = ({ estimated, children }) => (
+  <span
+    className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-md text-[11px] font-semibold border
+      ${estimated ? 'border-dashed border-amber-300 dark:border-amber-700 bg-amber-50 dark:bg-amber-900/20 text-amber-800 dark:text-amber-300' : 'border-slate-200 dark:border-slate-600 bg-slate-50 dark:bg-slate-700 text-slate-700 dark:text-slate-200'}`}
+    title={estimated ? t('place.estimated') : undefined}
+  >
+    {children}
+    {estimated && <span className="text-[9px] uppercase tracking-wider opacity-70">{t('place.est')}</span>}
+  </span>
+);
+
+const PlaceCard: React.FC<PlaceCardProps> = ({ place, isSaved, onToggleSave, isCompared, onToggleCompare, pinNumber, isHovered, onHoverChange, anchors = [], commuteMode = 'transit', onAsk, onOpen, isOffline }) => {
   const [isMapLoaded, setIsMapLoaded] = useState(false);
+  const [thumbnailUrl, setThumbnailUrl] = useState<string | null>(null);
+  const key = placeKey(place);
+
+  // Online, keep a static copy of the map for later; offline, show that copy
+  useEffect(() => {
+    if (!isOffline) {
+      saveThumbnail(place);
+      return;
+    }
+    let url: string | null = null;
+    let isCurrent = true;
+    getCachedThumbnail(place).then(cached => {
+      if (!isCurrent) {
+        if (cached) URL.revokeObjectURL(cached);
+        return;
+      }
+      url = cached;
+      setThumbnailUrl(cached);
+    });
+    return () => {
+      isCurrent = false;
+      if (url) URL.revokeObjectURL(url);
+      setThumbnailUrl(null);
+    };
+  }, [isOffline, key]);
 
   // Construct query for the map
   // Use address if available for better precision, otherwise title
@@ -16,9 +76,17 @@ const PlaceCard: React.FC<PlaceCardProps> = ({ place }) => {
   // t=h (Hybrid: Satellite + Labels), z=17 (Zoom level for building view)
   const mapEmbedUrl = `https://maps.google.com/maps?q=${query}&t=h&z=17&ie=UTF8&iwloc=&output=embed`;
 
+  const isEstimated = (field: ListingField) => !!place.estimatedFields?.includes(field);
+  const visibleAmenities = place.amenities?.slice(0, 4) || [];
+  const hiddenAmenityCount = (place.amenities?.length || 0) - visibleAmenities.length;
+  const commutes = anchors
+    .map(anchor => ({ anchor, minutes: commuteMinutes(place, anchor.id, commuteMode) }))
+    .filter((c): c is { anchor: Anchor; minutes: number } => c.minutes !== undefined);
+  const hasListing = !!(place.priceRange || place.rating !== undefined || place.nearestTransit || place.unitTypes?.length || place.amenities?.length || commutes.length);
+
   const handleMapClick = (e: React.MouseEvent) => {
     e.stopPropagation();
-    if (place.uri) {
+    if (place.uri && isWebUrl(place.uri)) {
       window.open(place.uri, '_blank');
     }
   };
@@ -31,11 +99,27 @@ const PlaceCard: React.FC<PlaceCardProps> = ({ place }) => {
   };
 
   return (
-    <div className="group relative flex flex-col min-w-[300px] max-w-[320px] bg-white dark:bg-slate-800 rounded-xl shadow-md border border-slate-200 dark:border-slate-700 hover:shadow-xl transition-all duration-300 overflow-hidden shrink-0 snap-center">
+    <div
+      data-place-key={key}
+      onMouseEnter={() => onHoverChange?.(true)}
+      onMouseLeave={() => onHoverChange?.(false)}
+      onClick={onOpen}
+      className={`group relative flex flex-col ${onOpen ? 'cursor-pointer' : ''} min-w-[300px] max-w-[320px] bg-white dark:bg-slate-800 rounded-xl shadow-md border hover:shadow-xl transition-all duration-300 overflow-hidden shrink-0 snap-center
+        ${isHovered ? 'border-amber-400 ring-2 ring-amber-400/60' : 'border-slate-200 dark:border-slate-700'}`}
+    >
       
       {/* Visual Section: Satellite Map Embed */}
       <div className="relative h-48 bg-slate-100 dark:bg-slate-900 overflow-hidden">
         
+        {isOffline ? (
+          thumbnailUrl ? (
+            <img src={thumbnailUrl} alt={t('place.mapOf', { title: place.title })} className="w-full h-full object-cover" />
+          ) : (
+            <div className="absolute inset-0 flex items-center justify-center bg-slate-100 dark:bg-slate-800 text-[11px] font-semibold text-slate-400 dark:text-slate-500">
+              {t('place.offlineMap')}
+            </div>
+          )
+        ) : (<>
         {/* Loading Skeleton */}
         {!isMapLoaded && (
           <div className="absolute inset-0 flex items-center justify-center bg-slate-100 dark:bg-slate-800 animate-pulse">
@@ -59,18 +143,48 @@ const PlaceCard: React.FC<PlaceCardProps> = ({ place }) => {
           className={`w-full h-full object-cover transition-opacity duration-500 ${isMapLoaded ? 'opacity-100' : 'opacity-0'}`}
           style={{ pointerEvents: 'none' }} // Disable interaction within the tile to keep it scrollable/clickable as a card
         />
+        </>)}
 
         {/* Overlay Gradient for Text Readability */}
         <div className="absolute inset-0 bg-gradient-to-t from-slate-900/90 via-slate-900/20 to-transparent pointer-events-none"></div>
 
+        {/* Save to Shortlist */}
+        {onToggleSave && (
+          <button
+            onClick={(e) => { e.stopPropagation(); onToggleSave(); }}
+            className={`absolute top-3 left-3 z-10 p-1.5 rounded-lg backdrop-blur-md border shadow-sm transition-colors
+              ${isSaved ? 'bg-amber-400 border-amber-300 text-slate-900' : 'bg-black/60 border-white/10 text-white hover:bg-black/80'}`}
+            title={t(isSaved ? 'place.unsave' : 'place.save')}
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill={isSaved ? 'currentColor' : 'none'} stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M19 21l-7-5-7 5V5a2 2 0 0 1 2-2h10a2 2 0 0 1 2 2z"></path></svg>
+          </button>
+        )}
+
+        {/* Select for Comparison */}
+        {onToggleCompare && (
+          <button
+            onClick={(e) => { e.stopPropagation(); onToggleCompare(); }}
+            className={`absolute top-3 ${onToggleSave ? 'left-12' : 'left-3'} z-10 px-2 py-1 rounded-lg backdrop-blur-md border shadow-sm text-[10px] font-bold uppercase tracking-wider transition-colors
+              ${isCompared ? 'bg-indigo-600 border-indigo-400 text-white' : 'bg-black/60 border-white/10 text-white hover:bg-black/80'}`}
+            title={t(isCompared ? 'place.removeCompare' : 'place.addCompare')}
+          >
+            {t(isCompared ? 'place.compared' : 'place.compare')}
+          </button>
+        )}
+
         {/* Badge */}
         <div className="absolute top-3 right-3 bg-black/60 backdrop-blur-md px-2 py-0.5 rounded text-[10px] font-bold text-white uppercase tracking-wider border border-white/10 shadow-sm z-10">
-          Satellite View
+          {t('place.satellite')}
         </div>
 
         {/* Title Overlay */}
         <div className="absolute bottom-0 left-0 right-0 p-4 text-white z-10 pointer-events-none">
-          <h3 className="font-bold text-lg leading-tight shadow-sm truncate">{place.title}</h3>
+          <h3 className="font-bold text-lg leading-tight shadow-sm truncate">
+            {pinNumber !== undefined && (
+              <span className={`inline-flex items-center justify-center w-6 h-6 mr-2 rounded-full text-xs font-black align-middle ${isHovered ? 'bg-amber-500' : 'bg-indigo-600'}`}>{pinNumber}</span>
+            )}
+            {place.title}
+          </h3>
           {place.address && (
              <p className="text-xs text-slate-300 truncate mt-0.5 font-medium">{place.address}</p>
           )}
@@ -79,13 +193,48 @@ const PlaceCard: React.FC<PlaceCardProps> = ({ place }) => {
       
       {/* Content Section */}
       <div className="p-4 flex flex-col grow bg-white dark:bg-slate-800 transition-colors duration-300">
+        {/* Listing Badges */}
+        {hasListing && (
+          <div className="flex flex-wrap gap-1.5 mb-3">
+            {place.priceRange && (
+              <Badge estimated={isEstimated('priceRange')}>
+                {formatPriceRange(place.priceRange)}
+              </Badge>
+            )}
+            {place.rating !== undefined && (
+              <Badge estimated={isEstimated('rating') || isEstimated('reviewCount')}>
+                ★ {place.rating.toFixed(1)}
+                {place.reviewCount !== undefined && <span className="opacity-60">({formatNumber(place.reviewCount)})</span>}
+              </Badge>
+            )}
+            {place.nearestTransit && (
+              <Badge estimated={isEstimated('nearestTransit')}>
+                {place.nearestTransit.station}
+                {place.nearestTransit.walkingMinutes !== undefined && ` · ${t('place.walk', { time: formatMinutes(place.nearestTransit.walkingMinutes) })}`}
+              </Badge>
+            )}
+            {commutes.map(({ anchor, minutes }) => (
+              <Badge key={anchor.id} estimated={isEstimated('commutes')}>
+                {t('place.commute', { mode: travelModeLabel(commuteMode), anchor: anchor.name, time: formatMinutes(minutes) })}
+              </Badge>
+            ))}
+            {place.unitTypes?.map(unit => (
+              <Badge key={unit} estimated={isEstimated('unitTypes')}>{unit}</Badge>
+            ))}
+            {visibleAmenities.map(amenity => (
+              <Badge key={amenity} estimated={isEstimated('amenities')}>{amenity}</Badge>
+            ))}
+            {hiddenAmenityCount > 0 && <Badge>+{hiddenAmenityCount}</Badge>}
+          </div>
+        )}
+
         <div className="mb-4 grow">
            {place.description ? (
             <p className="text-sm text-slate-600 dark:text-slate-300 line-clamp-3 leading-relaxed">
               "{place.description}"
             </p>
            ) : (
-             <p className="text-sm text-slate-400 dark:text-slate-500 italic">Explore this location for more details.</p>
+             <p className="text-sm text-slate-400 dark:text-slate-500 italic">{t('place.noDescription')}</p>
            )}
         </div>
         
@@ -94,19 +243,29 @@ const PlaceCard: React.FC<PlaceCardProps> = ({ place }) => {
             <button 
                 onClick={handleMapClick}
                 className="py-2.5 px-3 bg-slate-50 dark:bg-slate-700 hover:bg-slate-100 dark:hover:bg-slate-600 active:bg-slate-200 dark:active:bg-slate-500 text-slate-700 dark:text-slate-200 border border-slate-200 dark:border-slate-600 text-xs font-bold rounded-lg transition-colors flex items-center justify-center space-x-2"
-                title="Open in Google Maps"
+                title={t('place.directionsTitle')}
             >
                 <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><polygon points="3 11 22 2 13 21 11 13 3 11"></polygon></svg>
-                <span>Directions</span>
+                <span>{t('place.directions')}</span>
             </button>
             <button 
                 onClick={handleDetailsClick}
                 className="py-2.5 px-3 bg-blue-600 hover:bg-blue-700 active:bg-blue-800 text-white text-xs font-bold rounded-lg transition-colors flex items-center justify-center space-x-2 shadow-sm"
-                title="Search for agents and details"
+                title={t('place.detailsTitle')}
             >
                 <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><circle cx="12" cy="12" r="10"></circle><line x1="12" y1="16" x2="12" y2="12"></line><line x1="12" y1="8" x2="12.01" y2="8"></line></svg>
-                <span>Details / Agent</span>
+                <span>{t('place.details')}</span>
             </button>
+            {onAsk && (
+              <button
+                  onClick={(e) => { e.stopPropagation(); onAsk(); }}
+                  className="col-span-2 py-2 px-3 bg-indigo-50 dark:bg-indigo-900/30 hover:bg-indigo-100 dark:hover:bg-indigo-900/50 text-indigo-700 dark:text-indigo-300 border border-indigo-200 dark:border-indigo-800 text-xs font-bold rounded-lg transition-colors flex items-center justify-center space-x-2"
+                  title={pinNumber !== undefined ? t('place.askNumberTitle', { number: pinNumber }) : t('place.askTitle')}
+              >
+                  <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M21 15a2 2 0 0 1-2 2H7l-4 4V5a2 2 0 0 1 2-2h14a2 2 0 0 1 2 2z"></path></svg>
+                  <span>{t('place.ask')}</span>
+              </button>
+            )}
         </div>
       </div>
     </div>
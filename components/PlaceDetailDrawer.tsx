@@ -0,0 +1,310 @@
+import React, { useEffect, useRef, useState } from "react";
+import ReactMarkdown from "react-markdown";
+import { v4 as uuidv4 } from "uuid";
+import { Message, PlaceData, PlaceInsight, SearchCriteria } from "../types";
+import { ConciergeProvider } from "../services/concierge";
+import { loadPlaceInsight } from "../services/placeInsights";
+import {
+  conciergeErrorText,
+  toConciergeError,
+} from "../services/conciergeErrors";
+import { toPlaceSummary } from "../services/placeReferences";
+import { placeKey } from "../services/shortlistStore";
+import { t } from "../services/i18n";
+
+interface PlaceDetailDrawerProps {
+  provider: ConciergeProvider;
+  place: PlaceData;
+  pinNumber?: number;
+  criteria?: SearchCriteria;
+  model?: string; // The current session's
+  onAskInChat?: () => void;
+  onClose: () => void;
+}
+
+const InsightList: React.FC<{ title: string; items: string[] }> = ({
+  title,
+  items,
+}) =>
+  items.length > 0 ? (
+    <section>
+      <h3 className="text-[10px] uppercase tracking-widest font-bold text-slate-400 mb-1.5">
+        {title}
+      </h3>
+      <ul className="list-disc pl-5 space-y-1 text-sm text-slate-700 dark:text-slate-300">
+        {items.map((item) => (
+          <li key={item}>{item}</li>
+        ))}
+      </ul>
+    </section>
+  ) : null;
+
+const InsightText: React.FC<{ title: string; text?: string }> = ({
+  title,
+  text,
+}) =>
+  text ? (
+    <section>
+      <h3 className="text-[10px] uppercase tracking-widest font-bold text-slate-400 mb-1.5">
+        {title}
+      </h3>
+      <p className="text-sm text-slate-700 dark:text-slate-300 leading-relaxed">
+        {text}
+      </p>
+    </section>
+  ) : null;
+
+// Royce's deep-dive on one building, plus a side conversation about only that
+// building. The side conversation is its own provider session, seeded so the
+// building is "#1", and is dropped when the drawer closes.
+const PlaceDetailDrawer: React.FC<PlaceDetailDrawerProps> = ({
+  provider,
+  place,
+  pinNumber,
+  criteria,
+  model,
+  onAskInChat,
+  onClose,
+}) => {
+  const [insight, setInsight] = useState<PlaceInsight | null>(null);
+  const [insightError, setInsightError] = useState(false);
+  const [thread, setThread] = useState<Message[]>([]);
+  const [input, setInput] = useState("");
+  const [isReplying, setIsReplying] = useState(false);
+  const scopeIdRef = useRef(`place-${uuidv4()}`);
+  const controllerRef = useRef<AbortController | null>(null);
+  const threadEndRef = useRef<HTMLDivElement>(null);
+  const key = placeKey(place);
+
+  useEffect(() => {
+    let isCurrent = true;
+    setInsight(null);
+    setInsightError(false);
+    loadPlaceInsight(provider, place, criteria, model)
+      .then((result) => isCurrent && setInsight(result))
+      .catch((error) => {
+        console.error("Place insight failed", error);
+        if (isCurrent) setInsightError(true);
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, [provider, key, model]);
+
+  useEffect(() => {
+    const scopeId = scopeIdRef.current;
+    provider.resume(
+      scopeId,
+      [
+        {
+          id: uuidv4(),
+          role: "user",
+          text: `Let's talk only about ${place.title}.`,
+        },
+        {
+          id: uuidv4(),
+          role: "model",
+          text: `Of course. Everything that follows is about ${place.title}.`,
+          places: [place],
+        },
+      ],
+      model,
+    );
+    return () => {
+      controllerRef.current?.abort();
+      provider.end(scopeId);
+    };
+  }, [provider, key, model]);
+
+  useEffect(() => {
+    threadEndRef.current?.scrollIntoView({ behavior: "smooth" });
+  }, [thread]);
+
+  const handleAsk = async () => {
+    const text = input.trim();
+    if (!text || isReplying) return;
+    setInput("");
+    const replyId = uuidv4();
+    setThread((prev) => [
+      ...prev,
+      { id: uuidv4(), role: "user", text },
+      { id: replyId, role: "model", text: "", isThinking: true },
+    ]);
+    const updateReply = (patch: Partial<Message>) =>
+      setThread((prev) =>
+        prev.map((msg) => (msg.id === replyId ? { ...msg, ...patch } : msg)),
+      );
+
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setIsReplying(true);
+    try {
+      for await (const chunk of provider.stream(
+        scopeIdRef.current,
+        text,
+        { criteria, references: [toPlaceSummary({ key, number: 1, place })] },
+        controller.signal,
+      )) {
+        updateReply({ text: chunk.text, isThinking: false, isStreaming: true });
+      }
+      updateReply({ isThinking: false, isStreaming: false });
+    } catch (error) {
+      const { kind } = toConciergeError(error);
+      updateReply({
+        text: conciergeErrorText(kind),
+        error: kind,
+        isThinking: false,
+        isStreaming: false,
+      });
+    } finally {
+      setIsReplying(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end">
+      <div
+        className="absolute inset-0 bg-black/40 backdrop-blur-sm animate-in fade-in duration-300"
+        onClick={onClose}
+      />
+      <aside className="relative w-full max-w-md h-full flex flex-col bg-white dark:bg-slate-900 shadow-2xl border-l border-slate-200 dark:border-slate-700 animate-in slide-in-from-right duration-300">
+        <div className="flex items-start justify-between gap-3 px-5 py-4 border-b border-slate-200 dark:border-slate-800 shrink-0">
+          <div className="min-w-0">
+            <h2 className="text-lg font-black text-slate-900 dark:text-white tracking-tight leading-tight">
+              {pinNumber !== undefined && (
+                <span className="inline-flex items-center justify-center w-6 h-6 mr-2 rounded-full bg-indigo-600 text-white text-xs font-black align-middle">
+                  {pinNumber}
+                </span>
+              )}
+              {place.title}
+            </h2>
+            {place.address && (
+              <p className="text-xs text-slate-500 dark:text-slate-400 mt-1 truncate">
+                {place.address}
+              </p>
+            )}
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-lg text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors shrink-0"
+            title={t("common.close")}
+          >
+            <svg
+              width="18"
+              height="18"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="2.5"
+            >
+              <line x1="18" y1="6" x2="6" y2="18"></line>
+              <line x1="6" y1="6" x2="18" y2="18"></line>
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-5 py-4 space-y-5">
+          {insightError ? (
+            <p className="text-sm text-slate-500 dark:text-slate-400">
+              {t("detail.failed")}
+            </p>
+          ) : !insight ? (
+            <p className="text-sm text-indigo-500 animate-pulse">
+              {t("detail.researching")}
+            </p>
+          ) : (
+            <>
+              {insight.summary && (
+                <p className="text-sm text-slate-700 dark:text-slate-200 leading-relaxed">
+                  {insight.summary}
+                </p>
+              )}
+              <InsightList title={t("detail.pros")} items={insight.pros} />
+              <InsightList title={t("detail.cons")} items={insight.cons} />
+              <InsightText
+                title={t("detail.typicalRent")}
+                text={insight.typicalRent}
+              />
+              <InsightText
+                title={t("detail.neighbourhood")}
+                text={insight.neighbourhood}
+              />
+              <InsightList
+                title={t("detail.nearby")}
+                items={insight.nearbyAmenities}
+              />
+              <InsightList
+                title={t("detail.reviewThemes")}
+                items={insight.reviewThemes}
+              />
+              <p className="text-[10px] text-slate-400 dark:text-slate-500">
+                {t("place.estimated")}
+              </p>
+            </>
+          )}
+
+          {thread.length > 0 && (
+            <div className="pt-4 border-t border-slate-200 dark:border-slate-800 space-y-3">
+              {thread.map((msg) => (
+                <div
+                  key={msg.id}
+                  className={`px-3 py-2 rounded-xl text-sm leading-relaxed break-words ${
+                    msg.role === "user"
+                      ? "ml-8 bg-indigo-600 text-white"
+                      : "mr-8 bg-slate-100 dark:bg-slate-800 text-slate-800 dark:text-slate-200"
+                  }`}
+                >
+                  {msg.isThinking ? (
+                    <span className="text-[10px] font-semibold uppercase tracking-widest text-indigo-500 animate-pulse">
+                      {t("chat.scouting")}
+                    </span>
+                  ) : (
+                    <ReactMarkdown
+                      components={{
+                        p: ({ node, ...props }) => (
+                          <p {...props} className="mb-2 last:mb-0" />
+                        ),
+                      }}
+                    >
+                      {msg.text}
+                    </ReactMarkdown>
+                  )}
+                </div>
+              ))}
+              <div ref={threadEndRef} />
+            </div>
+          )}
+        </div>
+
+        <div className="px-5 py-4 border-t border-slate-200 dark:border-slate-800 shrink-0 space-y-2">
+          <div className="flex gap-2">
+            <input
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleAsk()}
+              placeholder={t("detail.askPlaceholder", { title: place.title })}
+              className="flex-1 min-w-0 px-3 py-2 rounded-xl bg-slate-100 dark:bg-slate-800 text-sm text-slate-800 dark:text-slate-100 placeholder-slate-400 outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+            <button
+              onClick={handleAsk}
+              disabled={!input.trim() || isReplying}
+              className="px-4 py-2 rounded-xl bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 text-white text-xs font-bold transition-colors"
+            >
+              {t("detail.ask")}
+            </button>
+          </div>
+          {onAskInChat && (
+            <button
+              onClick={onAskInChat}
+              className="text-xs font-semibold text-indigo-600 dark:text-indigo-400 hover:underline"
+            >
+              {t("detail.continueInChat")}
+            </button>
+          )}
+        </div>
+      </aside>
+    </div>
+  );
+};
+
+export default PlaceDetailDrawer;
@@ -0,0 +1,396 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { Location, PlaceData } from "../types";
+import {
+  MapProvider,
+  TILE_SIZE,
+  geocodeWithCache,
+  project,
+  unproject,
+} from "../services/mapProvider";
+import { t } from "../services/i18n";
+
+export interface MapPin {
+  key: string;
+  number: number;
+  place: PlaceData;
+}
+
+interface ResultsMapProps {
+  pins: MapPin[];
+  provider: MapProvider;
+  hoveredKey: string | null;
+  onHoverPin: (key: string | null) => void;
+  onSelectPin: (key: string) => void;
+  onClose: () => void;
+  searchPoint?: Location; // The pinned search area, if there is one
+  // While set, a click on the map places the search pin there
+  onPickLocation?: (location: Location) => void;
+  onCancelPick?: () => void;
+}
+
+interface Cluster {
+  x: number;
+  y: number;
+  pins: MapPin[];
+}
+
+// Pins closer than this (in screen pixels) are drawn as a single cluster
+const CLUSTER_RADIUS = 36;
+// A pointer that moved less than this (in screen pixels) clicked rather than dragged
+const CLICK_TOLERANCE = 5;
+const BANGKOK: Location = { latitude: 13.7563, longitude: 100.5018 };
+
+const ResultsMap: React.FC<ResultsMapProps> = ({
+  pins,
+  provider,
+  hoveredKey,
+  onHoverPin,
+  onSelectPin,
+  onClose,
+  searchPoint,
+  onPickLocation,
+  onCancelPick,
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ x: number; y: number; center: Location } | null>(
+    null,
+  );
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [isReady, setIsReady] = useState(false);
+  const [locations, setLocations] = useState<Record<string, Location | null>>(
+    {},
+  );
+  const [center, setCenter] = useState<Location>(searchPoint || BANGKOK);
+  const [zoom, setZoom] = useState(12);
+  const [hasInteracted, setHasInteracted] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    provider
+      .prepare()
+      .then(() => !cancelled && setIsReady(true))
+      .catch((e) => console.error("Map provider failed to start", e));
+    return () => {
+      cancelled = true;
+    };
+  }, [provider]);
+
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(([entry]) =>
+      setSize({
+        width: entry.contentRect.width,
+        height: entry.contentRect.height,
+      }),
+    );
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  // Streaming replies re-render often; only new places should restart geocoding
+  const pinKeys = pins.map((pin) => pin.key).join("|");
+
+  // Geocode pins we have not looked up yet, one at a time
+  useEffect(() => {
+    let cancelled = false;
+    const pending = pins.filter((pin) => !(pin.key in locations));
+    (async () => {
+      for (const pin of pending) {
+        const loc = await geocodeWithCache(provider, pin.place);
+        if (cancelled) return;
+        setLocations((prev) => ({ ...prev, [pin.key]: loc }));
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [pinKeys, provider]);
+
+  const located = useMemo(
+    () =>
+      pins
+        .map((pin) => ({ pin, loc: locations[pin.key] }))
+        .filter((p): p is { pin: MapPin; loc: Location } => !!p.loc),
+    [pinKeys, locations],
+  );
+
+  // Fit all pins until the user pans or zooms themselves
+  useEffect(() => {
+    if (hasInteracted || located.length === 0 || !size.width) return;
+    const lats = located.map((p) => p.loc.latitude);
+    const lngs = located.map((p) => p.loc.longitude);
+    const bounds = {
+      north: Math.max(...lats),
+      south: Math.min(...lats),
+      east: Math.max(...lngs),
+      west: Math.min(...lngs),
+    };
+    let fitZoom = Math.min(16, provider.maxZoom);
+    while (fitZoom > 3) {
+      const ne = project(
+        { latitude: bounds.north, longitude: bounds.east },
+        fitZoom,
+      );
+      const sw = project(
+        { latitude: bounds.south, longitude: bounds.west },
+        fitZoom,
+      );
+      if (ne.x - sw.x < size.width - 80 && sw.y - ne.y < size.height - 80)
+        break;
+      fitZoom--;
+    }
+    setZoom(fitZoom);
+    setCenter({
+      latitude: (bounds.north + bounds.south) / 2,
+      longitude: (bounds.east + bounds.west) / 2,
+    });
+  }, [located, size, hasInteracted]);
+
+  const origin = project(center, zoom);
+  const left = origin.x - size.width / 2;
+  const top = origin.y - size.height / 2;
+  const tileCount = Math.pow(2, zoom);
+
+  const tiles: { key: string; url: string; x: number; y: number }[] = [];
+  if (isReady && size.width) {
+    for (
+      let ty = Math.floor(top / TILE_SIZE);
+      ty <= Math.floor((top + size.height) / TILE_SIZE);
+      ty++
+    ) {
+      if (ty < 0 || ty >= tileCount) continue;
+      for (
+        let tx = Math.floor(left / TILE_SIZE);
+        tx <= Math.floor((left + size.width) / TILE_SIZE);
+        tx++
+      ) {
+        const wrappedX = ((tx % tileCount) + tileCount) % tileCount;
+        tiles.push({
+          key: `${zoom}/${tx}/${ty}`,
+          url: provider.tileUrl(wrappedX, ty, zoom),
+          x: tx * TILE_SIZE - left,
+          y: ty * TILE_SIZE - top,
+        });
+      }
+    }
+  }
+
+  const clusters: Cluster[] = [];
+  located.forEach(({ pin, loc }) => {
+    const p = project(loc, zoom);
+    const x = p.x - left;
+    const y = p.y - top;
+    const near = clusters.find(
+      (c) => Math.hypot(c.x - x, c.y - y) < CLUSTER_RADIUS,
+    );
+    if (near) near.pins.push(pin);
+    else clusters.push({ x, y, pins: [pin] });
+  });
+
+  const zoomTo = (nextZoom: number, focus?: Location) => {
+    setHasInteracted(true);
+    setZoom(Math.max(3, Math.min(provider.maxZoom, nextZoom)));
+    if (focus) setCenter(focus);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if ((e.target as HTMLElement).closest("button")) return;
+    dragRef.current = { x: e.clientX, y: e.clientY, center };
+    (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const start = project(drag.center, zoom);
+    setHasInteracted(true);
+    setCenter(
+      unproject(
+        start.x - (e.clientX - drag.x),
+        start.y - (e.clientY - drag.y),
+        zoom,
+      ),
+    );
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (!drag || !onPickLocation) return;
+    if (Math.hypot(e.clientX - drag.x, e.clientY - drag.y) > CLICK_TOLERANCE)
+      return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    onPickLocation(
+      unproject(left + e.clientX - rect.left, top + e.clientY - rect.top, zoom),
+    );
+  };
+
+  const searchPointPosition = searchPoint && project(searchPoint, zoom);
+
+  const pendingCount = pins.filter((pin) => !(pin.key in locations)).length;
+  const missingCount = pins.filter((pin) => locations[pin.key] === null).length;
+
+  return (
+    <div className="relative h-full w-full flex flex-col bg-slate-100 dark:bg-slate-800">
+      <div
+        ref={containerRef}
+        className={`relative flex-1 overflow-hidden touch-none select-none ${onPickLocation ? "cursor-crosshair" : "cursor-grab active:cursor-grabbing"}`}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={() => (dragRef.current = null)}
+        onWheel={(e) => zoomTo(zoom + (e.deltaY < 0 ? 1 : -1))}
+      >
+        {tiles.map((tile) => (
+          <img
+            key={tile.key}
+            src={tile.url}
+            alt=""
+            draggable={false}
+            className="absolute pointer-events-none"
+            style={{
+              left: tile.x,
+              top: tile.y,
+              width: TILE_SIZE,
+              height: TILE_SIZE,
+            }}
+          />
+        ))}
+
+        {clusters.map((cluster) => {
+          if (cluster.pins.length > 1) {
+            return (
+              <button
+                key={cluster.pins.map((p) => p.key).join(",")}
+                onClick={() =>
+                  zoomTo(
+                    zoom + 2,
+                    unproject(cluster.x + left, cluster.y + top, zoom),
+                  )
+                }
+                className={`absolute -translate-x-1/2 -translate-y-1/2 w-10 h-10 rounded-full border-4 border-white/80 shadow-lg text-sm font-black text-white transition-transform hover:scale-110 ${cluster.pins.some((p) => p.key === hoveredKey) ? "bg-amber-500 scale-110" : "bg-indigo-600"}`}
+                style={{ left: cluster.x, top: cluster.y }}
+                title={cluster.pins
+                  .map((p) => `${p.number}. ${p.place.title}`)
+                  .join("\n")}
+              >
+                {cluster.pins.length}
+              </button>
+            );
+          }
+          const pin = cluster.pins[0];
+          const isHovered = pin.key === hoveredKey;
+          return (
+            <button
+              key={pin.key}
+              onClick={() => onSelectPin(pin.key)}
+              onMouseEnter={() => onHoverPin(pin.key)}
+              onMouseLeave={() => onHoverPin(null)}
+              className={`absolute -translate-x-1/2 -translate-y-full flex flex-col items-center transition-transform ${isHovered ? "scale-125 z-10" : "hover:scale-110"}`}
+              style={{ left: cluster.x, top: cluster.y }}
+              title={pin.place.title}
+            >
+              <span
+                className={`w-7 h-7 rounded-full border-2 border-white shadow-lg flex items-center justify-center text-xs font-black text-white ${isHovered ? "bg-amber-500" : "bg-indigo-600"}`}
+              >
+                {pin.number}
+              </span>
+              <span
+                className={`w-0.5 h-2 ${isHovered ? "bg-amber-500" : "bg-indigo-600"}`}
+              />
+            </button>
+          );
+        })}
+
+        {searchPointPosition && (
+          <span
+            className="absolute -translate-x-1/2 -translate-y-1/2 w-4 h-4 rounded-full bg-rose-500 border-2 border-white shadow-lg pointer-events-none"
+            style={{
+              left: searchPointPosition.x - left,
+              top: searchPointPosition.y - top,
+            }}
+            title={t("map.searchPoint")}
+          />
+        )}
+
+        {onPickLocation && (
+          <div
+            onPointerDown={(e) => e.stopPropagation()}
+            className="absolute top-3 left-3 right-14 flex items-center gap-2 bg-white/95 dark:bg-slate-900/95 px-3 py-2 rounded-xl shadow text-xs text-slate-600 dark:text-slate-300"
+          >
+            <span className="flex-1">{t("map.pickHint")}</span>
+            {onCancelPick && (
+              <button
+                onClick={onCancelPick}
+                className="font-bold text-indigo-500 hover:text-indigo-600"
+              >
+                {t("common.cancel")}
+              </button>
+            )}
+          </div>
+        )}
+
+        {pins.length === 0 && !onPickLocation && (
+          <div className="absolute inset-0 flex items-center justify-center p-6">
+            <p className="text-sm text-slate-500 dark:text-slate-400 bg-white/90 dark:bg-slate-900/90 px-4 py-2 rounded-xl shadow">
+              {t("map.empty")}
+            </p>
+          </div>
+        )}
+
+        <div className="absolute top-3 right-3 flex flex-col gap-1">
+          <button
+            onClick={onClose}
+            className="w-8 h-8 rounded-lg bg-white dark:bg-slate-900 shadow text-slate-500 hover:text-slate-800 dark:hover:text-white font-bold"
+            title={t("header.hideMap")}
+          >
+            ×
+          </button>
+          <button
+            onClick={() => zoomTo(zoom + 1)}
+            className="w-8 h-8 rounded-lg bg-white dark:bg-slate-900 shadow text-slate-600 dark:text-slate-300 font-bold"
+            title={t("map.zoomIn")}
+          >
+            +
+          </button>
+          <button
+            onClick={() => zoomTo(zoom - 1)}
+            className="w-8 h-8 rounded-lg bg-white dark:bg-slate-900 shadow text-slate-600 dark:text-slate-300 font-bold"
+            title={t("map.zoomOut")}
+          >
+            −
+          </button>
+          {hasInteracted && located.length > 0 && (
+            <button
+              onClick={() => setHasInteracted(false)}
+              className="w-8 h-8 rounded-lg bg-white dark:bg-slate-900 shadow text-slate-600 dark:text-slate-300 text-[10px] font-bold"
+              title={t("map.fitTitle")}
+            >
+              {t("map.fit")}
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between gap-2 px-3 py-1.5 text-[10px] text-slate-500 dark:text-slate-400 bg-white/90 dark:bg-slate-900/90 border-t border-slate-200 dark:border-slate-700 shrink-0">
+        <span>
+          {pendingCount > 0
+            ? t(pendingCount === 1 ? "map.locatingOne" : "map.locatingMany", {
+                count: pendingCount,
+              })
+            : missingCount > 0
+              ? t(missingCount === 1 ? "map.missingOne" : "map.missingMany", {
+                  count: missingCount,
+                })
+              : t(located.length === 1 ? "map.placesOne" : "map.placesMany", {
+                  count: located.length,
+                })}
+        </span>
+        <span>{provider.attribution}</span>
+      </div>
+    </div>
+  );
+};
+
+export default ResultsMap;
@@ -0,0 +1,136 @@
+import React, { useEffect, useRef, useState } from "react";
+import { SavedSearch } from "../types";
+import { SAVED_SEARCH_INTERVALS } from "../services/savedSearches";
+import { formatDateTime, t } from "../services/i18n";
+
+interface SavedSearchButtonProps {
+  savedSearch?: SavedSearch; // The current session's, if it is being watched
+  canSave: boolean; // False until a reply in the session has shown places
+  onSave: (intervalMs: number) => Promise<void>;
+  onStop: (id: string) => Promise<void>;
+}
+
+const intervalLabel = (ms: number) =>
+  t(
+    SAVED_SEARCH_INTERVALS.find((i) => i.ms === ms)?.label ??
+      "savedSearch.everyHours",
+    {
+      hours: Math.round(ms / 3_600_000),
+    },
+  );
+
+// Watches the current search: the server re-runs it on the chosen schedule and
+// raises an alert when places are added or their listings change
+const SavedSearchButton: React.FC<SavedSearchButtonProps> = ({
+  savedSearch,
+  canSave,
+  onSave,
+  onStop,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (
+        containerRef.current &&
+        !containerRef.current.contains(event.target as Node)
+      ) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, []);
+
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await action();
+      return true;
+    } catch (e) {
+      console.error("Failed to update saved search", e);
+      setError(t("savedSearch.failed"));
+      return false;
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={!canSave && !savedSearch}
+        className={`p-2.5 rounded-full disabled:opacity-40 transition-all ${savedSearch ? "bg-indigo-50 dark:bg-indigo-900/30 text-indigo-600 dark:text-indigo-300" : "text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800"}`}
+        title={
+          savedSearch
+            ? t("savedSearch.watchingTitle", {
+                interval: intervalLabel(savedSearch.intervalMs),
+              })
+            : t("savedSearch.watchTitle")
+        }
+      >
+        <svg
+          width="20"
+          height="20"
+          viewBox="0 0 24 24"
+          fill={savedSearch ? "currentColor" : "none"}
+          stroke="currentColor"
+          strokeWidth="2.5"
+        >
+          <path d="M19 21l-7-5-7 5V5a2 2 0 0 1 2-2h10a2 2 0 0 1 2 2z"></path>
+        </svg>
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-3 w-72 bg-white/95 dark:bg-slate-800/95 backdrop-blur-xl rounded-2xl shadow-[0_20px_40px_rgba(0,0,0,0.2)] border border-slate-200/50 dark:border-slate-700/50 p-4 z-50 animate-in fade-in zoom-in-95 duration-200 origin-top-right space-y-3">
+          <p className="text-[10px] uppercase tracking-widest font-bold text-slate-400">
+            {savedSearch ? t("savedSearch.watching") : t("savedSearch.watch")}
+          </p>
+          <p className="text-[11px] text-slate-500 dark:text-slate-400">
+            {savedSearch
+              ? savedSearch.lastRunAt
+                ? t("savedSearch.lastChecked", {
+                    date: formatDateTime(savedSearch.lastRunAt),
+                  })
+                : t("savedSearch.firstCheck", {
+                    date: formatDateTime(savedSearch.nextRunAt),
+                  })
+              : t("savedSearch.intro")}
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {SAVED_SEARCH_INTERVALS.map(({ label, ms }) => (
+              <button
+                key={ms}
+                onClick={() => run(() => onSave(ms))}
+                disabled={isBusy || !canSave}
+                className={`px-3 py-1.5 rounded-lg text-xs font-bold transition-colors disabled:opacity-50 ${savedSearch?.intervalMs === ms ? "bg-indigo-600 text-white" : "bg-slate-100 dark:bg-slate-900 text-slate-600 dark:text-slate-300 hover:bg-indigo-50 dark:hover:bg-slate-700"}`}
+              >
+                {t(label)}
+              </button>
+            ))}
+          </div>
+          {savedSearch && (
+            <button
+              onClick={() =>
+                run(() => onStop(savedSearch.id)).then(
+                  (done) => done && setIsOpen(false),
+                )
+              }
+              disabled={isBusy}
+              className="text-xs font-bold text-red-500 hover:text-red-600 disabled:opacity-50"
+            >
+              {t("savedSearch.stop")}
+            </button>
+          )}
+          {error && <p className="text-xs text-red-500">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SavedSearchButton;
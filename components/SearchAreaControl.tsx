@@ -0,0 +1,163 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Location, SearchArea, SearchAreaMode } from "../types";
+import { t } from "../services/i18n";
+import { MessageKey } from "../services/translations";
+
+interface SearchAreaControlProps {
+  searchArea: SearchArea;
+  deviceLocation?: Location;
+  onChange: (area: SearchArea) => void;
+  onPickOnMap: () => void; // Opens the map to place the pin; see ResultsMap
+}
+
+const formatCoords = (loc: Location) =>
+  `${loc.latitude.toFixed(4)}, ${loc.longitude.toFixed(4)}`;
+
+const describeSearchArea = (area: SearchArea) => {
+  if (area.mode === "neighbourhood" && area.label) return area.label;
+  if (area.mode === "pinned" && area.location)
+    return area.label || formatCoords(area.location);
+  return t("area.nearMe");
+};
+
+const MODES: { mode: SearchAreaMode; label: MessageKey }[] = [
+  { mode: "device", label: "area.device" },
+  { mode: "pinned", label: "area.pinned" },
+  { mode: "neighbourhood", label: "area.neighbourhood" },
+];
+
+const SearchAreaControl: React.FC<SearchAreaControlProps> = ({
+  searchArea,
+  deviceLocation,
+  onChange,
+  onPickOnMap,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [mode, setMode] = useState<SearchAreaMode>(searchArea.mode);
+  const [neighbourhood, setNeighbourhood] = useState("");
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Re-seed the form from the session whenever the popover opens
+  useEffect(() => {
+    if (!isOpen) return;
+    setMode(searchArea.mode);
+    setNeighbourhood(
+      searchArea.mode === "neighbourhood" ? searchArea.label || "" : "",
+    );
+  }, [isOpen]);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (
+        containerRef.current &&
+        !containerRef.current.contains(event.target as Node)
+      ) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, []);
+
+  const apply = () => {
+    if (mode === "device") {
+      onChange({ mode: "device" });
+    } else if (mode === "pinned") {
+      onPickOnMap();
+    } else {
+      if (!neighbourhood.trim()) return;
+      onChange({ mode: "neighbourhood", label: neighbourhood.trim() });
+    }
+    setIsOpen(false);
+  };
+
+  const canApply = mode !== "neighbourhood" || neighbourhood.trim().length > 0;
+
+  const inputClasses =
+    "w-full bg-slate-100 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-800 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-indigo-500/30";
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 max-w-[10rem] md:max-w-[14rem] px-3 py-2 rounded-full bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700 text-xs font-bold transition-colors"
+        title={t("area.choose")}
+      >
+        <svg
+          width="14"
+          height="14"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2.5"
+          className="shrink-0 text-indigo-500"
+        >
+          <path d="M21 10c0 7-9 13-9 13s-9-6-9-13a9 9 0 0 1 18 0z"></path>
+          <circle cx="12" cy="10" r="3"></circle>
+        </svg>
+        <span className="truncate">{describeSearchArea(searchArea)}</span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-3 w-72 bg-white/95 dark:bg-slate-800/95 backdrop-blur-xl rounded-2xl shadow-[0_20px_40px_rgba(0,0,0,0.2)] border border-slate-200/50 dark:border-slate-700/50 p-4 z-50 animate-in fade-in zoom-in-95 duration-200 origin-top-right space-y-4">
+          <p className="text-[10px] text-slate-400 dark:text-slate-500 uppercase font-bold tracking-widest">
+            {t("area.title")}
+          </p>
+
+          <div className="grid grid-cols-3 gap-1 bg-slate-100 dark:bg-slate-900 p-1 rounded-xl">
+            {MODES.map((m) => (
+              <button
+                key={m.mode}
+                onClick={() => setMode(m.mode)}
+                className={`py-1.5 rounded-lg text-[11px] font-bold transition-colors ${mode === m.mode ? "bg-white dark:bg-slate-700 text-indigo-600 dark:text-indigo-300 shadow-sm" : "text-slate-500 hover:text-slate-700 dark:hover:text-slate-300"}`}
+              >
+                {t(m.label)}
+              </button>
+            ))}
+          </div>
+
+          {mode === "device" && (
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              {deviceLocation
+                ? t("area.aroundDevice", {
+                    coords: formatCoords(deviceLocation),
+                  })
+                : t("area.noDevice")}
+            </p>
+          )}
+
+          {mode === "pinned" && (
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              {searchArea.mode === "pinned" && searchArea.location
+                ? t("area.pinnedAt", {
+                    coords: formatCoords(searchArea.location),
+                  })
+                : t("area.pinHint")}
+            </p>
+          )}
+
+          {mode === "neighbourhood" && (
+            <input
+              type="text"
+              value={neighbourhood}
+              onChange={(e) => setNeighbourhood(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && apply()}
+              placeholder={t("area.neighbourhoodPlaceholder")}
+              className={inputClasses}
+            />
+          )}
+
+          <button
+            onClick={apply}
+            disabled={!canApply}
+            className={`w-full py-2.5 rounded-xl text-xs font-bold transition-colors ${canApply ? "bg-indigo-600 hover:bg-indigo-700 text-white" : "bg-slate-200 dark:bg-slate-700 text-slate-400"}`}
+          >
+            {mode === "pinned" ? t("area.pickOnMap") : t("area.apply")}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SearchAreaControl;
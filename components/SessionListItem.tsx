@@ -0,0 +1,233 @@
+import React, { useEffect, useRef, useState } from "react";
+import { ChatSession } from "../types";
+import { formatDate, t } from "../services/i18n";
+
+export type SessionPatch = Partial<
+  Pick<ChatSession, "title" | "pinned" | "archived" | "folder">
+>;
+
+interface SessionListItemProps {
+  session: ChatSession;
+  isActive: boolean;
+  isPending: boolean;
+  isMobile: boolean;
+  isSelecting: boolean;
+  isSelected: boolean;
+  folders: string[];
+  onSelect: () => void;
+  onToggleSelected: () => void;
+  onUpdate: (patch: SessionPatch) => void;
+  onDelete: () => void;
+}
+
+const menuItemClasses =
+  "w-full text-left px-3 py-1.5 rounded-lg text-xs text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors";
+
+const SessionListItem: React.FC<SessionListItemProps> = ({
+  session,
+  isActive,
+  isPending,
+  isMobile,
+  isSelecting,
+  isSelected,
+  folders,
+  onSelect,
+  onToggleSelected,
+  onUpdate,
+  onDelete,
+}) => {
+  const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [titleDraft, setTitleDraft] = useState("");
+  const [folderDraft, setFolderDraft] = useState("");
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isMenuOpen) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsMenuOpen(false);
+      }
+    };
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, [isMenuOpen]);
+
+  const startRename = () => {
+    setTitleDraft(session.title);
+    setIsRenaming(true);
+    setIsMenuOpen(false);
+  };
+
+  const finishRename = () => {
+    const title = titleDraft.trim();
+    if (title && title !== session.title) onUpdate({ title });
+    setIsRenaming(false);
+  };
+
+  const moveTo = (folder: string | undefined) => {
+    onUpdate({ folder });
+    setFolderDraft("");
+    setIsMenuOpen(false);
+  };
+
+  // Runs a menu action without also opening the session underneath
+  const act = (action: () => void) => (e: React.MouseEvent) => {
+    e.stopPropagation();
+    action();
+    setIsMenuOpen(false);
+  };
+
+  return (
+    <div
+      onClick={isSelecting ? onToggleSelected : onSelect}
+      className={`group relative flex items-center justify-between p-3 rounded-lg cursor-pointer transition-all duration-200 border border-transparent
+        ${
+          isActive && !isSelecting
+            ? "bg-white dark:bg-slate-800 shadow-sm border-slate-200 dark:border-slate-700"
+            : "hover:bg-slate-100 dark:hover:bg-slate-800/50 text-slate-600 dark:text-slate-400"
+        }`}
+    >
+      <div className="flex items-center space-x-3 overflow-hidden flex-1 min-w-0">
+        {isSelecting ? (
+          <input
+            type="checkbox"
+            checked={isSelected}
+            onChange={onToggleSelected}
+            onClick={(e) => e.stopPropagation()}
+            className="shrink-0 accent-indigo-600"
+          />
+        ) : (
+          <div
+            className={`shrink-0 w-2 h-2 rounded-full ${isPending ? "bg-amber-400 animate-pulse" : isActive ? "bg-indigo-500" : "bg-slate-300 dark:bg-slate-600"}`}
+            title={isPending ? t("session.pending") : undefined}
+          ></div>
+        )}
+        <div className="flex flex-col overflow-hidden min-w-0 flex-1">
+          {isRenaming ? (
+            <input
+              autoFocus
+              value={titleDraft}
+              onChange={(e) => setTitleDraft(e.target.value)}
+              onClick={(e) => e.stopPropagation()}
+              onBlur={finishRename}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") finishRename();
+                if (e.key === "Escape") setIsRenaming(false);
+              }}
+              className="w-full bg-white dark:bg-slate-900 border border-indigo-300 dark:border-indigo-700 rounded-md px-1.5 py-0.5 text-sm text-slate-900 dark:text-slate-100 focus:outline-none"
+            />
+          ) : (
+            <span
+              onDoubleClick={(e) => {
+                e.stopPropagation();
+                startRename();
+              }}
+              className={`text-sm font-medium truncate ${isActive ? "text-slate-900 dark:text-slate-100" : ""}`}
+              title={t("session.renameTitle")}
+            >
+              {session.pinned && <span className="mr-1">📌</span>}
+              {session.title || t("common.newSearch")}
+            </span>
+          )}
+          <span className="text-[10px] text-slate-400 truncate uppercase tracking-tighter">
+            {formatDate(session.lastUpdated)}
+          </span>
+        </div>
+      </div>
+
+      {!isSelecting && (
+        <div className="relative shrink-0 ml-2" ref={menuRef}>
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              setIsMenuOpen(!isMenuOpen);
+            }}
+            className={`p-1.5 rounded-md text-slate-400 hover:bg-slate-200 dark:hover:bg-slate-700 hover:text-slate-600 transition-all
+              ${isMobile || isMenuOpen ? "opacity-100" : "opacity-0 group-hover:opacity-100"}`}
+            title={t("session.options")}
+          >
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              width="14"
+              height="14"
+              viewBox="0 0 24 24"
+              fill="currentColor"
+            >
+              <circle cx="5" cy="12" r="2"></circle>
+              <circle cx="12" cy="12" r="2"></circle>
+              <circle cx="19" cy="12" r="2"></circle>
+            </svg>
+          </button>
+          {isMenuOpen && (
+            <div
+              onClick={(e) => e.stopPropagation()}
+              className="absolute right-0 mt-1 w-52 bg-white/95 dark:bg-slate-800/95 backdrop-blur-xl rounded-xl shadow-[0_20px_40px_rgba(0,0,0,0.2)] border border-slate-200/50 dark:border-slate-700/50 p-1.5 z-50 animate-in fade-in zoom-in-95 duration-150 origin-top-right"
+            >
+              <button onClick={act(startRename)} className={menuItemClasses}>
+                {t("session.rename")}
+              </button>
+              <button
+                onClick={act(() => onUpdate({ pinned: !session.pinned }))}
+                className={menuItemClasses}
+              >
+                {session.pinned ? t("session.unpin") : t("session.pin")}
+              </button>
+              <button
+                onClick={act(() => onUpdate({ archived: !session.archived }))}
+                className={menuItemClasses}
+              >
+                {session.archived
+                  ? t("session.unarchive")
+                  : t("sidebar.archive")}
+              </button>
+              <div className="my-1 border-t border-slate-200 dark:border-slate-700" />
+              <p className="px-3 pt-1 pb-0.5 text-[10px] uppercase tracking-widest font-bold text-slate-400">
+                {t("session.moveToFolder")}
+              </p>
+              {folders
+                .filter((f) => f !== session.folder)
+                .map((folder) => (
+                  <button
+                    key={folder}
+                    onClick={() => moveTo(folder)}
+                    className={`${menuItemClasses} truncate`}
+                  >
+                    {folder}
+                  </button>
+                ))}
+              {session.folder && (
+                <button
+                  onClick={() => moveTo(undefined)}
+                  className={menuItemClasses}
+                >
+                  {t("session.removeFromFolder", { folder: session.folder })}
+                </button>
+              )}
+              <input
+                value={folderDraft}
+                onChange={(e) => setFolderDraft(e.target.value)}
+                onKeyDown={(e) =>
+                  e.key === "Enter" &&
+                  folderDraft.trim() &&
+                  moveTo(folderDraft.trim())
+                }
+                placeholder={t("session.newFolder")}
+                className="mt-1 w-full bg-slate-100 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg px-2 py-1 text-xs text-slate-800 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-indigo-500/30"
+              />
+              <div className="my-1 border-t border-slate-200 dark:border-slate-700" />
+              <button
+                onClick={act(onDelete)}
+                className={`${menuItemClasses} text-red-600 dark:text-red-400`}
+              >
+                {t("common.delete")}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SessionListItem;
@@ -0,0 +1,102 @@
+import React from "react";
+import { SessionSearchResult, splitMatches } from "../services/sessionSearch";
+import { formatDate, t } from "../services/i18n";
+
+interface SessionSearchResultsProps {
+  results: SessionSearchResult[];
+  terms: string[];
+  onOpenMessage: (sessionId: string, messageId: string) => void;
+  onSelectSession: (sessionId: string) => void;
+}
+
+// Hits shown per session before the rest are summarised as "+n more"
+const MAX_HITS = 3;
+
+const Highlighted: React.FC<{ text: string; terms: string[] }> = ({
+  text,
+  terms,
+}) => (
+  <>
+    {splitMatches(text, terms).map((part, i) =>
+      part.isMatch ? (
+        <mark
+          key={i}
+          className="bg-amber-200 dark:bg-amber-500/40 text-inherit rounded-sm px-0.5"
+        >
+          {part.text}
+        </mark>
+      ) : (
+        <React.Fragment key={i}>{part.text}</React.Fragment>
+      ),
+    )}
+  </>
+);
+
+const SessionSearchResults: React.FC<SessionSearchResultsProps> = ({
+  results,
+  terms,
+  onOpenMessage,
+  onSelectSession,
+}) => {
+  if (results.length === 0) {
+    return (
+      <div className="text-center py-10 px-4">
+        <p className="text-sm text-slate-400 dark:text-slate-500 font-medium">
+          {t("sidebar.noMatches")}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {results.map(({ session, hits }) => (
+        <div
+          key={session.id}
+          className="p-3 rounded-lg bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 shadow-sm"
+        >
+          <button
+            onClick={() => onSelectSession(session.id)}
+            className="w-full text-left"
+          >
+            <span className="block text-sm font-medium truncate text-slate-900 dark:text-slate-100">
+              <Highlighted
+                text={session.title || t("common.newSearch")}
+                terms={terms}
+              />
+            </span>
+            <span className="text-[10px] text-slate-400 uppercase tracking-tighter">
+              {formatDate(session.lastUpdated)}
+            </span>
+          </button>
+          {hits.length > 0 && (
+            <ul className="mt-2 space-y-1">
+              {hits.slice(0, MAX_HITS).map((hit, i) => (
+                <li key={`${hit.messageId}-${i}`}>
+                  <button
+                    onClick={() => onOpenMessage(session.id, hit.messageId)}
+                    className="w-full text-left text-xs leading-snug text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700/60 rounded-md px-2 py-1 transition-colors"
+                  >
+                    {hit.placeTitle && (
+                      <span className="block font-semibold text-slate-800 dark:text-slate-100">
+                        <Highlighted text={hit.placeTitle} terms={terms} />
+                      </span>
+                    )}
+                    <Highlighted text={hit.snippet} terms={terms} />
+                  </button>
+                </li>
+              ))}
+              {hits.length > MAX_HITS && (
+                <li className="px-2 text-[10px] text-slate-400">
+                  {t("sidebar.moreHits", { count: hits.length - MAX_HITS })}
+                </li>
+              )}
+            </ul>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default SessionSearchResults;
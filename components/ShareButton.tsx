@@ -0,0 +1,110 @@
+import React, { useEffect, useRef, useState } from "react";
+import { ChatSession } from "../types";
+import { createShare, shareUrl } from "../services/shares";
+import { t } from "../services/i18n";
+
+interface ShareButtonProps {
+  session?: ChatSession;
+  disabled?: boolean;
+}
+
+// Snapshots the session to a read-only link and copies it to the clipboard.
+// Each click makes a new snapshot, so the link shows the search as it is now.
+const ShareButton: React.FC<ShareButtonProps> = ({ session, disabled }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [link, setLink] = useState<string | null>(null);
+  const [isCopied, setIsCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isSharing, setIsSharing] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (
+        containerRef.current &&
+        !containerRef.current.contains(event.target as Node)
+      ) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, []);
+
+  const handleShare = async () => {
+    if (!session) return;
+    setIsOpen(true);
+    setIsSharing(true);
+    setLink(null);
+    setError(null);
+    setIsCopied(false);
+    try {
+      const url = shareUrl((await createShare(session)).id);
+      setLink(url);
+      await navigator.clipboard
+        ?.writeText(url)
+        .then(() => setIsCopied(true))
+        .catch(() => {});
+    } catch (e) {
+      console.error("Failed to share session", e);
+      setError(t("share.failed"));
+    } finally {
+      setIsSharing(false);
+    }
+  };
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        onClick={handleShare}
+        disabled={disabled || !session || isSharing}
+        className="p-2.5 rounded-full text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800 disabled:opacity-40 transition-all"
+        title={t("share.title")}
+      >
+        <svg
+          width="20"
+          height="20"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2.5"
+        >
+          <circle cx="18" cy="5" r="3"></circle>
+          <circle cx="6" cy="12" r="3"></circle>
+          <circle cx="18" cy="19" r="3"></circle>
+          <line x1="8.59" y1="13.51" x2="15.42" y2="17.49"></line>
+          <line x1="15.41" y1="6.51" x2="8.59" y2="10.49"></line>
+        </svg>
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-3 w-80 bg-white/95 dark:bg-slate-800/95 backdrop-blur-xl rounded-2xl shadow-[0_20px_40px_rgba(0,0,0,0.2)] border border-slate-200/50 dark:border-slate-700/50 p-4 z-50 animate-in fade-in zoom-in-95 duration-200 origin-top-right space-y-2">
+          <p className="text-[10px] uppercase tracking-widest font-bold text-slate-400">
+            {t("share.heading")}
+          </p>
+          {isSharing && (
+            <p className="text-sm text-indigo-500 animate-pulse">
+              {t("share.creating")}
+            </p>
+          )}
+          {error && <p className="text-sm text-red-500">{error}</p>}
+          {link && (
+            <>
+              <input
+                readOnly
+                value={link}
+                onFocus={(e) => e.target.select()}
+                className="w-full bg-slate-100 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg px-3 py-2 text-xs text-slate-700 dark:text-slate-200 focus:outline-none"
+              />
+              <p className="text-[11px] text-slate-500 dark:text-slate-400">
+                {isCopied ? `${t("share.copied")} ` : ""}
+                {t("share.note")}
+              </p>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ShareButton;
@@ -0,0 +1,108 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { PlaceData, SharedSession } from "../types";
+import ChatMessage from "./ChatMessage";
+import { fetchShare } from "../services/shares";
+import { numberPlaces } from "../services/placeReferences";
+import { placeKey } from "../services/shortlistStore";
+import { t } from "../services/i18n";
+
+interface SharedSessionViewProps {
+  shareId: string;
+  onFork: (share: SharedSession) => void;
+  onOpenApp: () => void;
+}
+
+// Read-only page behind a share link. It works without signing in; saving a
+// copy sends the recipient through the usual sign-in or guest choice first.
+const SharedSessionView: React.FC<SharedSessionViewProps> = ({
+  shareId,
+  onFork,
+  onOpenApp,
+}) => {
+  const [share, setShare] = useState<SharedSession | null>(null);
+  const [status, setStatus] = useState<
+    "loading" | "ready" | "missing" | "error"
+  >("loading");
+
+  useEffect(() => {
+    let isCurrent = true;
+    fetchShare(shareId)
+      .then((result) => {
+        if (!isCurrent) return;
+        setShare(result);
+        setStatus(result ? "ready" : "missing");
+      })
+      .catch((error) => {
+        console.error("Failed to open shared search", error);
+        if (isCurrent) setStatus("error");
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, [shareId]);
+
+  const pins = useMemo(() => numberPlaces(share?.messages || []), [share]);
+  const getPinNumber = (place: PlaceData) =>
+    pins.find((pin) => pin.key === placeKey(place))?.number;
+
+  return (
+    <div className="flex flex-col h-[100dvh] bg-slate-50 dark:bg-slate-900 text-slate-900 dark:text-slate-100">
+      <header className="bg-white/90 dark:bg-slate-900/90 backdrop-blur-2xl border-b border-slate-200/60 dark:border-slate-800/60 py-3 md:py-4 px-4 md:px-6 shadow-sm shrink-0 flex items-center justify-between gap-4">
+        <div className="min-w-0">
+          <p className="text-[10px] uppercase tracking-widest font-bold text-indigo-500">
+            {t("shared.label")}
+          </p>
+          <h1 className="text-lg md:text-xl font-black tracking-tighter truncate">
+            {share?.title || "CondoScout"}
+          </h1>
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          <button
+            onClick={onOpenApp}
+            className="px-3 py-2 rounded-xl text-xs font-bold text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors"
+          >
+            {t("shared.open")}
+          </button>
+          {share && (
+            <button
+              onClick={() => onFork(share)}
+              className="px-4 py-2 rounded-xl bg-indigo-600 hover:bg-indigo-700 text-white text-xs font-bold transition-colors"
+              title={t("shared.forkTitle")}
+            >
+              {t("shared.fork")}
+            </button>
+          )}
+        </div>
+      </header>
+
+      <main className="flex-1 overflow-y-auto p-4 sm:p-6 lg:p-10">
+        <div className="max-w-4xl lg:max-w-5xl mx-auto space-y-8">
+          {status === "loading" && (
+            <p className="text-sm text-indigo-500 animate-pulse">
+              {t("shared.loading")}
+            </p>
+          )}
+          {status === "missing" && (
+            <p className="text-sm text-slate-500 dark:text-slate-400">
+              {t("shared.missing")}
+            </p>
+          )}
+          {status === "error" && (
+            <p className="text-sm text-slate-500 dark:text-slate-400">
+              {t("shared.error")}
+            </p>
+          )}
+          {share?.messages.map((msg) => (
+            <ChatMessage
+              key={msg.id}
+              message={msg}
+              getPinNumber={getPinNumber}
+            />
+          ))}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default SharedSessionView;
@@ -0,0 +1,207 @@
+import React, { useState } from "react";
+import { ShortlistItem } from "../types";
+import { t } from "../services/i18n";
+import { isWebUrl } from "../services/placeReferences";
+
+interface ShortlistPanelProps {
+  items: ShortlistItem[];
+  canOpenSource: (item: ShortlistItem) => boolean;
+  onOpenSource: (item: ShortlistItem) => void;
+  onUpdateItem: (
+    key: string,
+    patch: Partial<Pick<ShortlistItem, "note" | "tags">>,
+  ) => void;
+  onRemoveItem: (key: string) => void;
+  isCompared: (item: ShortlistItem) => boolean;
+  onToggleCompare: (item: ShortlistItem) => void;
+}
+
+interface ShortlistEntryProps {
+  item: ShortlistItem;
+  canOpenSource: boolean;
+  onOpenSource: () => void;
+  onUpdate: (patch: Partial<Pick<ShortlistItem, "note" | "tags">>) => void;
+  onRemove: () => void;
+  isCompared: boolean;
+  onToggleCompare: () => void;
+}
+
+const ShortlistEntry: React.FC<ShortlistEntryProps> = ({
+  item,
+  canOpenSource,
+  onOpenSource,
+  onUpdate,
+  onRemove,
+  isCompared,
+  onToggleCompare,
+}) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [tagDraft, setTagDraft] = useState("");
+
+  const addTag = () => {
+    const tag = tagDraft.trim();
+    if (tag && !item.tags.includes(tag)) {
+      onUpdate({ tags: [...item.tags, tag] });
+    }
+    setTagDraft("");
+  };
+
+  return (
+    <div className="p-3 rounded-lg bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 shadow-sm space-y-2">
+      <div className="flex items-start justify-between gap-2">
+        <input
+          type="checkbox"
+          checked={isCompared}
+          onChange={onToggleCompare}
+          className="mt-1 shrink-0 accent-indigo-600"
+          title={t("shortlist.select")}
+        />
+        <button
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="flex flex-col flex-1 min-w-0 text-left"
+        >
+          <span className="text-sm font-medium truncate text-slate-900 dark:text-slate-100">
+            {item.place.title}
+          </span>
+          {item.place.address && (
+            <span className="text-[10px] text-slate-400 truncate">
+              {item.place.address}
+            </span>
+          )}
+        </button>
+        <button
+          onClick={onRemove}
+          className="shrink-0 p-1 rounded-md hover:bg-red-50 dark:hover:bg-red-900/30 text-slate-400 hover:text-red-500 transition-colors"
+          title={t("place.unsave")}
+        >
+          <svg
+            xmlns="http://www.w3.org/2000/svg"
+            width="14"
+            height="14"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="2"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+          >
+            <line x1="18" y1="6" x2="6" y2="18"></line>
+            <line x1="6" y1="6" x2="18" y2="18"></line>
+          </svg>
+        </button>
+      </div>
+
+      {item.tags.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {item.tags.map((tag) => (
+            <span
+              key={tag}
+              className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-indigo-50 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-300 text-[10px] font-bold"
+            >
+              {tag}
+              {isExpanded && (
+                <button
+                  onClick={() =>
+                    onUpdate({ tags: item.tags.filter((t) => t !== tag) })
+                  }
+                  className="opacity-60 hover:opacity-100"
+                >
+                  ×
+                </button>
+              )}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {!isExpanded && item.note && (
+        <p className="text-xs text-slate-500 dark:text-slate-400 line-clamp-2">
+          {item.note}
+        </p>
+      )}
+
+      {isExpanded && (
+        <div className="space-y-2">
+          <textarea
+            value={item.note}
+            onChange={(e) => onUpdate({ note: e.target.value })}
+            placeholder={t("shortlist.note")}
+            rows={3}
+            className="w-full bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-md px-2 py-1.5 text-xs text-slate-700 dark:text-slate-200 resize-none focus:outline-none focus:ring-2 focus:ring-indigo-500/30"
+          />
+          <input
+            type="text"
+            value={tagDraft}
+            onChange={(e) => setTagDraft(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && addTag()}
+            onBlur={addTag}
+            placeholder={t("shortlist.tag")}
+            className="w-full bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-md px-2 py-1.5 text-xs text-slate-700 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-indigo-500/30"
+          />
+          <div className="flex gap-2">
+            {canOpenSource && (
+              <button
+                onClick={onOpenSource}
+                className="flex-1 py-1.5 rounded-md bg-indigo-600 hover:bg-indigo-700 text-white text-[11px] font-bold transition-colors"
+              >
+                {t("shortlist.goToChat")}
+              </button>
+            )}
+            {item.place.uri && isWebUrl(item.place.uri) && (
+              <a
+                href={item.place.uri}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex-1 py-1.5 rounded-md bg-slate-100 dark:bg-slate-700 hover:bg-slate-200 dark:hover:bg-slate-600 text-slate-700 dark:text-slate-200 text-[11px] font-bold text-center transition-colors"
+              >
+                {t("shortlist.openMap")}
+              </a>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const ShortlistPanel: React.FC<ShortlistPanelProps> = ({
+  items,
+  canOpenSource,
+  onOpenSource,
+  onUpdateItem,
+  onRemoveItem,
+  isCompared,
+  onToggleCompare,
+}) => {
+  if (items.length === 0) {
+    return (
+      <div className="text-center py-10 px-4">
+        <p className="text-sm text-slate-400 dark:text-slate-500 font-medium">
+          {t("shortlist.empty")}
+        </p>
+        <p className="text-xs text-slate-400 dark:text-slate-500 mt-1">
+          {t("shortlist.emptyHint")}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {items.map((item) => (
+        <ShortlistEntry
+          key={item.key}
+          item={item}
+          canOpenSource={canOpenSource(item)}
+          onOpenSource={() => onOpenSource(item)}
+          onUpdate={(patch) => onUpdateItem(item.key, patch)}
+          onRemove={() => onRemoveItem(item.key)}
+          isCompared={isCompared(item)}
+          onToggleCompare={() => onToggleCompare(item)}
+        />
+      ))}
+    </div>
+  );
+};
+
+export default ShortlistPanel;
@@ -1,15 +1,38 @@
-import React from "react";
-import { ChatSession } from "../types";
+import React, { useMemo, useState } from "react";
+import { ChatSession, PropertyType, ShortlistItem } from "../types";
+import ShortlistPanel from "./ShortlistPanel";
+import SessionSearchResults from "./SessionSearchResults";
+import SessionListItem, { SessionPatch } from "./SessionListItem";
+import { PROPERTY_TYPES, propertyTypeLabel } from "../services/searchCriteria";
+import { t } from "../services/i18n";
+import {
+  SessionSearchFilters,
+  hasSearchFilters,
+  searchSessions,
+  searchTerms,
+} from "../services/sessionSearch";
 
 interface SidebarProps {
   isOpen: boolean;
   isMobile: boolean;
   sessions: ChatSession[];
+  pendingSessionIds: string[]; // Sessions still waiting on a reply
   currentSessionId: string | null;
   onSelectSession: (id: string) => void;
+  onOpenMessage: (sessionId: string, messageId: string) => void;
   onNewChat: () => void;
-  onDeleteSession: (e: React.MouseEvent, id: string) => void;
+  onUpdateSessions: (ids: string[], patch: SessionPatch) => void;
+  onDeleteSessions: (ids: string[]) => void;
   onClose: () => void;
+  shortlist: ShortlistItem[];
+  onOpenShortlistSource: (item: ShortlistItem) => void;
+  onUpdateShortlistItem: (
+    key: string,
+    patch: Partial<Pick<ShortlistItem, "note" | "tags">>,
+  ) => void;
+  onRemoveShortlistItem: (key: string) => void;
+  isShortlistItemCompared: (item: ShortlistItem) => boolean;
+  onToggleCompareShortlistItem: (item: ShortlistItem) => void;
 }
 
 const Sidebar: React.FC<SidebarProps> = ({
@@ -17,11 +40,107 @@ const Sidebar: React.FC<SidebarProps> = ({
   isMobile,
   sessions,
   currentSessionId,
+  pendingSessionIds,
   onSelectSession,
+  onOpenMessage,
   onNewChat,
-  onDeleteSession,
+  onUpdateSessions,
+  onDeleteSessions,
   onClose,
+  shortlist,
+  onOpenShortlistSource,
+  onUpdateShortlistItem,
+  onRemoveShortlistItem,
+  isShortlistItemCompared,
+  onToggleCompareShortlistItem,
 }) => {
+  const [activeTab, setActiveTab] = useState<"history" | "shortlist">(
+    "history",
+  );
+  const [filters, setFilters] = useState<SessionSearchFilters>({ query: "" });
+  const [showFilters, setShowFilters] = useState(false);
+  const updateFilters = (patch: Partial<SessionSearchFilters>) =>
+    setFilters((prev) => ({ ...prev, ...patch }));
+
+  const terms = searchTerms(filters.query);
+  const isFiltering = hasSearchFilters(filters);
+  const results = useMemo(
+    () => (isFiltering ? searchSessions(sessions, filters) : []),
+    [sessions, filters, isFiltering],
+  );
+  const visibleSessions = isFiltering
+    ? results.map((r) => r.session)
+    : sessions;
+  const closeOnMobile = () => {
+    if (isMobile) onClose();
+  };
+
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [showArchived, setShowArchived] = useState(false);
+  const [collapsedFolders, setCollapsedFolders] = useState<string[]>([]);
+
+  // Folders exist only while a session is filed in them
+  const folders = useMemo(
+    () =>
+      [...new Set(sessions.map((s) => s.folder).filter(Boolean))].sort((a, b) =>
+        a.localeCompare(b),
+      ),
+    [sessions],
+  );
+  const active = sessions.filter((s) => !s.archived);
+  const archived = sessions.filter((s) => s.archived);
+  const pinned = active.filter((s) => s.pinned);
+  const unpinned = active.filter((s) => !s.pinned);
+  const recent = unpinned.filter((s) => !s.folder);
+
+  const toggleFolder = (folder: string) =>
+    setCollapsedFolders((prev) =>
+      prev.includes(folder)
+        ? prev.filter((f) => f !== folder)
+        : [...prev, folder],
+    );
+  const toggleSelected = (id: string) =>
+    setSelectedIds((prev) =>
+      prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id],
+    );
+  const stopSelecting = () => {
+    setIsSelecting(false);
+    setSelectedIds([]);
+  };
+  const applyToSelected = (action: (ids: string[]) => void) => {
+    // Sessions deleted elsewhere since they were ticked are skipped
+    const ids = selectedIds.filter((id) => sessions.some((s) => s.id === id));
+    if (ids.length > 0) action(ids);
+    stopSelecting();
+  };
+
+  const renderGroupLabel = (label: string) => (
+    <span className="block px-2 pt-2 pb-1 text-[10px] font-bold uppercase tracking-widest text-slate-400 dark:text-slate-500 truncate text-left">
+      {label}
+    </span>
+  );
+
+  const renderSession = (session: ChatSession) => (
+    <SessionListItem
+      key={session.id}
+      session={session}
+      isActive={currentSessionId === session.id}
+      isPending={pendingSessionIds.includes(session.id)}
+      isMobile={isMobile}
+      isSelecting={isSelecting}
+      isSelected={selectedIds.includes(session.id)}
+      folders={folders}
+      onSelect={() => {
+        onSelectSession(session.id);
+        closeOnMobile();
+      }}
+      onToggleSelected={() => toggleSelected(session.id)}
+      onUpdate={(patch) => onUpdateSessions([session.id], patch)}
+      onDelete={() => onDeleteSessions([session.id])}
+    />
+  );
+
   // Determine sidebar classes based on state
   // We strictly set w-72 and min/max width to prevent ANY resizing based on content
   const baseClasses =
@@ -75,80 +194,263 @@ const Sidebar: React.FC<SidebarProps> = ({
               <line x1="12" y1="5" x2="12" y2="19"></line>
               <line x1="5" y1="12" x2="19" y2="12"></line>
             </svg>
-            <span>New Search</span>
+            <span>{t("common.newSearch")}</span>
           </button>
         </div>
 
+        {/* Tabs */}
+        <div className="px-3 pt-3 shrink-0">
+          <div className="grid grid-cols-2 gap-1 bg-slate-200/60 dark:bg-slate-800 p-1 rounded-xl">
+            {(["history", "shortlist"] as const).map((tab) => (
+              <button
+                key={tab}
+                onClick={() => setActiveTab(tab)}
+                className={`py-1.5 rounded-lg text-xs font-bold transition-colors ${activeTab === tab ? "bg-white dark:bg-slate-700 text-indigo-600 dark:text-indigo-300 shadow-sm" : "text-slate-500 hover:text-slate-700 dark:hover:text-slate-300"}`}
+              >
+                {tab === "history"
+                  ? t("sidebar.history")
+                  : `${t("sidebar.shortlist")}${shortlist.length > 0 ? ` (${shortlist.length})` : ""}`}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Search */}
+        {activeTab === "history" && (
+          <div className="px-3 pt-3 shrink-0 space-y-2">
+            <div className="flex items-center gap-1">
+              <input
+                type="search"
+                value={filters.query}
+                onChange={(e) => updateFilters({ query: e.target.value })}
+                placeholder={t("sidebar.searchPlaceholder")}
+                className="flex-1 min-w-0 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-800 dark:text-slate-100 placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-indigo-500/30"
+              />
+              <button
+                onClick={() => setShowFilters(!showFilters)}
+                className={`shrink-0 p-2 rounded-lg transition-colors ${showFilters || filters.from || filters.to || filters.propertyType ? "text-indigo-600 dark:text-indigo-300 bg-indigo-50 dark:bg-indigo-900/30" : "text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800"}`}
+                title={t("sidebar.filterTitle")}
+              >
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  width="16"
+                  height="16"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                >
+                  <polygon points="22 3 2 3 10 12.46 10 19 14 21 14 12.46 22 3"></polygon>
+                </svg>
+              </button>
+              <button
+                onClick={() =>
+                  isSelecting ? stopSelecting() : setIsSelecting(true)
+                }
+                className={`shrink-0 p-2 rounded-lg transition-colors ${isSelecting ? "text-indigo-600 dark:text-indigo-300 bg-indigo-50 dark:bg-indigo-900/30" : "text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800"}`}
+                title={t("sidebar.selectTitle")}
+              >
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  width="16"
+                  height="16"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                >
+                  <polyline points="9 11 12 14 22 4"></polyline>
+                  <path d="M21 12v7a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h11"></path>
+                </svg>
+              </button>
+            </div>
+            {isSelecting && (
+              <div className="flex items-center gap-1 p-2 rounded-lg bg-indigo-50 dark:bg-indigo-900/30 text-xs">
+                <span className="flex-1 font-bold text-indigo-700 dark:text-indigo-200">
+                  {t("sidebar.selected", { count: selectedIds.length })}
+                </span>
+                <button
+                  disabled={selectedIds.length === 0}
+                  onClick={() =>
+                    applyToSelected((ids) =>
+                      onUpdateSessions(ids, { archived: true }),
+                    )
+                  }
+                  className="px-2 py-1 rounded-md font-bold text-slate-600 dark:text-slate-200 hover:bg-white/70 dark:hover:bg-slate-800 disabled:opacity-40"
+                >
+                  {t("sidebar.archive")}
+                </button>
+                <button
+                  disabled={selectedIds.length === 0}
+                  onClick={() => applyToSelected(onDeleteSessions)}
+                  className="px-2 py-1 rounded-md font-bold text-red-600 dark:text-red-400 hover:bg-white/70 dark:hover:bg-slate-800 disabled:opacity-40"
+                >
+                  {t("common.delete")}
+                </button>
+                <button
+                  onClick={stopSelecting}
+                  className="px-2 py-1 rounded-md text-slate-500 hover:bg-white/70 dark:hover:bg-slate-800"
+                >
+                  {t("common.cancel")}
+                </button>
+              </div>
+            )}
+            {showFilters && (
+              <div className="space-y-2 p-2 rounded-lg bg-slate-100 dark:bg-slate-800/60 text-xs">
+                <div className="grid grid-cols-2 gap-2">
+                  <label className="flex flex-col gap-1 text-slate-500">
+                    {t("sidebar.from")}
+                    <input
+                      type="date"
+                      value={filters.from || ""}
+                      onChange={(e) =>
+                        updateFilters({ from: e.target.value || undefined })
+                      }
+                      className="w-full bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-md px-1.5 py-1 text-slate-700 dark:text-slate-200"
+                    />
+                  </label>
+                  <label className="flex flex-col gap-1 text-slate-500">
+                    {t("sidebar.to")}
+                    <input
+                      type="date"
+                      value={filters.to || ""}
+                      onChange={(e) =>
+                        updateFilters({ to: e.target.value || undefined })
+                      }
+                      className="w-full bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-md px-1.5 py-1 text-slate-700 dark:text-slate-200"
+                    />
+                  </label>
+                </div>
+                <select
+                  value={filters.propertyType || ""}
+                  onChange={(e) =>
+                    updateFilters({
+                      propertyType: (e.target.value || undefined) as
+                        PropertyType | undefined,
+                    })
+                  }
+                  className="w-full bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-md px-1.5 py-1 text-slate-700 dark:text-slate-200"
+                >
+                  <option value="">{t("sidebar.anyType")}</option>
+                  {PROPERTY_TYPES.map((type) => (
+                    <option key={type} value={type}>
+                      {propertyTypeLabel(type)}
+                    </option>
+                  ))}
+                </select>
+                {isFiltering && (
+                  <button
+                    onClick={() => setFilters({ query: "" })}
+                    className="text-indigo-600 dark:text-indigo-300 font-bold"
+                  >
+                    {t("sidebar.clearSearch")}
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
         {/* History List */}
         <div className="flex-1 overflow-y-auto p-3 space-y-1 scrollbar-hide">
-          {sessions.length === 0 ? (
+          {activeTab === "shortlist" ? (
+            <ShortlistPanel
+              items={shortlist}
+              canOpenSource={(item) =>
+                !!item.source &&
+                sessions.some((s) => s.id === item.source?.sessionId)
+              }
+              onOpenSource={(item) => {
+                onOpenShortlistSource(item);
+                if (isMobile) onClose();
+              }}
+              onUpdateItem={onUpdateShortlistItem}
+              onRemoveItem={onRemoveShortlistItem}
+              isCompared={isShortlistItemCompared}
+              onToggleCompare={onToggleCompareShortlistItem}
+            />
+          ) : terms.length > 0 ? (
+            <SessionSearchResults
+              results={results}
+              terms={terms}
+              onSelectSession={(id) => {
+                onSelectSession(id);
+                closeOnMobile();
+              }}
+              onOpenMessage={(sessionId, messageId) => {
+                onOpenMessage(sessionId, messageId);
+                closeOnMobile();
+              }}
+            />
+          ) : visibleSessions.length === 0 ? (
             <div className="text-center py-10 px-4">
               <p className="text-sm text-slate-400 dark:text-slate-500 font-medium">
-                No search history
+                {t(isFiltering ? "sidebar.noMatches" : "sidebar.noHistory")}
               </p>
             </div>
+          ) : isFiltering ? (
+            visibleSessions.map(renderSession)
           ) : (
-            sessions.map((session) => (
-              <div
-                key={session.id}
-                onClick={() => {
-                  onSelectSession(session.id);
-                  if (isMobile) onClose();
-                }}
-                className={`group flex items-center justify-between p-3 rounded-lg cursor-pointer transition-all duration-200 border border-transparent
-                  ${
-                    currentSessionId === session.id
-                      ? "bg-white dark:bg-slate-800 shadow-sm border-slate-200 dark:border-slate-700"
-                      : "hover:bg-slate-100 dark:hover:bg-slate-800/50 text-slate-600 dark:text-slate-400"
-                  }`}
-              >
-                <div className="flex items-center space-x-3 overflow-hidden flex-1 min-w-0">
-                  <div
-                    className={`shrink-0 w-2 h-2 rounded-full ${currentSessionId === session.id ? "bg-indigo-500" : "bg-slate-300 dark:bg-slate-600"}`}
-                  ></div>
-                  <div className="flex flex-col overflow-hidden min-w-0">
-                    <span
-                      className={`text-sm font-medium truncate ${currentSessionId === session.id ? "text-slate-900 dark:text-slate-100" : ""}`}
+            <>
+              {pinned.length > 0 && (
+                <div className="pb-2">
+                  {renderGroupLabel(t("sidebar.pinned"))}
+                  {pinned.map(renderSession)}
+                </div>
+              )}
+              {folders.map((folder) => {
+                const inFolder = unpinned.filter((s) => s.folder === folder);
+                if (inFolder.length === 0) return null;
+                const isCollapsed = collapsedFolders.includes(folder);
+                return (
+                  <div key={folder} className="pb-2">
+                    <button
+                      onClick={() => toggleFolder(folder)}
+                      className="w-full flex items-center justify-between"
                     >
-                      {session.title || "New Search"}
-                    </span>
-                    <span className="text-[10px] text-slate-400 truncate uppercase tracking-tighter">
-                      {new Date(session.lastUpdated).toLocaleDateString()}
-                    </span>
+                      {renderGroupLabel(`${isCollapsed ? "▸" : "▾"} ${folder}`)}
+                      <span className="px-2 text-[10px] text-slate-400">
+                        {inFolder.length}
+                      </span>
+                    </button>
+                    {!isCollapsed && inFolder.map(renderSession)}
                   </div>
+                );
+              })}
+              {recent.length > 0 && (
+                <div className="pb-2">
+                  {(pinned.length > 0 || folders.length > 0) &&
+                    renderGroupLabel(t("sidebar.recent"))}
+                  {recent.map(renderSession)}
                 </div>
-
-                {/* Delete Button - Always visible on mobile for direct touch, hover on desktop */}
-                <button
-                  onClick={(e) => onDeleteSession(e, session.id)}
-                  className={`shrink-0 ml-2 p-2 rounded-md hover:bg-red-50 dark:hover:bg-red-900/30 text-slate-400 hover:text-red-500 transition-all
-                    ${isMobile ? "opacity-100" : "opacity-0 group-hover:opacity-100"}
-                  `}
-                  title="Delete chat"
-                >
-                  <svg
-                    xmlns="http://www.w3.org/2000/svg"
-                    width="14"
-                    height="14"
-                    viewBox="0 0 24 24"
-                    fill="none"
-                    stroke="currentColor"
-                    strokeWidth="2"
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
+              )}
+              {archived.length > 0 && (
+                <div className="pt-1">
+                  <button
+                    onClick={() => setShowArchived(!showArchived)}
+                    className="w-full text-left px-2 py-1 text-[10px] font-bold uppercase tracking-widest text-slate-400 hover:text-slate-600 dark:hover:text-slate-300"
                   >
-                    <polyline points="3 6 5 6 21 6"></polyline>
-                    <path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2"></path>
-                  </svg>
-                </button>
-              </div>
-            ))
+                    {t(
+                      showArchived
+                        ? "sidebar.hideArchived"
+                        : "sidebar.showArchived",
+                      { count: archived.length },
+                    )}
+                  </button>
+                  {showArchived && archived.map(renderSession)}
+                </div>
+              )}
+            </>
           )}
         </div>
 
         {/* Footer info */}
         <div className="p-4 border-t border-slate-200 dark:border-slate-800 text-[10px] text-slate-400 dark:text-slate-600 font-bold uppercase tracking-widest text-center shrink-0">
-          CondoScout Concierge
+          {t("sidebar.footer")}
         </div>
       </aside>
     </>
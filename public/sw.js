@@ -0,0 +1,144 @@
+// Service worker for production builds, registered from services/connectivity.ts.
+// It keeps the app shell and map tiles so chats saved on this device can still
+// be opened and browsed offline. The API is never cached: replies, sessions and
+// shares always come from the server, and the app queues messages while offline.
+
+const VERSION = "v1";
+const SHELL_CACHE = `condoscout-sw-shell-${VERSION}`;
+const RUNTIME_CACHE = `condoscout-sw-runtime-${VERSION}`;
+const TILE_CACHE = `condoscout-sw-tiles-${VERSION}`;
+const MAX_TILES = 500;
+
+// Scripts, styles and fonts index.html loads from elsewhere
+const CDN_HOSTS = [
+  "cdn.tailwindcss.com",
+  "fonts.googleapis.com",
+  "fonts.gstatic.com",
+  "aistudiocdn.com",
+];
+const TILE_HOSTS = ["tile.openstreetmap.org", "tile.googleapis.com"];
+
+const isCacheable = (url) =>
+  url.origin === self.location.origin
+    ? !url.pathname.startsWith("/api/")
+    : CDN_HOSTS.includes(url.hostname);
+
+// index.html plus every file of the build, listed by vite.config.ts, so the
+// app opens offline even if the first visit ended before this worker took over
+const precache = async () => {
+  await (await caches.open(SHELL_CACHE)).add("/index.html");
+  const res = await fetch("/precache-manifest.json", { cache: "no-store" });
+  if (!res.ok) return;
+  await (await caches.open(RUNTIME_CACHE)).addAll(await res.json());
+};
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(precache().then(() => self.skipWaiting()));
+});
+
+// Only this worker's own caches are cleared; the app keeps others of its own
+self.addEventListener("activate", (event) => {
+  const current = [SHELL_CACHE, RUNTIME_CACHE, TILE_CACHE];
+  event.waitUntil(
+    caches
+      .keys()
+      .then((names) =>
+        Promise.all(
+          names
+            .filter((n) => n.startsWith("condoscout-sw-") && !current.includes(n))
+            .map((n) => caches.delete(n)),
+        ),
+      )
+      .then(() => self.clients.claim()),
+  );
+});
+
+// Every page, /share/<id> included, is the same index.html; the freshest copy
+// wins while online
+const networkFirstShell = async (request) => {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put("/index.html", response.clone());
+    return response;
+  } catch (e) {
+    return (await cache.match("/index.html")) || Response.error();
+  }
+};
+
+// Built assets have hashed names, so a cached copy is never wrong for its URL
+const staleWhileRevalidate = async (request) => {
+  const cache = await caches.open(RUNTIME_CACHE);
+  const cached = await cache.match(request);
+  const refresh = fetch(request)
+    .then((response) => {
+      if (response.ok || response.type === "opaque") {
+        cache.put(request, response.clone());
+      }
+      return response;
+    })
+    .catch(() => cached || Response.error());
+  return cached || refresh;
+};
+
+const trimCache = async (cache, maxEntries) => {
+  const keys = await cache.keys();
+  await Promise.all(
+    keys.slice(0, Math.max(0, keys.length - maxEntries)).map((k) => cache.delete(k)),
+  );
+};
+
+// Tiles at a given x/y/z never change, so they are only fetched once
+const cacheFirstTile = async (request) => {
+  const cache = await caches.open(TILE_CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) {
+    await cache.put(request, response.clone());
+    trimCache(cache, MAX_TILES);
+  }
+  return response;
+};
+
+// What the page loaded before this worker controlled it never went through the
+// fetch handler, the CDN scripts and fonts included. The page sends the URLs
+// once the worker is active; cross-origin ones are kept opaque if CORS fails.
+const cacheLoaded = async (urls) => {
+  const cache = await caches.open(RUNTIME_CACHE);
+  await Promise.all(
+    urls
+      .map((url) => new URL(url))
+      .filter(isCacheable)
+      .map(async (url) => {
+        if (await cache.match(url)) return;
+        const response = await fetch(url, { mode: "cors", credentials: "omit" })
+          .catch(() => fetch(url, { mode: "no-cors" }))
+          .catch(() => null);
+        if (response && (response.ok || response.type === "opaque")) {
+          await cache.put(url, response);
+        }
+      }),
+  );
+};
+
+self.addEventListener("message", (event) => {
+  if (event.data?.type !== "cache-loaded") return;
+  event.waitUntil(cacheLoaded(event.data.urls || []));
+});
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+  const url = new URL(request.url);
+  const isSameOrigin = url.origin === self.location.origin;
+
+  if (isSameOrigin && url.pathname.startsWith("/api/")) return;
+  if (request.mode === "navigate") {
+    event.respondWith(networkFirstShell(request));
+  } else if (TILE_HOSTS.includes(url.hostname)) {
+    event.respondWith(cacheFirstTile(request));
+  } else if (isCacheable(url)) {
+    event.respondWith(staleWhileRevalidate(request));
+  }
+});
@@ -0,0 +1,132 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { AddressInfo } from "node:net";
+import { Server, createServer } from "node:http";
+import { createApiHandler } from "./api";
+import { createAuthenticator } from "./auth";
+import { MemorySessionStore } from "./sessionStore";
+import { MemoryShareStore } from "./shareStore";
+import { MemorySavedSearchStore } from "./savedSearchStore";
+import { createSavedSearchJob, unavailablePlaceSearch } from "./savedSearchJob";
+
+const savedSearchBody = {
+  sessionId: "session-1",
+  title: "Ari one-beds",
+  query: "One-beds in Ari",
+  searchArea: { mode: "neighbourhood", label: "Ari" },
+  places: [{ title: "Condo A", uri: "https://maps.google.com/?q=a" }],
+  intervalMs: 86_400_000,
+};
+
+describe("API request validation", () => {
+  const auth = createAuthenticator({ verify: async () => ({ id: "user-1" }) });
+  let server: Server;
+  let baseUrl: string;
+  let token: string;
+
+  beforeAll(async () => {
+    const savedSearches = new MemorySavedSearchStore();
+    const handler = createApiHandler({
+      sessions: new MemorySessionStore(),
+      shares: new MemoryShareStore(),
+      savedSearches,
+      savedSearchJob: createSavedSearchJob(
+        savedSearches,
+        unavailablePlaceSearch,
+      ),
+      auth,
+      ai: null,
+    });
+    server = createServer((req, res) =>
+      handler(req, res, () => {
+        res.statusCode = 404;
+        res.end();
+      }),
+    );
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    token = (await auth.signIn("id-token")).token;
+  });
+
+  afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+  const post = (path: string, body: unknown) =>
+    fetch(`${baseUrl}${path}`, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${token}` },
+      body: typeof body === "string" ? body : JSON.stringify(body),
+    });
+
+  it("saves a well-formed saved search", async () => {
+    const res = await post("/api/saved-searches", savedSearchBody);
+
+    expect(res.status).toBe(201);
+    expect((await res.json()).savedSearch).toMatchObject({
+      title: "Ari one-beds",
+      searchArea: savedSearchBody.searchArea,
+      places: savedSearchBody.places,
+    });
+  });
+
+  it.each([
+    ["places that aren't a list", { places: { title: "Condo A" } }, "places"],
+    ["a place without a link", { places: [{ title: "Condo A" }] }, "places"],
+    [
+      "an unknown search area mode",
+      { searchArea: { mode: "moon" } },
+      "searchArea",
+    ],
+    ["a text interval", { intervalMs: "daily" }, "intervalMs"],
+  ])("rejects a saved search with %s", async (_, change, name) => {
+    const res = await post("/api/saved-searches", {
+      ...savedSearchBody,
+      ...change,
+    });
+
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toBe(`${name} is missing or invalid`);
+  });
+
+  it("rejects a body that isn't a JSON object", async () => {
+    const res = await post("/api/saved-searches", "[1, 2]");
+
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toBe("Expected a JSON object");
+  });
+
+  it("rejects a share with a place link that isn't a web link", async () => {
+    const res = await post("/api/shares", {
+      session: {
+        id: "session-1",
+        title: "Ari one-beds",
+        createdAt: 1,
+        lastUpdated: 1,
+        messages: [
+          {
+            id: "m1",
+            role: "model",
+            text: "Here you go",
+            places: [{ title: "Condo A", uri: "javascript:alert(1)" }],
+          },
+        ],
+      },
+    });
+
+    expect(res.status).toBe(400);
+  });
+
+  it("rejects a share without a session", async () => {
+    const res = await post("/api/shares", { session: { messages: "hi" } });
+
+    expect(res.status).toBe(400);
+  });
+
+  it("answers 500 without Retry-After when Gemini isn't configured", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const res = await post("/api/criteria", { message: "Two beds in Ari" });
+
+    expect(res.status).toBe(500);
+    expect(res.headers.get("Retry-After")).toBeNull();
+    expect((await res.json()).kind).toBe("not-configured");
+    vi.restoreAllMocks();
+  });
+});
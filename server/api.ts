@@ -0,0 +1,482 @@
+import { IncomingMessage, ServerResponse } from "node:http";
+import { randomBytes } from "node:crypto";
+import { GoogleGenAI } from "@google/genai";
+import { Handler, HttpError, sendJson } from "./http";
+import {
+  arrayOf,
+  field,
+  isAnchor,
+  isChatSession,
+  isChatTurn,
+  isNumber,
+  isPlace,
+  isSearchArea,
+  isSearchContext,
+  isSearchCriteria,
+  isString,
+  optional,
+  readBody,
+} from "./validate";
+import { SessionStore } from "./sessionStore";
+import { ShareStore } from "./shareStore";
+import { SavedSearchStore } from "./savedSearchStore";
+import { FakeClock, SavedSearchJob } from "./savedSearchJob";
+import { Authenticator, authenticate, bearerToken, requireUser } from "./auth";
+import {
+  classifyGeminiError,
+  comparePlaces,
+  describePlace,
+  enrichPlaces,
+  extractSearchCriteria,
+  streamChat,
+  suggestTitle,
+} from "./gemini";
+import { resolveModel } from "../services/conciergeModels";
+import { SavedSearch } from "../types";
+import { ConciergeError, statusForKind } from "../services/conciergeErrors";
+import { isLocale } from "../services/i18n";
+
+export interface ApiDeps {
+  sessions: SessionStore;
+  shares: ShareStore;
+  savedSearches: SavedSearchStore;
+  savedSearchJob: SavedSearchJob;
+  // Set when saved searches run on a fake clock, which enables the route that
+  // moves it forward
+  fakeClock?: FakeClock;
+  auth: Authenticator;
+  ai: GoogleGenAI | null; // Null without GEMINI_API_KEY; Royce's routes then answer 503
+}
+
+// Saved searches cost a model call per run, so they can't run more often
+const MIN_SAVED_SEARCH_INTERVAL_MS = 60 * 60 * 1000;
+
+// Longest session, as JSON, that can be shared; a long search with place
+// cards stays well under it
+const MAX_SHARE_LENGTH = 1_000_000;
+
+const conciergeFailure = (error: ConciergeError) => ({
+  error: error.message,
+  kind: error.kind,
+});
+
+// Suggested wait on a 429 or 503 when Gemini didn't say how long
+const DEFAULT_RETRY_AFTER_MS = 5000;
+
+// The browser's retries wait this long instead of their own backoff
+const setRetryAfter = (
+  res: ServerResponse,
+  status: number,
+  retryAfterMs = DEFAULT_RETRY_AFTER_MS,
+) => {
+  if (status !== 429 && status !== 503) return;
+  res.setHeader("Retry-After", String(Math.ceil(retryAfterMs / 1000)));
+};
+
+const sendError = (res: ServerResponse, error: unknown) => {
+  if (error instanceof HttpError) {
+    setRetryAfter(res, error.status);
+    return sendJson(res, error.status, { error: error.message });
+  }
+  console.error("API error:", error);
+  const failure = classifyGeminiError(error);
+  if (failure) {
+    const status = statusForKind(failure.kind);
+    setRetryAfter(res, status, failure.retryAfterMs);
+    return sendJson(res, status, conciergeFailure(failure));
+  }
+  sendJson(res, 500, { error: "Internal server error" });
+};
+
+export const createApiHandler = ({
+  sessions,
+  shares,
+  savedSearches,
+  savedSearchJob,
+  fakeClock,
+  auth,
+  ai,
+}: ApiDeps): Handler => {
+  const now = fakeClock?.now ?? Date.now;
+
+  const gemini = () => {
+    if (!ai) {
+      throw new ConciergeError(
+        "not-configured",
+        "GEMINI_API_KEY is not set on the server",
+      );
+    }
+    return ai;
+  };
+
+  // Replies as newline-delimited JSON: one `{ text, places? }` line per chunk,
+  // where `text` is only the newly arrived part. The first chunk with content
+  // is awaited before the response starts, so an early failure gets a proper
+  // status and `{ error, kind }` body; a later one ends the stream as such a line.
+  const handleChat = async (req: IncomingMessage, res: ServerResponse) => {
+    authenticate(auth, req);
+    const body = await readBody(req);
+    const history = field(body, "history", optional(arrayOf(isChatTurn))) ?? [];
+    const message = field(body, "message", isString, "Message is required");
+    const search = field(body, "search", optional(isSearchContext)) ?? {};
+    const model = field(body, "model", optional(isString));
+    if (!message.trim()) throw new HttpError(400, "Message is required");
+
+    const controller = new AbortController();
+    res.on("close", () => controller.abort());
+
+    const chunks = streamChat(
+      gemini(),
+      history,
+      message,
+      search,
+      controller.signal,
+      resolveModel(model),
+    );
+    let next = await chunks.next();
+    while (!next.done && !next.value.text && !next.value.places.length) {
+      next = await chunks.next();
+    }
+
+    res.statusCode = 200;
+    res.setHeader("Content-Type", "application/x-ndjson");
+    res.setHeader("Cache-Control", "no-store");
+
+    let sentText = "";
+    let sentPlaces = 0;
+    try {
+      for (; !next.done; next = await chunks.next()) {
+        const chunk = next.value;
+        const line: { text: string; places?: typeof chunk.places } = {
+          text: chunk.text.slice(sentText.length),
+        };
+        if (chunk.places.length !== sentPlaces) line.places = chunk.places;
+        sentText = chunk.text;
+        sentPlaces = chunk.places.length;
+        res.write(JSON.stringify(line) + "\n");
+      }
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error("Gemini API Error:", error);
+      const failure =
+        classifyGeminiError(error) || new ConciergeError("unavailable");
+      res.write(JSON.stringify(conciergeFailure(failure)) + "\n");
+    }
+    res.end();
+  };
+
+  const route = async (req: IncomingMessage, path: string) => {
+    if (path === "/api/auth/session") {
+      const token = bearerToken(req);
+
+      if (req.method === "POST") {
+        const idToken = field(
+          await readBody(req),
+          "idToken",
+          isString,
+          "idToken is required",
+        );
+        return { status: 200, body: await auth.signIn(idToken) };
+      }
+
+      if (req.method === "GET") {
+        const session = token ? auth.resolve(token) : undefined;
+        if (!session) throw new HttpError(401, "Session expired");
+        return { status: 200, body: session };
+      }
+
+      // Signing out is idempotent, so an already-expired token is fine here
+      if (req.method === "DELETE") {
+        if (token) auth.signOut(token);
+        return { status: 204, body: null };
+      }
+    }
+
+    if (req.method === "POST" && path === "/api/criteria") {
+      authenticate(auth, req);
+      const body = await readBody(req);
+      const message = field(body, "message", isString, "Message is required");
+      const previous = field(body, "previous", optional(isSearchCriteria));
+      const model = field(body, "model", optional(isString));
+      return {
+        status: 200,
+        body: {
+          criteria: await extractSearchCriteria(
+            gemini(),
+            message,
+            previous,
+            resolveModel(model),
+          ),
+        },
+      };
+    }
+
+    if (req.method === "POST" && path === "/api/enrich") {
+      authenticate(auth, req);
+      const body = await readBody(req);
+      const places = field(body, "places", optional(arrayOf(isPlace))) ?? [];
+      const criteria = field(body, "criteria", optional(isSearchCriteria));
+      const anchors = field(body, "anchors", optional(arrayOf(isAnchor)));
+      const model = field(body, "model", optional(isString));
+      return {
+        status: 200,
+        body: {
+          places: await enrichPlaces(
+            gemini(),
+            places,
+            criteria,
+            anchors,
+            resolveModel(model),
+          ),
+        },
+      };
+    }
+
+    if (req.method === "POST" && path === "/api/compare") {
+      authenticate(auth, req);
+      const body = await readBody(req);
+      const places = field(body, "places", optional(arrayOf(isPlace))) ?? [];
+      const criteria = field(body, "criteria", optional(isSearchCriteria));
+      const locale = field(body, "locale", optional(isLocale));
+      const model = field(body, "model", optional(isString));
+      return {
+        status: 200,
+        body: {
+          text: await comparePlaces(
+            gemini(),
+            places,
+            criteria,
+            locale,
+            resolveModel(model),
+          ),
+        },
+      };
+    }
+
+    if (req.method === "POST" && path === "/api/place-insight") {
+      authenticate(auth, req);
+      const body = await readBody(req);
+      const place = field(body, "place", isPlace, "place is required");
+      const criteria = field(body, "criteria", optional(isSearchCriteria));
+      const locale = field(body, "locale", optional(isLocale));
+      const model = field(body, "model", optional(isString));
+      return {
+        status: 200,
+        body: {
+          insight: await describePlace(
+            gemini(),
+            place,
+            criteria,
+            locale,
+            resolveModel(model),
+          ),
+        },
+      };
+    }
+
+    if (req.method === "POST" && path === "/api/title") {
+      authenticate(auth, req);
+      const body = await readBody(req);
+      const required = "message and reply are required";
+      const message = field(body, "message", isString, required);
+      const reply = field(body, "reply", isString, required);
+      const locale = field(body, "locale", optional(isLocale));
+      const model = field(body, "model", optional(isString));
+      return {
+        status: 200,
+        body: {
+          title: await suggestTitle(
+            gemini(),
+            message,
+            reply,
+            locale,
+            resolveModel(model),
+          ),
+        },
+      };
+    }
+
+    // Guests can share too, counted by address; the snapshot never records
+    // who shared it
+    if (req.method === "POST" && path === "/api/shares") {
+      const user = authenticate(auth, req);
+      const session = field(
+        await readBody(req),
+        "session",
+        isChatSession,
+        "session is required",
+      );
+      if (JSON.stringify(session).length > MAX_SHARE_LENGTH) {
+        throw new HttpError(413, "This search is too large to share");
+      }
+      const clientId = user
+        ? `user:${user.id}`
+        : `guest:${req.socket.remoteAddress}`;
+      return {
+        status: 201,
+        body: { share: await shares.create(clientId, session) },
+      };
+    }
+
+    // Anyone with the link can read a share, signed in or not
+    const shareMatch = path.match(/^\/api\/shares\/([^/]+)$/);
+    if (shareMatch && req.method === "GET") {
+      const share = await shares.get(decodeURIComponent(shareMatch[1]));
+      if (!share) throw new HttpError(404, "This shared link does not exist");
+      return { status: 200, body: { share } };
+    }
+
+    // Saved searches run on the server, so they need an account to belong to
+    if (path === "/api/saved-searches") {
+      const user = requireUser(auth, req);
+
+      if (req.method === "GET") {
+        return {
+          status: 200,
+          body: { savedSearches: await savedSearches.list(user.id) },
+        };
+      }
+
+      if (req.method === "POST") {
+        const body = await readBody(req);
+        const required = "sessionId and query are required";
+        const sessionId = field(body, "sessionId", isString, required);
+        const query = field(body, "query", isString, required);
+        const title = field(body, "title", optional(isString));
+        const searchArea = field(body, "searchArea", optional(isSearchArea));
+        const searchCriteria = field(
+          body,
+          "searchCriteria",
+          optional(isSearchCriteria),
+        );
+        const model = field(body, "model", optional(isString));
+        const places = field(body, "places", optional(arrayOf(isPlace))) ?? [];
+        const intervalMs = field(body, "intervalMs", optional(isNumber));
+        // Saving a session's search again replaces it rather than doubling up
+        const existing = (await savedSearches.list(user.id)).find(
+          (s) => s.sessionId === sessionId,
+        );
+        const interval = Math.max(
+          MIN_SAVED_SEARCH_INTERVAL_MS,
+          intervalMs ?? 0,
+        );
+        const savedSearch: SavedSearch = {
+          id: existing?.id ?? randomBytes(12).toString("base64url"),
+          sessionId,
+          title: title || "Saved search",
+          query,
+          searchArea,
+          searchCriteria,
+          model: model && resolveModel(model),
+          intervalMs: interval,
+          createdAt: existing?.createdAt ?? now(),
+          nextRunAt: now() + interval,
+          places,
+        };
+        await savedSearches.put(user.id, savedSearch);
+        return { status: 201, body: { savedSearch } };
+      }
+    }
+
+    // Runs whatever is due after moving the fake clock on by `advanceMs`
+    if (
+      fakeClock &&
+      req.method === "POST" &&
+      path === "/api/saved-searches/run"
+    ) {
+      requireUser(auth, req);
+      const advanceMs = field(
+        await readBody(req),
+        "advanceMs",
+        optional(isNumber),
+      );
+      fakeClock.advance(Math.max(0, advanceMs ?? 0));
+      const alerts = await savedSearchJob.runDue();
+      return { status: 200, body: { now: now(), alertsRaised: alerts.length } };
+    }
+
+    const savedMatch = path.match(/^\/api\/saved-searches\/([^/]+)$/);
+    if (savedMatch && req.method === "DELETE") {
+      const user = requireUser(auth, req);
+      await savedSearches.delete(user.id, decodeURIComponent(savedMatch[1]));
+      return { status: 204, body: null };
+    }
+
+    if (path === "/api/alerts" && req.method === "GET") {
+      const user = requireUser(auth, req);
+      return {
+        status: 200,
+        body: { alerts: await savedSearches.listAlerts(user.id) },
+      };
+    }
+
+    if (path === "/api/alerts/read" && req.method === "POST") {
+      const user = requireUser(auth, req);
+      const ids = field(
+        await readBody(req),
+        "ids",
+        arrayOf(isString),
+        "ids are required",
+      );
+      return {
+        status: 200,
+        body: { alerts: await savedSearches.markRead(user.id, ids) },
+      };
+    }
+
+    if (path === "/api/sessions" && req.method === "GET") {
+      const user = requireUser(auth, req);
+      return {
+        status: 200,
+        body: { sessions: await sessions.list(user.id) },
+      };
+    }
+
+    const match = path.match(/^\/api\/sessions\/([^/]+)$/);
+    if (match) {
+      const userId = requireUser(auth, req).id;
+      const id = decodeURIComponent(match[1]);
+
+      if (req.method === "PUT") {
+        const body = await readBody(req);
+        const session = field(body, "session", isChatSession);
+        const baseRevision = field(body, "baseRevision", optional(isNumber));
+        if (session.id !== id) {
+          throw new HttpError(400, "Session id does not match the URL");
+        }
+        const result = await sessions.put(userId, session, baseRevision ?? 0);
+        return "session" in result
+          ? { status: 200, body: { session: result.session } }
+          : { status: 409, body: { latest: result.latest } };
+      }
+
+      if (req.method === "DELETE") {
+        await sessions.delete(userId, id);
+        return { status: 204, body: null };
+      }
+    }
+
+    return null;
+  };
+
+  return (req, res, next) => {
+    const path = (req.url || "").split("?")[0];
+    if (!path.startsWith("/api/")) return next();
+
+    if (req.method === "POST" && path === "/api/chat") {
+      handleChat(req, res).catch((error) => sendError(res, error));
+      return;
+    }
+
+    route(req, path)
+      .then((result) => {
+        if (!result) return sendJson(res, 404, { error: "Not found" });
+        if (result.body === null) {
+          res.statusCode = result.status;
+          return res.end();
+        }
+        sendJson(res, result.status, result.body);
+      })
+      .catch((error) => sendError(res, error));
+  };
+};
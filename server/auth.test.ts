@@ -0,0 +1,353 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { AddressInfo } from "node:net";
+import { Server, createServer } from "node:http";
+import { KeyObject, generateKeyPairSync, sign } from "node:crypto";
+import { HttpError } from "./http";
+import {
+  AuthUser,
+  IdTokenVerifier,
+  createAuthenticator,
+  createGoogleIdTokenVerifier,
+} from "./auth";
+
+const CLIENT_ID = "test-client.apps.googleusercontent.com";
+const ISSUER = "https://accounts.google.com";
+const NOW = Date.UTC(2025, 0, 15);
+
+const newKey = () => generateKeyPairSync("rsa", { modulusLength: 2048 });
+
+const base64url = (value: unknown) =>
+  Buffer.from(JSON.stringify(value)).toString("base64url");
+
+// Signs an RS256 token the way Google does
+const mintToken = (
+  privateKey: KeyObject,
+  claims: Record<string, unknown>,
+  header: Record<string, unknown> = { alg: "RS256", kid: "key-1" },
+) => {
+  const signed = `${base64url(header)}.${base64url(claims)}`;
+  const signature = sign("RSA-SHA256", Buffer.from(signed), privateKey);
+  return `${signed}.${signature.toString("base64url")}`;
+};
+
+const validClaims = (overrides: Record<string, unknown> = {}) => ({
+  iss: ISSUER,
+  aud: CLIENT_ID,
+  sub: "1234567890",
+  email: "khun.somchai@example.com",
+  name: "Somchai",
+  iat: NOW / 1000 - 10,
+  exp: NOW / 1000 + 3600,
+  ...overrides,
+});
+
+describe("createGoogleIdTokenVerifier", () => {
+  const issuerKey = newKey();
+  // A local stand-in for Google's JWKS endpoint
+  let server: Server;
+  let jwksUri: string;
+  let published: { kid: string; publicKey: KeyObject }[];
+  let requests: number;
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      requests++;
+      res.writeHead(200, {
+        "Content-Type": "application/json",
+        "Cache-Control": "public, max-age=600",
+      });
+      res.end(
+        JSON.stringify({
+          keys: published.map(({ kid, publicKey }) => ({
+            ...publicKey.export({ format: "jwk" }),
+            kid,
+            alg: "RS256",
+            use: "sig",
+          })),
+        }),
+      );
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    jwksUri = `http://127.0.0.1:${(server.address() as AddressInfo).port}/certs`;
+  });
+
+  afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+  let time: number;
+  let verifier: IdTokenVerifier;
+
+  beforeEach(() => {
+    published = [{ kid: "key-1", publicKey: issuerKey.publicKey }];
+    requests = 0;
+    time = NOW;
+    verifier = createGoogleIdTokenVerifier({
+      clientId: CLIENT_ID,
+      jwksUri,
+      now: () => time,
+    });
+  });
+
+  const rejection = async (token: string) => {
+    const error = await verifier.verify(token).catch((e) => e);
+    expect(error).toBeInstanceOf(HttpError);
+    return error as HttpError;
+  };
+
+  it("returns the user from a token signed by a published key", async () => {
+    const user = await verifier.verify(
+      mintToken(issuerKey.privateKey, validClaims()),
+    );
+
+    expect(user).toEqual<AuthUser>({
+      id: "1234567890",
+      email: "khun.somchai@example.com",
+      name: "Somchai",
+      picture: undefined,
+    });
+  });
+
+  it("caches the keys for as long as the issuer allows", async () => {
+    const token = mintToken(issuerKey.privateKey, validClaims());
+    await verifier.verify(token);
+    time += 599_000;
+    await verifier.verify(token);
+    expect(requests).toBe(1);
+
+    time += 2000;
+    await verifier.verify(mintToken(issuerKey.privateKey, validClaims()));
+    expect(requests).toBe(2);
+  });
+
+  describe("signature", () => {
+    it("rejects a token signed by another key under a known id", async () => {
+      const error = await rejection(
+        mintToken(newKey().privateKey, validClaims()),
+      );
+
+      expect(error.status).toBe(401);
+      expect(error.message).toBe("Invalid ID token signature");
+    });
+
+    it("rejects a token whose claims were changed after signing", async () => {
+      const [header, , signature] = mintToken(
+        issuerKey.privateKey,
+        validClaims(),
+      ).split(".");
+      const forged = base64url(validClaims({ sub: "someone-else" }));
+
+      const error = await rejection(`${header}.${forged}.${signature}`);
+
+      expect(error.message).toBe("Invalid ID token signature");
+    });
+
+    it("refetches the keys once for an unknown key id", async () => {
+      const rotated = newKey();
+      await verifier.verify(mintToken(issuerKey.privateKey, validClaims()));
+      published.push({ kid: "key-2", publicKey: rotated.publicKey });
+      time += 60_000;
+
+      await verifier.verify(
+        mintToken(rotated.privateKey, validClaims(), {
+          alg: "RS256",
+          kid: "key-2",
+        }),
+      );
+
+      expect(requests).toBe(2);
+    });
+
+    it("rejects a key id the issuer doesn't publish", async () => {
+      const error = await rejection(
+        mintToken(issuerKey.privateKey, validClaims(), {
+          alg: "RS256",
+          kid: "unknown",
+        }),
+      );
+
+      expect(error.message).toBe("ID token signed with an unknown key");
+    });
+
+    it("rejects algorithms other than RS256", async () => {
+      const error = await rejection(
+        mintToken(issuerKey.privateKey, validClaims(), {
+          alg: "none",
+          kid: "key-1",
+        }),
+      );
+
+      expect(error.message).toBe("Unsupported ID token algorithm");
+    });
+
+    it("rejects a token that isn't a JWT", async () => {
+      expect((await rejection("not-a-token")).message).toBe(
+        "Malformed ID token",
+      );
+      expect((await rejection("e30.bnVsbA.c2ln")).message).toBe(
+        "Malformed ID token",
+      );
+    });
+  });
+
+  describe("expiry", () => {
+    it("accepts a token within the allowed clock skew", async () => {
+      time = NOW + 3600_000 + 30_000;
+
+      await expect(
+        verifier.verify(mintToken(issuerKey.privateKey, validClaims())),
+      ).resolves.toMatchObject({ id: "1234567890" });
+    });
+
+    it("rejects an expired token", async () => {
+      time = NOW + 3600_000 + 61_000;
+
+      const error = await rejection(
+        mintToken(issuerKey.privateKey, validClaims()),
+      );
+
+      expect(error.message).toBe("ID token has expired");
+    });
+
+    it("rejects a token without an expiry", async () => {
+      const error = await rejection(
+        mintToken(issuerKey.privateKey, validClaims({ exp: undefined })),
+      );
+
+      expect(error.message).toBe("ID token has expired");
+    });
+
+    it("rejects a token issued in the future", async () => {
+      const error = await rejection(
+        mintToken(issuerKey.privateKey, validClaims({ iat: NOW / 1000 + 600 })),
+      );
+
+      expect(error.message).toBe("ID token is not valid yet");
+    });
+  });
+
+  describe("audience", () => {
+    it("rejects a token issued for another client", async () => {
+      const error = await rejection(
+        mintToken(
+          issuerKey.privateKey,
+          validClaims({ aud: "other.apps.googleusercontent.com" }),
+        ),
+      );
+
+      expect(error.message).toBe("ID token was issued for another client");
+    });
+
+    it("rejects a token with a list of audiences", async () => {
+      const error = await rejection(
+        mintToken(issuerKey.privateKey, validClaims({ aud: [CLIENT_ID] })),
+      );
+
+      expect(error.message).toBe("ID token was issued for another client");
+    });
+  });
+
+  describe("issuer", () => {
+    it("accepts Google's issuer without a scheme", async () => {
+      await expect(
+        verifier.verify(
+          mintToken(
+            issuerKey.privateKey,
+            validClaims({ iss: "accounts.google.com" }),
+          ),
+        ),
+      ).resolves.toMatchObject({ id: "1234567890" });
+    });
+
+    it("rejects a token from another issuer", async () => {
+      const error = await rejection(
+        mintToken(
+          issuerKey.privateKey,
+          validClaims({ iss: "https://login.example.com" }),
+        ),
+      );
+
+      expect(error.message).toBe("ID token has an unexpected issuer");
+    });
+
+    it("answers 503 when the issuer's keys can't be fetched", async () => {
+      const offline = createGoogleIdTokenVerifier({
+        clientId: CLIENT_ID,
+        jwksUri: "http://127.0.0.1:1/certs",
+      });
+
+      const error = await offline
+        .verify(mintToken(issuerKey.privateKey, validClaims()))
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(HttpError);
+      expect(error.status).toBe(503);
+    });
+  });
+
+  it("rejects a token without a subject", async () => {
+    const error = await rejection(
+      mintToken(issuerKey.privateKey, validClaims({ sub: "" })),
+    );
+
+    expect(error.message).toBe("ID token has no subject");
+  });
+
+  it("leaves out profile claims that aren't strings", async () => {
+    const user = await verifier.verify(
+      mintToken(issuerKey.privateKey, validClaims({ name: { first: "S" } })),
+    );
+
+    expect(user.name).toBeUndefined();
+  });
+});
+
+describe("createAuthenticator", () => {
+  const TTL_MS = 1000;
+  const user: AuthUser = { id: "user-1" };
+  const verifier: IdTokenVerifier = { verify: async () => user };
+  let time: number;
+
+  beforeEach(() => {
+    time = NOW;
+  });
+
+  const authenticator = () =>
+    createAuthenticator(verifier, { ttlMs: TTL_MS, now: () => time });
+
+  it("resolves a session until it expires", async () => {
+    const auth = authenticator();
+    const { token } = await auth.signIn("id-token");
+
+    expect(auth.resolve(token)?.user).toBe(user);
+    time += TTL_MS;
+    expect(auth.resolve(token)).toBeUndefined();
+  });
+
+  it("slides a session forward once half its lifetime has passed", async () => {
+    const auth = authenticator();
+    const { token } = await auth.signIn("id-token");
+
+    time += 600;
+    expect(auth.resolve(token)?.expiresAt).toBe(time + TTL_MS);
+    time += 900;
+    expect(auth.resolve(token)).toBeDefined();
+  });
+
+  it("ends a session on sign-out", async () => {
+    const auth = authenticator();
+    const { token } = await auth.signIn("id-token");
+
+    auth.signOut(token);
+
+    expect(auth.resolve(token)).toBeUndefined();
+  });
+
+  it("doesn't sign in when the ID token is rejected", async () => {
+    const auth = createAuthenticator({
+      verify: async () => {
+        throw new HttpError(401, "Invalid ID token signature");
+      },
+    });
+
+    await expect(auth.signIn("forged")).rejects.toMatchObject({ status: 401 });
+  });
+});
@@ -0,0 +1,258 @@
+import { IncomingMessage } from "node:http";
+import {
+  JsonWebKey,
+  KeyObject,
+  createPublicKey,
+  randomBytes,
+  verify,
+} from "node:crypto";
+import { HttpError } from "./http";
+import { isObject, isString } from "./validate";
+
+// The OAuth client the Sign-In button is registered under; tokens minted for
+// any other client are rejected
+export const DEFAULT_GOOGLE_CLIENT_ID =
+  "727392686189-u3558g67u60et872hll962g557j03s72.apps.googleusercontent.com";
+
+const GOOGLE_JWKS_URI = "https://www.googleapis.com/oauth2/v3/certs";
+const GOOGLE_ISSUERS = ["accounts.google.com", "https://accounts.google.com"];
+
+// Tolerated difference between our clock and the issuer's
+const CLOCK_SKEW_SECONDS = 60;
+// An unknown key id triggers a JWKS refetch at most this often
+const MIN_JWKS_REFETCH_MS = 60_000;
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface AuthUser {
+  id: string;
+  email?: string;
+  name?: string;
+  picture?: string;
+}
+
+// --- ID tokens ---
+
+export interface IdTokenVerifier {
+  verify(idToken: string): Promise<AuthUser>;
+}
+
+export interface GoogleVerifierOptions {
+  clientId: string;
+  // Overridable so a local fake issuer can stand in for Google
+  jwksUri?: string;
+  issuers?: string[];
+  now?: () => number;
+}
+
+const decodeSegment = (segment: string): unknown =>
+  JSON.parse(Buffer.from(segment, "base64url").toString("utf8"));
+
+const optionalString = (value: unknown) =>
+  isString(value) ? value : undefined;
+
+// Checks an RS256 ID token locally: signature against the issuer's published
+// keys (cached for as long as its Cache-Control allows), issuer, audience and
+// expiry.
+export const createGoogleIdTokenVerifier = ({
+  clientId,
+  jwksUri = GOOGLE_JWKS_URI,
+  issuers = GOOGLE_ISSUERS,
+  now = Date.now,
+}: GoogleVerifierOptions): IdTokenVerifier => {
+  let keys = new Map<string, KeyObject>();
+  let keysExpireAt = 0;
+  let fetchedAt = -Infinity;
+  let pending: Promise<void> | null = null;
+
+  const fetchKeys = () => {
+    pending ??= (async () => {
+      const res = await fetch(jwksUri).catch(() => null);
+      if (!res?.ok) {
+        throw new HttpError(503, "Could not reach the sign-in provider");
+      }
+      const jwks: { keys: (JsonWebKey & { kid: string })[] } = await res.json();
+      keys = new Map(
+        jwks.keys.map((jwk) => [
+          jwk.kid,
+          createPublicKey({ key: jwk, format: "jwk" }),
+        ]),
+      );
+      const maxAge = /max-age=(\d+)/.exec(
+        res.headers.get("cache-control") || "",
+      );
+      fetchedAt = now();
+      keysExpireAt =
+        fetchedAt + (maxAge ? Number(maxAge[1]) * 1000 : 3_600_000);
+    })().finally(() => {
+      pending = null;
+    });
+    return pending;
+  };
+
+  const keyFor = async (kid: string) => {
+    // Keys rotate, so an unknown id may just mean our copy is stale
+    const isStale =
+      now() >= keysExpireAt ||
+      (!keys.has(kid) && now() - fetchedAt >= MIN_JWKS_REFETCH_MS);
+    if (isStale) await fetchKeys();
+    const key = keys.get(kid);
+    if (!key) throw new HttpError(401, "ID token signed with an unknown key");
+    return key;
+  };
+
+  return {
+    async verify(idToken) {
+      const parts = idToken.split(".");
+      if (parts.length !== 3) throw new HttpError(401, "Malformed ID token");
+      const [headerPart, payloadPart, signaturePart] = parts;
+
+      let header: unknown;
+      let claims: unknown;
+      try {
+        header = decodeSegment(headerPart);
+        claims = decodeSegment(payloadPart);
+      } catch (e) {
+        throw new HttpError(401, "Malformed ID token");
+      }
+      if (!isObject(header) || !isObject(claims)) {
+        throw new HttpError(401, "Malformed ID token");
+      }
+      if (header.alg !== "RS256" || typeof header.kid !== "string") {
+        throw new HttpError(401, "Unsupported ID token algorithm");
+      }
+
+      const isSigned = verify(
+        "RSA-SHA256",
+        Buffer.from(`${headerPart}.${payloadPart}`),
+        await keyFor(header.kid),
+        Buffer.from(signaturePart, "base64url"),
+      );
+      if (!isSigned) throw new HttpError(401, "Invalid ID token signature");
+
+      const nowSeconds = now() / 1000;
+      if (typeof claims.iss !== "string" || !issuers.includes(claims.iss)) {
+        throw new HttpError(401, "ID token has an unexpected issuer");
+      }
+      if (claims.aud !== clientId) {
+        throw new HttpError(401, "ID token was issued for another client");
+      }
+      if (
+        typeof claims.exp !== "number" ||
+        claims.exp + CLOCK_SKEW_SECONDS < nowSeconds
+      ) {
+        throw new HttpError(401, "ID token has expired");
+      }
+      if (
+        typeof claims.iat === "number" &&
+        claims.iat - CLOCK_SKEW_SECONDS > nowSeconds
+      ) {
+        throw new HttpError(401, "ID token is not valid yet");
+      }
+      if (typeof claims.sub !== "string" || !claims.sub) {
+        throw new HttpError(401, "ID token has no subject");
+      }
+
+      return {
+        id: claims.sub,
+        email: optionalString(claims.email),
+        name: optionalString(claims.name),
+        picture: optionalString(claims.picture),
+      };
+    },
+  };
+};
+
+// --- API sessions ---
+
+export interface AuthSession {
+  token: string;
+  user: AuthUser;
+  expiresAt: number;
+}
+
+// Google ID tokens only live for an hour, so signing in exchanges one for our
+// own opaque session token. Sessions slide forward while in use and end on
+// sign-out.
+export interface Authenticator {
+  signIn(idToken: string): Promise<AuthSession>;
+  resolve(token: string): AuthSession | undefined;
+  signOut(token: string): void;
+}
+
+interface AuthenticatorOptions {
+  ttlMs?: number;
+  now?: () => number;
+}
+
+// Sessions are kept in process memory, so a restart signs everyone out.
+// Expired ones are swept on every sign-in, so tokens that are never used again
+// don't pile up.
+export const createAuthenticator = (
+  verifier: IdTokenVerifier,
+  { ttlMs = SESSION_TTL_MS, now = Date.now }: AuthenticatorOptions = {},
+): Authenticator => {
+  const sessions = new Map<string, AuthSession>();
+
+  const sweep = () => {
+    const time = now();
+    sessions.forEach((session, token) => {
+      if (session.expiresAt <= time) sessions.delete(token);
+    });
+  };
+
+  return {
+    async signIn(idToken) {
+      const session: AuthSession = {
+        token: randomBytes(32).toString("base64url"),
+        user: await verifier.verify(idToken),
+        expiresAt: now() + ttlMs,
+      };
+      sweep();
+      sessions.set(session.token, session);
+      return session;
+    },
+
+    resolve(token) {
+      const session = sessions.get(token);
+      if (!session) return undefined;
+      if (session.expiresAt <= now()) {
+        sessions.delete(token);
+        return undefined;
+      }
+      if (session.expiresAt - now() < ttlMs / 2) {
+        session.expiresAt = now() + ttlMs;
+      }
+      return session;
+    },
+
+    signOut(token) {
+      sessions.delete(token);
+    },
+  };
+};
+
+export const bearerToken = (req: IncomingMessage) => {
+  const header = req.headers.authorization || "";
+  return header.startsWith("Bearer ") ? header.slice(7) : null;
+};
+
+// Signed-in callers must present a live session token; guests send none
+export const authenticate = (
+  auth: Authenticator,
+  req: IncomingMessage,
+): AuthUser | null => {
+  const token = bearerToken(req);
+  if (!token) return null;
+  const session = auth.resolve(token);
+  if (!session) throw new HttpError(401, "Session expired");
+  return session.user;
+};
+
+export const requireUser = (
+  auth: Authenticator,
+  req: IncomingMessage,
+): AuthUser => {
+  const user = authenticate(auth, req);
+  if (!user) throw new HttpError(401, "Sign in required");
+  return user;
+};
@@ -0,0 +1,514 @@
+import { GoogleGenAI, ApiError, Content, FinishReason, Type } from "@google/genai";
+import { GroundingChunk, PlaceData, PlaceInsight, SearchArea, SearchCriteria, ListingField, Anchor, ChatTurn, SearchContext, StreamChunk, Locale } from "../types";
+import { describeCriteria, hasCriteria } from "../services/searchCriteria";
+import { describeCommuteContext } from "../services/commute";
+import { DEFAULT_MODEL } from "../services/conciergeModels";
+import { describePlaceSummaries } from "../services/placeReferences";
+import { ConciergeError } from "../services/conciergeErrors";
+import { DEFAULT_LOCALE, replyLanguageInstruction } from "../services/i18n";
+
+// Everything here runs on the server, which owns the API key. Each call gets the
+// client and, for chat, the conversation so far, so no per-user state lives here.
+export const createGeminiClient = (apiKey: string) => new GoogleGenAI({ apiKey });
+
+const SYSTEM_INSTRUCTION = `You are Royce, an elite Real Estate and Lifestyle Concierge.
+Your mission is to assist users in discovering the perfect condominiums, apartments, or hotels tailored to their specific lifestyle and needs.
+
+RULES:
+1. You MUST use the 'googleMaps' tool to find real-world locations that match the user's criteria.
+2. When a user specifies a budget (e.g., "20000 THB"), try to find places that likely fit that category or politely explain you are showing the best matches in the area.
+3. Provide a sophisticated, concise summary of *why* you selected these properties.
+4. If the user asks for "apartments" or "condos", look for residential buildings or serviced apartments.
+5. If the user asks for "hotels", look for hotels.
+6. Always include the location context (e.g., "located near the BTS", "in the heart of Siam").
+7. Tone: Professional, polite, knowledgeable, and slightly upscale (like a high-end concierge).
+
+When you return places, the UI will display them as cards with a SATELLITE MAP VIEW of the location. 
+Ensure the places you find are specific buildings or hotels so the map pin is accurate.`;
+
+// Royce's instructions plus, for users who chose another language, a rule to
+// reply in it
+const systemInstructionFor = (locale: Locale = DEFAULT_LOCALE) =>
+  [SYSTEM_INSTRUCTION, replyLanguageInstruction(locale)].filter(Boolean).join('\n\n');
+
+// Recreates the conversation from the turns the client sends with every message.
+// Replies keep a note of the places they showed, so "the second one" or "#2"
+// still means the same building after a reload.
+const createChat = (ai: GoogleGenAI, history: ChatTurn[], model: string, locale?: Locale) => {
+  const validHistory: Content[] = history.map(turn => ({
+    role: turn.role,
+    parts: [{ text: turn.places?.length ? `${turn.text}\n\n[Places shown: ${describePlaceSummaries(turn.places)}]` : turn.text }]
+  }));
+
+  return ai.chats.create({
+    model,
+    config: {
+      systemInstruction: systemInstructionFor(locale),
+      tools: [{ googleMaps: {} }],
+    },
+    history: validHistory
+  });
+};
+
+// Biases Google Maps grounding towards the chosen coordinates, if any
+const buildRequestConfig = (searchArea?: SearchArea) =>
+  searchArea?.location
+    ? {
+        toolConfig: {
+          retrievalConfig: {
+            latLng: {
+              latitude: searchArea.location.latitude,
+              longitude: searchArea.location.longitude,
+            },
+          },
+        },
+      }
+    : {};
+
+// A typed neighbourhood has no coordinates, so it is passed to Royce as context,
+// together with the structured criteria and commute anchors the user has set
+const withSearchContext = (message: string, search: SearchContext) => {
+  const { searchArea, criteria, anchors = [], commuteFilter = null, references = [] } = search;
+  const context: string[] = [];
+  if (references.length > 0) {
+    context.push(`(The user is referring to: ${describePlaceSummaries(references)})`);
+  }
+  if (searchArea?.mode === 'neighbourhood' && searchArea.label) {
+    context.push(`(Search area: ${searchArea.label})`);
+  }
+  if (criteria && hasCriteria(criteria)) {
+    context.push(`(Search criteria: ${describeCriteria(criteria)})`);
+  }
+  if (anchors.length > 0) {
+    context.push(`(${describeCommuteContext(anchors, commuteFilter)})`);
+  }
+  return context.length > 0 ? `${message}\n\n${context.join('\n')}` : message;
+};
+
+// Converts Maps grounding chunks into de-duplicated place cards
+const extractPlaces = (chunks: GroundingChunk[] | undefined): PlaceData[] => {
+  const places: PlaceData[] = [];
+
+  if (chunks) {
+    chunks.forEach((chunk) => {
+      if (chunk.maps) {
+        const mapData = chunk.maps;
+        const uri = mapData.uri || mapData.googleMapsUri || "";
+        if (mapData.title && uri) {
+           // Extract a snippet if available
+           const snippet = mapData.placeAnswerSources?.reviewSnippets?.[0]?.content;
+
+           places.push({
+             title: mapData.title,
+             uri: uri,
+             placeId: mapData.placeId,
+             description: snippet,
+             address: mapData.address 
+           });
+        }
+      }
+    });
+  }
+
+  // Filter duplicates based on title
+  return places.filter((v, i, a) => a.findIndex(t => (t.title === v.title)) === i);
+};
+
+// Reasons a candidate stops because of content policy rather than length
+const BLOCKED_FINISH_REASONS: (FinishReason | undefined)[] = [
+  FinishReason.SAFETY,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.BLOCKLIST,
+  FinishReason.SPII,
+];
+
+// How long Gemini asks us to back off, from the RetryInfo detail of a 429,
+// e.g. "retryDelay": "37s"
+const retryDelayMs = (message: string) => {
+  const match = /"retryDelay":\s*"(\d+(?:\.\d+)?)s"/.exec(message);
+  return match ? Math.ceil(Number(match[1]) * 1000) : undefined;
+};
+
+// What a failed Gemini call means for the user, or null if the error did not
+// come from Gemini. A rejected API key is ours to fix, so it reads as unavailable.
+export const classifyGeminiError = (error: unknown): ConciergeError | null => {
+  if (error instanceof ConciergeError) return error;
+  if (!(error instanceof ApiError)) return null;
+  if (error.status === 429) return new ConciergeError('rate-limited', undefined, retryDelayMs(error.message));
+  if (error.status === 400 && /safety|blocked/i.test(error.message)) return new ConciergeError('blocked');
+  return new ConciergeError('unavailable');
+};
+
+// Streams Royce's reply. Each yielded chunk carries the full text received so far
+// and the places from the latest grounding metadata (empty until it arrives).
+// Errors are thrown to the caller, as a ConciergeError when the prompt was blocked
+// or nothing came back; aborting the signal ends the iteration quietly.
+export async function* streamChat(
+  ai: GoogleGenAI,
+  history: ChatTurn[],
+  message: string,
+  search: SearchContext = {},
+  signal?: AbortSignal,
+  model = DEFAULT_MODEL
+): AsyncGenerator<StreamChunk> {
+  const chat = createChat(ai, history, model, search.locale);
+
+  let text = "";
+  let places: PlaceData[] = [];
+
+  const stream = await chat.sendMessageStream({
+    message: withSearchContext(message, search),
+    config: { ...buildRequestConfig(search.searchArea), abortSignal: signal },
+  });
+
+  for await (const chunk of stream) {
+    if (signal?.aborted) return;
+
+    if (chunk.promptFeedback?.blockReason || BLOCKED_FINISH_REASONS.includes(chunk.candidates?.[0]?.finishReason)) {
+      throw new ConciergeError('blocked');
+    }
+
+    text += chunk.text || "";
+    const chunks = chunk.candidates?.[0]?.groundingMetadata?.groundingChunks as GroundingChunk[] | undefined;
+    if (chunks) {
+      places = extractPlaces(chunks);
+    }
+
+    yield { text, places };
+  }
+
+  if (!text && places.length === 0) {
+    throw new ConciergeError('no-results');
+  }
+  if (!text) {
+    yield { text: "I've curated a list of properties for you:", places };
+  }
+}
+
+const CRITERIA_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    budgetMin: { type: Type.NUMBER, description: "Minimum monthly rent or nightly rate." },
+    budgetMax: { type: Type.NUMBER, description: "Maximum monthly rent or nightly rate." },
+    currency: { type: Type.STRING, description: "ISO 4217 currency code, e.g. THB." },
+    bedrooms: { type: Type.INTEGER, description: "Number of bedrooms; 0 for a studio." },
+    propertyType: { type: Type.STRING, enum: ["condo", "apartment", "hotel"] },
+    maxTransitDistanceMeters: { type: Type.INTEGER, description: "Maximum walking distance to a BTS/MRT station in meters." },
+    petsAllowed: { type: Type.BOOLEAN },
+    furnished: { type: Type.BOOLEAN },
+  },
+};
+
+interface ExtractedCriteria {
+  budgetMin?: number;
+  budgetMax?: number;
+  currency?: string;
+  bedrooms?: number;
+  propertyType?: SearchCriteria['propertyType'];
+  maxTransitDistanceMeters?: number;
+  petsAllowed?: boolean;
+  furnished?: boolean;
+}
+
+// Reads the user's turn into structured criteria. The previous criteria are carried
+// over unless the message changes or drops them; on failure they are returned as-is.
+export const extractSearchCriteria = async (
+  ai: GoogleGenAI,
+  message: string,
+  previous: SearchCriteria = {},
+  model = DEFAULT_MODEL
+): Promise<SearchCriteria> => {
+  try {
+    const result = await ai.models.generateContent({
+      model,
+      contents: `Current search criteria (JSON): ${JSON.stringify(previous)}
+
+User message: "${message}"
+
+Return the complete, updated search criteria for a property search. Keep every current value the message does not change or explicitly remove. Only include fields the user has actually expressed. Assume THB when a budget has no currency and the search is in Thailand.`,
+      config: {
+        responseMimeType: 'application/json',
+        responseSchema: CRITERIA_SCHEMA,
+      },
+    });
+
+    const extracted: ExtractedCriteria = JSON.parse(result.text || '{}');
+    const criteria: SearchCriteria = {};
+
+    if (extracted.budgetMin !== undefined || extracted.budgetMax !== undefined) {
+      criteria.budget = {
+        min: extracted.budgetMin,
+        max: extracted.budgetMax,
+        currency: (extracted.currency || previous.budget?.currency || 'THB').toUpperCase(),
+      };
+    }
+    if (extracted.bedrooms !== undefined) criteria.bedrooms = extracted.bedrooms;
+    if (extracted.propertyType) criteria.propertyType = extracted.propertyType;
+    if (extracted.maxTransitDistanceMeters !== undefined) {
+      criteria.maxTransitDistanceMeters = extracted.maxTransitDistanceMeters;
+    }
+    if (extracted.petsAllowed !== undefined) criteria.petsAllowed = extracted.petsAllowed;
+    if (extracted.furnished !== undefined) criteria.furnished = extracted.furnished;
+
+    return criteria;
+
+  } catch (error) {
+    console.error("Criteria extraction error:", error);
+    return previous;
+  }
+};
+
+const LISTING_FIELDS: ListingField[] = ['priceRange', 'unitTypes', 'rating', 'reviewCount', 'nearestTransit', 'amenities', 'commutes'];
+
+const LISTING_SCHEMA = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      index: { type: Type.INTEGER, description: "The number of the place in the list you were given." },
+      priceMin: { type: Type.NUMBER, description: "Typical lowest monthly rent, or nightly rate for hotels." },
+      priceMax: { type: Type.NUMBER, description: "Typical highest monthly rent, or nightly rate for hotels." },
+      currency: { type: Type.STRING, description: "ISO 4217 currency code." },
+      pricePeriod: { type: Type.STRING, enum: ["month", "night"] },
+      unitTypes: { type: Type.ARRAY, items: { type: Type.STRING }, description: "e.g. Studio, 1 Bedroom, 2 Bedroom." },
+      rating: { type: Type.NUMBER, description: "Average Google rating from 1 to 5." },
+      reviewCount: { type: Type.INTEGER },
+      transitStation: { type: Type.STRING, description: "Nearest BTS/MRT/ARL station name." },
+      transitLine: { type: Type.STRING },
+      transitWalkMinutes: { type: Type.INTEGER },
+      amenities: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Up to 6 notable building amenities." },
+      commutes: {
+        type: Type.ARRAY,
+        description: "Door-to-door travel time to each of the user's anchor locations.",
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            anchor: { type: Type.STRING, description: "The anchor label, e.g. A1." },
+            transitMinutes: { type: Type.INTEGER },
+            walkMinutes: { type: Type.INTEGER },
+            driveMinutes: { type: Type.INTEGER },
+          },
+          required: ["anchor"],
+        },
+      },
+      estimatedFields: {
+        type: Type.ARRAY,
+        items: { type: Type.STRING, enum: LISTING_FIELDS },
+        description: "Fields whose value you inferred or approximated rather than know from a reliable source.",
+      },
+    },
+    required: ["index"],
+  },
+};
+
+interface ExtractedListing {
+  index: number;
+  priceMin?: number;
+  priceMax?: number;
+  currency?: string;
+  pricePeriod?: 'month' | 'night';
+  unitTypes?: string[];
+  rating?: number;
+  reviewCount?: number;
+  transitStation?: string;
+  transitLine?: string;
+  transitWalkMinutes?: number;
+  amenities?: string[];
+  commutes?: {
+    anchor: string;
+    transitMinutes?: number;
+    walkMinutes?: number;
+    driveMinutes?: number;
+  }[];
+  estimatedFields?: ListingField[];
+}
+
+// Follow-up call that fills in listing details for the grounded places, including
+// travel times to the user's anchors. Places are matched back by their position;
+// anything the model leaves out stays unset, and on failure the places are
+// returned unchanged.
+export const enrichPlaces = async (
+  ai: GoogleGenAI,
+  places: PlaceData[],
+  criteria?: SearchCriteria,
+  anchors: Anchor[] = [],
+  model = DEFAULT_MODEL
+): Promise<PlaceData[]> => {
+  if (places.length === 0) return places;
+
+  const anchorList = anchors.map((a, i) => `A${i + 1}. ${a.name} — ${a.address}`).join('\n');
+
+  const placeList = places
+    .map((p, i) => `${i + 1}. ${p.title}${p.address ? ` — ${p.address}` : ''}${p.placeId ? ` (placeId: ${p.placeId})` : ''}`)
+    .join('\n');
+
+  try {
+    const result = await ai.models.generateContent({
+      model,
+      contents: `You are a real estate data analyst. For each property below, provide listing details.
+${criteria && hasCriteria(criteria) ? `The renter is looking for: ${describeCriteria(criteria)}.\n` : ''}
+${placeList}
+${anchors.length > 0 ? `\nEstimate typical weekday travel times from each property to these anchor locations:\n${anchorList}\n` : ''}
+Omit any field you have no reasonable basis for. List every field you estimated in estimatedFields.`,
+      config: {
+        responseMimeType: 'application/json',
+        responseSchema: LISTING_SCHEMA,
+      },
+    });
+
+    const listings: ExtractedListing[] = JSON.parse(result.text || '[]');
+
+    return places.map((place, i) => {
+      const listing = listings.find(l => l.index === i + 1);
+      if (!listing) return place;
+
+      const enriched: PlaceData = { ...place };
+      if (listing.priceMin !== undefined || listing.priceMax !== undefined) {
+        enriched.priceRange = {
+          min: listing.priceMin,
+          max: listing.priceMax,
+          currency: (listing.currency || criteria?.budget?.currency || 'THB').toUpperCase(),
+          period: listing.pricePeriod || 'month',
+        };
+      }
+      if (listing.unitTypes?.length) enriched.unitTypes = listing.unitTypes;
+      if (listing.rating !== undefined) enriched.rating = listing.rating;
+      if (listing.reviewCount !== undefined) enriched.reviewCount = listing.reviewCount;
+      if (listing.transitStation) {
+        enriched.nearestTransit = {
+          station: listing.transitStation,
+          line: listing.transitLine,
+          walkingMinutes: listing.transitWalkMinutes,
+        };
+      }
+      if (listing.amenities?.length) enriched.amenities = listing.amenities;
+      if (listing.commutes?.length) {
+        enriched.commutes = listing.commutes.flatMap(c => {
+          const anchor = anchors[parseInt(c.anchor.replace(/\D/g, ''), 10) - 1];
+          return anchor
+            ? [{ anchorId: anchor.id, transitMinutes: c.transitMinutes, walkMinutes: c.walkMinutes, driveMinutes: c.driveMinutes }]
+            : [];
+        });
+      }
+      enriched.estimatedFields = (listing.estimatedFields || []).filter(f => LISTING_FIELDS.includes(f));
+
+      return enriched;
+    });
+
+  } catch (error) {
+    console.error("Place enrichment error:", error);
+    return places;
+  }
+};
+
+// Describes a place with whatever listing details we have, for one-off prompts
+const describePlaceForPrompt = (place: PlaceData, index: number) => {
+  const lines = [`${index + 1}. ${place.title}`];
+  if (place.address) lines.push(`   Address: ${place.address}`);
+  if (place.placeId) lines.push(`   Place ID: ${place.placeId}`);
+  if (place.priceRange) {
+    const { min, max, currency, period } = place.priceRange;
+    lines.push(`   Price: ${min ?? '?'}-${max ?? '?'} ${currency} per ${period}`);
+  }
+  if (place.nearestTransit) {
+    lines.push(`   Nearest transit: ${place.nearestTransit.station}${place.nearestTransit.walkingMinutes !== undefined ? ` (${place.nearestTransit.walkingMinutes} min walk)` : ''}`);
+  }
+  if (place.rating !== undefined) lines.push(`   Rating: ${place.rating}${place.reviewCount !== undefined ? ` from ${place.reviewCount} reviews` : ''}`);
+  if (place.amenities?.length) lines.push(`   Amenities: ${place.amenities.join(', ')}`);
+  return lines.join('\n');
+};
+
+// One-off comparison outside the chat history, so it never derails the conversation
+export const comparePlaces = async (
+  ai: GoogleGenAI,
+  places: PlaceData[],
+  criteria?: SearchCriteria,
+  locale?: Locale,
+  model = DEFAULT_MODEL
+): Promise<string> => {
+  const result = await ai.models.generateContent({
+    model,
+    contents: `Compare the following properties side by side for a prospective renter.
+${criteria && hasCriteria(criteria) ? `The renter is looking for: ${describeCriteria(criteria)}.\n` : ''}
+${places.map(describePlaceForPrompt).join('\n')}
+
+Structure your answer in Markdown as:
+- **Verdict**: which property you recommend and why, in two sentences.
+- One short bullet per property covering its main strength and main drawback.
+- **Best for**: who each property suits (e.g. commuters, families, short stays).`,
+    config: {
+      systemInstruction: systemInstructionFor(locale),
+      tools: [{ googleMaps: {} }],
+    },
+  });
+
+  return result.text || "I was unable to form a clear comparison for these properties.";
+};
+
+const INSIGHT_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    summary: { type: Type.STRING, description: "Two or three sentences on what living here is like." },
+    pros: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Up to 5 short strengths." },
+    cons: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Up to 5 short drawbacks." },
+    typicalRent: { type: Type.STRING, description: "Typical rents by unit type, or nightly rates for hotels, with currency." },
+    neighbourhood: { type: Type.STRING, description: "Two sentences on the surrounding neighbourhood." },
+    nearbyAmenities: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Up to 6 notable places within walking distance: malls, markets, parks, hospitals, schools." },
+    reviewThemes: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Up to 5 recurring themes in resident or guest reviews." },
+  },
+  required: ['summary', 'pros', 'cons', 'nearbyAmenities', 'reviewThemes'],
+};
+
+// A deep-dive on one building for the detail drawer, outside the chat history
+export const describePlace = async (
+  ai: GoogleGenAI,
+  place: PlaceData,
+  criteria?: SearchCriteria,
+  locale: Locale = DEFAULT_LOCALE,
+  model = DEFAULT_MODEL
+): Promise<PlaceInsight> => {
+  const result = await ai.models.generateContent({
+    model,
+    contents: `You are a real estate analyst briefing a prospective renter on a single property.
+${criteria && hasCriteria(criteria) ? `The renter is looking for: ${describeCriteria(criteria)}.\n` : ''}
+${describePlaceForPrompt(place, 0)}
+
+Be specific to this building and its street; say so plainly where you are unsure rather than guessing.
+${replyLanguageInstruction(locale)}`,
+    config: {
+      responseMimeType: 'application/json',
+      responseSchema: INSIGHT_SCHEMA,
+    },
+  });
+
+  const insight: Partial<PlaceInsight> = JSON.parse(result.text || '{}');
+  return {
+    summary: insight.summary || '',
+    pros: insight.pros || [],
+    cons: insight.cons || [],
+    typicalRent: insight.typicalRent || undefined,
+    neighbourhood: insight.neighbourhood || undefined,
+    nearbyAmenities: insight.nearbyAmenities || [],
+    reviewThemes: insight.reviewThemes || [],
+  };
+};
+
+// Names a session after its first exchange, e.g. "1-bed condos near Thong Lo"
+export const suggestTitle = async (
+  ai: GoogleGenAI,
+  message: string,
+  reply: string,
+  locale: Locale = DEFAULT_LOCALE,
+  model = DEFAULT_MODEL
+): Promise<string> => {
+  const result = await ai.models.generateContent({
+    model,
+    contents: `Write a title of at most six words for this property search, naming the property type and area where known. Reply with the title only, without quotes or a trailing full stop.
+${replyLanguageInstruction(locale)}
+
+User: ${message}
+
+Concierge: ${reply.slice(0, 1500)}`,
+  });
+  return (result.text || '').trim().replace(/^["']|["'.]$/g, '').slice(0, 60);
+};
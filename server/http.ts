@@ -0,0 +1,49 @@
+import { IncomingMessage, ServerResponse } from "node:http";
+
+// Connect-style handler so the same routes run as Vite middleware in
+// development and inside the standalone server in production
+export type Handler = (
+  req: IncomingMessage,
+  res: ServerResponse,
+  next: () => void,
+) => void;
+
+export class HttpError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+export const sendJson = (
+  res: ServerResponse,
+  status: number,
+  body: unknown,
+) => {
+  res.statusCode = status;
+  res.setHeader("Content-Type", "application/json");
+  res.end(JSON.stringify(body));
+};
+
+export const readJson = (req: IncomingMessage): Promise<unknown> =>
+  new Promise((resolve, reject) => {
+    let body = "";
+    req.setEncoding("utf8");
+    req.on("data", (chunk) => {
+      body += chunk;
+      if (body.length > 5_000_000) {
+        reject(new HttpError(413, "Request body too large"));
+        req.destroy();
+      }
+    });
+    req.on("end", () => {
+      try {
+        resolve(body ? JSON.parse(body) : {});
+      } catch (e) {
+        reject(new HttpError(400, "Invalid JSON body"));
+      }
+    });
+    req.on("error", reject);
+  });
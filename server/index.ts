@@ -0,0 +1,109 @@
+import { createServer } from "node:http";
+import { createReadStream, existsSync, statSync } from "node:fs";
+import path from "node:path";
+import { createApiHandler } from "./api";
+import {
+  DEFAULT_GOOGLE_CLIENT_ID,
+  createAuthenticator,
+  createGoogleIdTokenVerifier,
+} from "./auth";
+import { createGeminiClient } from "./gemini";
+import { MemorySessionStore } from "./sessionStore";
+import { MemoryShareStore } from "./shareStore";
+import { MemorySavedSearchStore } from "./savedSearchStore";
+import {
+  createFakeClock,
+  createPlaceSearch,
+  createSavedSearchJob,
+} from "./savedSearchJob";
+
+const PORT = Number(process.env.PORT || 8787);
+const DIST_DIR = path.resolve(process.env.DIST_DIR || "dist");
+
+const MIME_TYPES: Record<string, string> = {
+  ".html": "text/html; charset=utf-8",
+  ".js": "text/javascript",
+  ".css": "text/css",
+  ".json": "application/json",
+  ".svg": "image/svg+xml",
+  ".png": "image/png",
+  ".ico": "image/x-icon",
+};
+
+// The mock concierge replays fixtures, so only Gemini needs a key
+const conciergeProvider = process.env.CONCIERGE_PROVIDER;
+if (conciergeProvider !== "mock" && !process.env.GEMINI_API_KEY) {
+  console.error(
+    "GEMINI_API_KEY must be set to start the server, or set CONCIERGE_PROVIDER=mock.",
+  );
+  process.exit(1);
+}
+
+const ai = process.env.GEMINI_API_KEY
+  ? createGeminiClient(process.env.GEMINI_API_KEY)
+  : null;
+const savedSearches = new MemorySavedSearchStore();
+const fakeClock =
+  process.env.SAVED_SEARCH_FAKE_CLOCK === "true"
+    ? createFakeClock()
+    : undefined;
+const savedSearchJob = createSavedSearchJob(
+  savedSearches,
+  createPlaceSearch(conciergeProvider, ai),
+  { now: fakeClock?.now },
+);
+savedSearchJob.start();
+
+const api = createApiHandler({
+  sessions: new MemorySessionStore(),
+  shares: new MemoryShareStore(),
+  savedSearches,
+  savedSearchJob,
+  fakeClock,
+  auth: createAuthenticator(
+    createGoogleIdTokenVerifier({
+      clientId: process.env.GOOGLE_CLIENT_ID || DEFAULT_GOOGLE_CLIENT_ID,
+    }),
+  ),
+  ai,
+});
+
+// True for paths inside DIST_DIR; a bare prefix check would let `dist-ssr` in
+const isInDist = (file: string) => {
+  const relative = path.relative(DIST_DIR, file);
+  return !relative.startsWith("..") && !path.isAbsolute(relative);
+};
+
+// Serves the built app, falling back to index.html for client-side routes
+const serveStatic = (url: string, res: import("node:http").ServerResponse) => {
+  let pathname: string;
+  try {
+    pathname = decodeURIComponent(url.split("?")[0]);
+  } catch (e) {
+    res.statusCode = 400;
+    return res.end("Malformed URL");
+  }
+  const requested = path.join(DIST_DIR, pathname);
+  const file =
+    isInDist(requested) &&
+    existsSync(requested) &&
+    statSync(requested).isFile()
+      ? requested
+      : path.join(DIST_DIR, "index.html");
+
+  if (!existsSync(file)) {
+    res.statusCode = 404;
+    return res.end("Not found. Run `npm run build` first.");
+  }
+  res.setHeader(
+    "Content-Type",
+    MIME_TYPES[path.extname(file)] || "application/octet-stream",
+  );
+  createReadStream(file).pipe(res);
+};
+
+createServer((req, res) =>
+  api(req, res, () => serveStatic(req.url || "/", res)),
+).listen(PORT, () => {
+  console.log(`CondoScout server listening on http://localhost:${PORT}`);
+});
@@ -0,0 +1,258 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { PlaceData, SavedSearch, StreamChunk } from "../types";
+import { ConciergeError } from "../services/conciergeErrors";
+import { MemorySavedSearchStore } from "./savedSearchStore";
+import {
+  FakeClock,
+  PlaceSearch,
+  createConciergePlaceSearch,
+  createFakeClock,
+  createPlaceSearch,
+  createSavedSearchJob,
+} from "./savedSearchJob";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const NOW = Date.UTC(2025, 0, 15);
+
+const place = (placeId: string, rating = 4.5): PlaceData => ({
+  title: `Condo ${placeId}`,
+  uri: `https://maps.google.com/?q=${placeId}`,
+  placeId,
+  rating,
+});
+
+const savedSearch = (overrides: Partial<SavedSearch> = {}): SavedSearch => ({
+  id: "saved-1",
+  sessionId: "session-1",
+  title: "Ari one-beds",
+  query: "One-beds in Ari under 20k",
+  intervalMs: DAY_MS,
+  createdAt: NOW,
+  nextRunAt: NOW + DAY_MS,
+  places: [place("a")],
+  ...overrides,
+});
+
+describe("createSavedSearchJob", () => {
+  let clock: FakeClock;
+  let store: MemorySavedSearchStore;
+  let search: ReturnType<typeof vi.fn<PlaceSearch>>;
+
+  beforeEach(async () => {
+    clock = createFakeClock(NOW);
+    store = new MemorySavedSearchStore();
+    search = vi.fn<PlaceSearch>(async () => [place("a")]);
+    await store.put("user-1", savedSearch());
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  const job = () => createSavedSearchJob(store, search, { now: clock.now });
+  const stored = async () => (await store.list("user-1"))[0];
+
+  it("doesn't run a search before it is due", async () => {
+    clock.advance(DAY_MS - 1);
+
+    expect(await job().runDue()).toEqual([]);
+    expect(search).not.toHaveBeenCalled();
+  });
+
+  it("schedules the next run one interval after a successful one", async () => {
+    clock.advance(DAY_MS + 5000);
+
+    await job().runDue();
+
+    expect(search).toHaveBeenCalledWith(savedSearch());
+    expect(await stored()).toMatchObject({
+      lastRunAt: NOW + DAY_MS + 5000,
+      nextRunAt: NOW + 2 * DAY_MS + 5000,
+    });
+  });
+
+  it("raises no alert when nothing changed", async () => {
+    clock.advance(DAY_MS);
+
+    expect(await job().runDue()).toEqual([]);
+    expect(await store.listAlerts("user-1")).toEqual([]);
+  });
+
+  it("raises an alert for new and changed places and keeps them as the baseline", async () => {
+    search.mockResolvedValue([place("a", 4.1), place("b")]);
+    clock.advance(DAY_MS);
+
+    const [alert] = await job().runDue();
+
+    expect(alert).toMatchObject({
+      savedSearchId: "saved-1",
+      sessionId: "session-1",
+      title: "Ari one-beds",
+      createdAt: NOW + DAY_MS,
+      read: false,
+    });
+    expect(alert.changes.map((c) => [c.kind, c.place.placeId])).toEqual([
+      ["changed", "a"],
+      ["new", "b"],
+    ]);
+    expect(await store.listAlerts("user-1")).toEqual([alert]);
+    expect((await stored()).places).toEqual([place("a", 4.1), place("b")]);
+
+    clock.advance(DAY_MS);
+    expect(await job().runDue()).toEqual([]);
+  });
+
+  it("retries a failed run an hour later without moving the baseline", async () => {
+    search.mockRejectedValueOnce(new ConciergeError("rate-limited"));
+    clock.advance(DAY_MS);
+    const runner = job();
+
+    await runner.runDue();
+
+    expect(await stored()).toMatchObject({
+      nextRunAt: NOW + DAY_MS + HOUR_MS,
+      places: [place("a")],
+    });
+    expect((await stored()).lastRunAt).toBeUndefined();
+
+    clock.advance(HOUR_MS - 1);
+    await runner.runDue();
+    expect(search).toHaveBeenCalledTimes(1);
+
+    clock.advance(1);
+    await runner.runDue();
+    expect(search).toHaveBeenCalledTimes(2);
+    expect(await stored()).toMatchObject({
+      lastRunAt: NOW + DAY_MS + HOUR_MS,
+      nextRunAt: NOW + 2 * DAY_MS + HOUR_MS,
+    });
+  });
+
+  it("retries at the usual time when that is sooner than an hour", async () => {
+    await store.put(
+      "user-1",
+      savedSearch({ intervalMs: 30 * 60 * 1000, nextRunAt: NOW }),
+    );
+    search.mockRejectedValueOnce(new Error("offline"));
+
+    await job().runDue();
+
+    expect((await stored()).nextRunAt).toBe(NOW + 30 * 60 * 1000);
+  });
+
+  it("drops the result when the search was deleted while it ran", async () => {
+    search.mockImplementation(async () => {
+      await store.delete("user-1", "saved-1");
+      return [place("b")];
+    });
+    clock.advance(DAY_MS);
+
+    expect(await job().runDue()).toEqual([]);
+    expect(await store.list("user-1")).toEqual([]);
+    expect(await store.listAlerts("user-1")).toEqual([]);
+  });
+
+  it("doesn't start a second run while one is in progress", async () => {
+    let finish!: (places: PlaceData[]) => void;
+    search.mockImplementation(
+      () => new Promise<PlaceData[]>((resolve) => (finish = resolve)),
+    );
+    clock.advance(DAY_MS);
+    const runner = job();
+
+    const first = runner.runDue();
+    const second = runner.runDue();
+    await vi.waitFor(() => expect(search).toHaveBeenCalled());
+    finish([place("a")]);
+
+    expect(second).toBe(first);
+    await first;
+    expect(search).toHaveBeenCalledTimes(1);
+  });
+
+  it("polls for due searches once started", async () => {
+    vi.useFakeTimers();
+    clock.advance(DAY_MS);
+    const runner = createSavedSearchJob(store, search, {
+      now: clock.now,
+      pollMs: 1000,
+    });
+
+    runner.start();
+    await vi.advanceTimersByTimeAsync(999);
+    expect(search).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1);
+    expect(search).toHaveBeenCalledTimes(1);
+
+    runner.stop();
+    clock.advance(DAY_MS);
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(search).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("createConciergePlaceSearch", () => {
+  const provider = () => ({
+    start: vi.fn(),
+    end: vi.fn(),
+    stream: vi.fn(async function* (): AsyncGenerator<StreamChunk> {
+      yield { text: "Looking…", places: [] };
+      yield { text: "Found two.", places: [place("a"), place("b")] };
+    }),
+    enrichPlaces: vi.fn(async (places: PlaceData[]) =>
+      places.map((p) => ({ ...p, reviewCount: 10 })),
+    ),
+  });
+
+  it("asks afresh on the saved model and enriches the last places", async () => {
+    const fake = provider();
+    const search = savedSearch({
+      model: "gemini-2.5-pro",
+      searchCriteria: { bedrooms: 1 },
+    });
+
+    const places = await createConciergePlaceSearch(fake)(search);
+
+    const [sessionId, model] = fake.start.mock.calls[0];
+    expect(model).toBe("gemini-2.5-pro");
+    expect(fake.stream).toHaveBeenCalledWith(sessionId, search.query, {
+      searchArea: undefined,
+      criteria: search.searchCriteria,
+    });
+    expect(fake.enrichPlaces).toHaveBeenCalledWith(
+      [place("a"), place("b")],
+      search.searchCriteria,
+      undefined,
+      "gemini-2.5-pro",
+    );
+    expect(places.map((p) => p.reviewCount)).toEqual([10, 10]);
+    expect(fake.end).toHaveBeenCalledWith(sessionId);
+  });
+
+  it("ends the session when the search fails", async () => {
+    const fake = provider();
+    fake.enrichPlaces.mockRejectedValue(new ConciergeError("network"));
+
+    await expect(
+      createConciergePlaceSearch(fake)(savedSearch()),
+    ).rejects.toBeInstanceOf(ConciergeError);
+    expect(fake.end).toHaveBeenCalledWith(fake.start.mock.calls[0][0]);
+  });
+});
+
+describe("createPlaceSearch", () => {
+  it("replays the fixtures with the mock provider and no Gemini client", async () => {
+    const places = await createPlaceSearch("mock", null)(savedSearch());
+
+    expect(places.length).toBeGreaterThan(0);
+  });
+
+  it("fails as not configured without a Gemini client", async () => {
+    await expect(
+      createPlaceSearch(undefined, null)(savedSearch()),
+    ).rejects.toMatchObject({ kind: "not-configured" });
+  });
+});
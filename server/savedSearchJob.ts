@@ -0,0 +1,201 @@
+import { randomBytes } from "node:crypto";
+import { GoogleGenAI } from "@google/genai";
+import { PlaceData, SavedSearch, SearchAlert } from "../types";
+import { SavedSearchStore } from "./savedSearchStore";
+import { enrichPlaces, streamChat } from "./gemini";
+import { diffPlaces } from "../services/savedSearches";
+import { ConciergeError } from "../services/conciergeErrors";
+import type { ConciergeProvider } from "../services/concierge";
+import { createMockProvider } from "../services/mockConcierge";
+import { resolveModel } from "../services/conciergeModels";
+
+// How often the job looks for searches that are due
+const POLL_MS = 60 * 1000;
+// A failed run is tried again after this, or at its usual time if sooner
+const RETRY_MS = 60 * 60 * 1000;
+
+// Runs a saved search and returns what it finds, with listing details filled in
+export type PlaceSearch = (search: SavedSearch) => Promise<PlaceData[]>;
+
+// The parts of a concierge provider a saved search needs
+type SearchProvider = Pick<
+  ConciergeProvider,
+  "start" | "end" | "stream" | "enrichPlaces"
+>;
+
+// Gemini called straight from the server, behind the same interface as the
+// browser's providers. A session only remembers its model: saved searches
+// never carry history.
+export const createGeminiSearchProvider = (ai: GoogleGenAI): SearchProvider => {
+  const models = new Map<string, string>();
+  return {
+    start(sessionId, model) {
+      models.set(sessionId, resolveModel(model));
+    },
+    end(sessionId) {
+      models.delete(sessionId);
+    },
+    stream: (sessionId, message, search, signal) =>
+      streamChat(ai, [], message, search, signal, models.get(sessionId)),
+    enrichPlaces: (places, criteria, anchors, model) =>
+      enrichPlaces(ai, places, criteria, anchors, resolveModel(model)),
+  };
+};
+
+// Asks Royce the saved question afresh, on the model the search was saved
+// with, in a session of its own that is ended afterwards. Leaving out the chat
+// it came from stops earlier replies steering the results towards the same
+// places.
+export const createConciergePlaceSearch =
+  (provider: SearchProvider): PlaceSearch =>
+  async (search) => {
+    const sessionId = `saved-search-${search.id}-${randomBytes(6).toString("base64url")}`;
+    provider.start(sessionId, search.model);
+    try {
+      let places: PlaceData[] = [];
+      for await (const chunk of provider.stream(sessionId, search.query, {
+        searchArea: search.searchArea,
+        criteria: search.searchCriteria,
+      })) {
+        places = chunk.places;
+      }
+      return await provider.enrichPlaces(
+        places,
+        search.searchCriteria,
+        undefined,
+        search.model,
+      );
+    } finally {
+      provider.end(sessionId);
+    }
+  };
+
+// Used when Gemini is not configured: every run fails and is retried later
+export const unavailablePlaceSearch: PlaceSearch = async () => {
+  throw new ConciergeError("not-configured", "GEMINI_API_KEY is not set");
+};
+
+// The search for the configured concierge: CONCIERGE_PROVIDER=mock replays the
+// fixtures without network access, anything else asks Gemini
+export const createPlaceSearch = (
+  providerName: string | undefined,
+  ai: GoogleGenAI | null,
+): PlaceSearch => {
+  if (providerName === "mock") {
+    return createConciergePlaceSearch(createMockProvider(undefined, 0));
+  }
+  return ai
+    ? createConciergePlaceSearch(createGeminiSearchProvider(ai))
+    : unavailablePlaceSearch;
+};
+
+// Time that only moves when told to, so weeks of runs can be tried locally in
+// seconds; see SAVED_SEARCH_FAKE_CLOCK in the README
+export interface FakeClock {
+  now: () => number;
+  advance(ms: number): number;
+}
+
+export const createFakeClock = (start = Date.now()): FakeClock => {
+  let time = start;
+  return {
+    now: () => time,
+    advance: (ms) => (time += ms),
+  };
+};
+
+export interface SavedSearchJob {
+  // Runs every due search once and returns the alerts they raised
+  runDue(): Promise<SearchAlert[]>;
+  start(): void;
+  stop(): void;
+}
+
+interface SavedSearchJobOptions {
+  now?: () => number;
+  pollMs?: number;
+}
+
+// Re-runs saved searches on their schedule and diffs each run against the
+// last one. Searches run one at a time to keep the Gemini quota for chats.
+export const createSavedSearchJob = (
+  store: SavedSearchStore,
+  search: PlaceSearch,
+  { now = Date.now, pollMs = POLL_MS }: SavedSearchJobOptions = {},
+): SavedSearchJob => {
+  let timer: ReturnType<typeof setInterval> | undefined;
+  let running: Promise<SearchAlert[]> | null = null;
+
+  const runOne = async (userId: string, saved: SavedSearch) => {
+    const ranAt = now();
+    let places: PlaceData[] | null;
+    try {
+      places = await search(saved);
+    } catch (error) {
+      console.error(`Saved search ${saved.id} failed:`, error);
+      places = null;
+    }
+
+    // The user may have stopped watching while the search ran
+    const current = (await store.list(userId)).find((s) => s.id === saved.id);
+    if (!current) return null;
+    if (!places) {
+      await store.put(userId, {
+        ...current,
+        nextRunAt: ranAt + Math.min(RETRY_MS, current.intervalMs),
+      });
+      return null;
+    }
+
+    await store.put(userId, {
+      ...current,
+      places,
+      lastRunAt: ranAt,
+      nextRunAt: ranAt + current.intervalMs,
+    });
+    const changes = diffPlaces(current.places, places);
+    if (changes.length === 0) return null;
+
+    const alert: SearchAlert = {
+      id: randomBytes(12).toString("base64url"),
+      savedSearchId: saved.id,
+      sessionId: saved.sessionId,
+      title: current.title,
+      changes,
+      createdAt: ranAt,
+      read: false,
+    };
+    await store.addAlert(userId, alert);
+    return alert;
+  };
+
+  const runDue = () => {
+    // A slow run must not overlap the next tick and run a search twice
+    running ??= (async () => {
+      const alerts: SearchAlert[] = [];
+      for (const { userId, search: saved } of await store.due(now())) {
+        const alert = await runOne(userId, saved);
+        if (alert) alerts.push(alert);
+      }
+      return alerts;
+    })().finally(() => {
+      running = null;
+    });
+    return running;
+  };
+
+  return {
+    runDue,
+    start() {
+      if (timer) return;
+      timer = setInterval(() => {
+        runDue().catch((e) => console.error("Saved search job failed:", e));
+      }, pollMs);
+      timer.unref?.();
+    },
+    stop() {
+      clearInterval(timer);
+      timer = undefined;
+    },
+  };
+};
@@ -0,0 +1,69 @@
+import { SavedSearch, SearchAlert } from "../types";
+
+// Per-user saved searches and the alerts their runs produced. `due` spans all
+// users, since the job runs outside any request.
+export interface SavedSearchStore {
+  list(userId: string): Promise<SavedSearch[]>;
+  put(userId: string, search: SavedSearch): Promise<void>;
+  delete(userId: string, id: string): Promise<void>;
+  due(now: number): Promise<{ userId: string; search: SavedSearch }[]>;
+  listAlerts(userId: string): Promise<SearchAlert[]>;
+  addAlert(userId: string, alert: SearchAlert): Promise<void>;
+  markRead(userId: string, ids: string[]): Promise<SearchAlert[]>;
+}
+
+// Oldest alerts are dropped beyond this, read or not
+const MAX_ALERTS_PER_USER = 100;
+
+// Keeps everything in process memory; good enough for local development
+export class MemorySavedSearchStore implements SavedSearchStore {
+  private searches = new Map<string, Map<string, SavedSearch>>();
+  private alerts = new Map<string, SearchAlert[]>();
+
+  private searchesFor(userId: string) {
+    let searches = this.searches.get(userId);
+    if (!searches) {
+      searches = new Map();
+      this.searches.set(userId, searches);
+    }
+    return searches;
+  }
+
+  async list(userId: string) {
+    return [...this.searchesFor(userId).values()];
+  }
+
+  async put(userId: string, search: SavedSearch) {
+    this.searchesFor(userId).set(search.id, search);
+  }
+
+  // Alerts from the search stay; they still point at its session
+  async delete(userId: string, id: string) {
+    this.searchesFor(userId).delete(id);
+  }
+
+  async due(now: number) {
+    return [...this.searches].flatMap(([userId, searches]) =>
+      [...searches.values()]
+        .filter((search) => search.nextRunAt <= now)
+        .map((search) => ({ userId, search })),
+    );
+  }
+
+  async listAlerts(userId: string) {
+    return this.alerts.get(userId) || [];
+  }
+
+  async addAlert(userId: string, alert: SearchAlert) {
+    const alerts = [alert, ...(this.alerts.get(userId) || [])];
+    this.alerts.set(userId, alerts.slice(0, MAX_ALERTS_PER_USER));
+  }
+
+  async markRead(userId: string, ids: string[]) {
+    const alerts = (this.alerts.get(userId) || []).map((alert) =>
+      ids.includes(alert.id) ? { ...alert, read: true } : alert,
+    );
+    this.alerts.set(userId, alerts);
+    return alerts;
+  }
+}
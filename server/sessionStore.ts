@@ -0,0 +1,58 @@
+import { ChatSession } from "../types";
+
+// Either the saved session with its new revision, or the stored one it conflicts with
+export type PutResult = { session: ChatSession } | { latest: ChatSession };
+
+// Per-user session storage behind the REST API. Writes use optimistic
+// concurrency: a save must name the revision it was based on.
+export interface SessionStore {
+  list(userId: string): Promise<ChatSession[]>;
+  get(userId: string, id: string): Promise<ChatSession | undefined>;
+  put(
+    userId: string,
+    session: ChatSession,
+    baseRevision: number,
+  ): Promise<PutResult>;
+  delete(userId: string, id: string): Promise<void>;
+}
+
+// Keeps everything in process memory; good enough for local development
+export class MemorySessionStore implements SessionStore {
+  private users = new Map<string, Map<string, ChatSession>>();
+
+  private sessionsFor(userId: string) {
+    let sessions = this.users.get(userId);
+    if (!sessions) {
+      sessions = new Map();
+      this.users.set(userId, sessions);
+    }
+    return sessions;
+  }
+
+  async list(userId: string) {
+    return [...this.sessionsFor(userId).values()];
+  }
+
+  async get(userId: string, id: string) {
+    return this.sessionsFor(userId).get(id);
+  }
+
+  async put(
+    userId: string,
+    session: ChatSession,
+    baseRevision: number,
+  ): Promise<PutResult> {
+    const sessions = this.sessionsFor(userId);
+    const current = sessions.get(session.id);
+    if (current && (current.revision ?? 0) !== baseRevision) {
+      return { latest: current };
+    }
+    const saved = { ...session, revision: (current?.revision ?? 0) + 1 };
+    sessions.set(session.id, saved);
+    return { session: saved };
+  }
+
+  async delete(userId: string, id: string) {
+    this.sessionsFor(userId).delete(id);
+  }
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { ChatSession } from "../types";
+import { MemoryShareStore } from "./shareStore";
+
+const session: ChatSession = {
+  id: "s1",
+  title: "Condos near Lumphini",
+  messages: [{ id: "m1", role: "user", text: "Condos near Lumphini" }],
+  createdAt: 0,
+  lastUpdated: 0,
+};
+
+describe("MemoryShareStore", () => {
+  it("keeps each client's 50 most recent links", async () => {
+    const store = new MemoryShareStore();
+    const first = await store.create("guest:1.2.3.4", session);
+    const ids = [];
+    for (let i = 0; i < 50; i++) {
+      ids.push((await store.create("guest:1.2.3.4", session)).id);
+    }
+
+    expect(await store.get(first.id)).toBeUndefined();
+    expect(await store.get(ids[0])).toBeDefined();
+    expect(await store.get(ids[49])).toBeDefined();
+  });
+
+  it("doesn't evict one client's links for another's", async () => {
+    const store = new MemoryShareStore();
+    const mine = await store.create("user:1", session);
+    for (let i = 0; i < 60; i++) await store.create("guest:1.2.3.4", session);
+
+    expect(await store.get(mine.id)).toEqual(mine);
+  });
+});
@@ -0,0 +1,55 @@
+import { randomBytes } from "node:crypto";
+import { ChatSession, SharedSession } from "../types";
+
+// Snapshots behind share links. Ids are unguessable, so knowing the link is
+// what grants read access. `clientId` says who made a snapshot so each client's
+// count can be capped; it is never part of the snapshot itself.
+export interface ShareStore {
+  create(clientId: string, session: ChatSession): Promise<SharedSession>;
+  get(id: string): Promise<SharedSession | undefined>;
+}
+
+// Copies only what a viewer needs; replies still in progress are left out
+export const toSnapshot = (
+  id: string,
+  session: ChatSession,
+  now = Date.now(),
+): SharedSession => ({
+  id,
+  title: String(session.title || "Shared search"),
+  messages: (session.messages || [])
+    .filter((msg) => !msg.isThinking && !msg.isStreaming)
+    .map(({ id, role, text, places }) => ({ id, role, text, places })),
+  searchCriteria: session.searchCriteria,
+  createdAt: now,
+});
+
+// A client's oldest links stop working beyond this many
+const MAX_SHARES_PER_CLIENT = 50;
+// Across all clients, so guests can't fill memory by changing address
+const MAX_SHARES = 10_000;
+
+// Keeps everything in process memory; good enough for local development
+export class MemoryShareStore implements ShareStore {
+  private shares = new Map<string, SharedSession>(); // Oldest first
+  private byClient = new Map<string, string[]>();
+
+  async create(clientId: string, session: ChatSession) {
+    const share = toSnapshot(randomBytes(12).toString("base64url"), session);
+    this.shares.set(share.id, share);
+    const ids = [...(this.byClient.get(clientId) || []), share.id];
+    ids
+      .splice(0, ids.length - MAX_SHARES_PER_CLIENT)
+      .forEach((id) => this.shares.delete(id));
+    this.byClient.set(clientId, ids);
+    for (const id of this.shares.keys()) {
+      if (this.shares.size <= MAX_SHARES) break;
+      this.shares.delete(id);
+    }
+    return share;
+  }
+
+  async get(id: string) {
+    return this.shares.get(id);
+  }
+}
@@ -0,0 +1,165 @@
+import { IncomingMessage } from "node:http";
+import {
+  Anchor,
+  ChatSession,
+  ChatTurn,
+  CommuteFilter,
+  Location,
+  Message,
+  PlaceData,
+  PlaceSummary,
+  SearchArea,
+  SearchContext,
+  SearchCriteria,
+} from "../types";
+import { isLocale } from "../services/i18n";
+import { isWebUrl } from "../services/placeReferences";
+import { HttpError, readJson } from "./http";
+
+// Request bodies arrive as untyped JSON. Routes read each field through a
+// guard, so a body of the wrong shape is a 400 rather than a crash (or a bad
+// value stored) further in.
+export type Guard<T> = (value: unknown) => value is T;
+
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+export const isString = (value: unknown): value is string =>
+  typeof value === "string";
+
+export const isNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+export const isBoolean = (value: unknown): value is boolean =>
+  typeof value === "boolean";
+
+const oneOf =
+  <T extends string>(...values: T[]): Guard<T> =>
+  (value): value is T =>
+    values.includes(value as T);
+
+// Absent or null both read as undefined
+export const optional =
+  <T>(guard: Guard<T>): Guard<T | undefined> =>
+  (value): value is T | undefined =>
+    value === undefined || value === null || guard(value);
+
+export const arrayOf =
+  <T>(guard: Guard<T>): Guard<T[]> =>
+  (value): value is T[] =>
+    Array.isArray(value) && value.every(guard);
+
+// An object whose listed fields each pass their guard; others are left as sent
+const shape =
+  <T>(fields: { [K in keyof T]-?: Guard<T[K]> }): Guard<T> =>
+  (value): value is T =>
+    isObject(value) &&
+    Object.entries<Guard<unknown>>(fields).every(([name, guard]) =>
+      guard(value[name]),
+    );
+
+const isLocation = shape<Location>({ latitude: isNumber, longitude: isNumber });
+
+export const isSearchArea = shape<SearchArea>({
+  mode: oneOf("device", "pinned", "neighbourhood"),
+  location: optional(isLocation),
+  label: optional(isString),
+});
+
+export const isSearchCriteria = shape<SearchCriteria>({
+  budget: optional(
+    shape<NonNullable<SearchCriteria["budget"]>>({
+      min: optional(isNumber),
+      max: optional(isNumber),
+      currency: isString,
+    }),
+  ),
+  bedrooms: optional(isNumber),
+  propertyType: optional(oneOf("condo", "apartment", "hotel")),
+  maxTransitDistanceMeters: optional(isNumber),
+  petsAllowed: optional(isBoolean),
+  furnished: optional(isBoolean),
+});
+
+// Only what identifies a place is checked; listing details are best effort
+// anyway and are passed through as sent. Shares hand the link to other people,
+// so it must be a web link.
+export const isPlace = (value: unknown): value is PlaceData =>
+  isObject(value) &&
+  isString(value.title) &&
+  isString(value.uri) &&
+  isWebUrl(value.uri) &&
+  optional(isString)(value.address) &&
+  optional(isString)(value.placeId);
+
+export const isAnchor = shape<Anchor>({
+  id: isString,
+  name: isString,
+  address: isString,
+});
+
+const isCommuteFilter = shape<CommuteFilter>({
+  anchorId: isString,
+  mode: oneOf("transit", "walk", "drive"),
+  maxMinutes: optional(isNumber),
+  sortByCommute: isBoolean,
+});
+
+const isPlaceSummary = shape<PlaceSummary>({
+  number: isNumber,
+  title: isString,
+  address: optional(isString),
+  placeId: optional(isString),
+});
+
+export const isChatTurn = shape<ChatTurn>({
+  role: oneOf("user", "model"),
+  text: isString,
+  places: optional(arrayOf(isPlaceSummary)),
+});
+
+export const isSearchContext = shape<SearchContext>({
+  searchArea: optional(isSearchArea),
+  criteria: optional(isSearchCriteria),
+  anchors: optional(arrayOf(isAnchor)),
+  commuteFilter: optional(isCommuteFilter),
+  references: optional(arrayOf(isPlaceSummary)),
+  locale: optional(isLocale),
+});
+
+const isMessage = (value: unknown): value is Message =>
+  isObject(value) &&
+  isString(value.id) &&
+  oneOf("user", "model")(value.role) &&
+  isString(value.text) &&
+  optional(arrayOf(isPlace))(value.places);
+
+// The fields the stores and share snapshots rely on; the rest is the app's
+export const isChatSession = (value: unknown): value is ChatSession =>
+  isObject(value) &&
+  isString(value.id) &&
+  isString(value.title) &&
+  arrayOf(isMessage)(value.messages) &&
+  isNumber(value.createdAt) &&
+  isNumber(value.lastUpdated) &&
+  optional(isSearchArea)(value.searchArea) &&
+  optional(isSearchCriteria)(value.searchCriteria);
+
+// The JSON body, which every route expects to be an object
+export const readBody = async (req: IncomingMessage) => {
+  const body = await readJson(req);
+  if (!isObject(body)) throw new HttpError(400, "Expected a JSON object");
+  return body;
+};
+
+// `body[name]` if it passes `guard`, otherwise a 400
+export const field = <T>(
+  body: Record<string, unknown>,
+  name: string,
+  guard: Guard<T>,
+  message = `${name} is missing or invalid`,
+): T => {
+  const value = body[name];
+  if (!guard(value)) throw new HttpError(400, message);
+  return (value ?? undefined) as T;
+};
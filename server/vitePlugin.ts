@@ -0,0 +1,62 @@
+import type { Plugin } from "vite";
+import { createApiHandler } from "./api";
+import { createAuthenticator, createGoogleIdTokenVerifier } from "./auth";
+import { createGeminiClient } from "./gemini";
+import { MemorySessionStore } from "./sessionStore";
+import { MemoryShareStore } from "./shareStore";
+import { MemorySavedSearchStore } from "./savedSearchStore";
+import {
+  createFakeClock,
+  createPlaceSearch,
+  createSavedSearchJob,
+} from "./savedSearchJob";
+
+interface ApiPluginOptions {
+  geminiApiKey?: string;
+  conciergeProvider?: string; // CONCIERGE_PROVIDER; "mock" needs no key
+  googleClientId: string;
+  fakeClock?: boolean; // Saved searches only run when the clock is moved on
+}
+
+// Serves the /api routes from the Vite dev server so `npm run dev` needs no
+// separate backend process. The key stays in this Node process.
+export const condoscoutApi = ({
+  geminiApiKey,
+  conciergeProvider,
+  googleClientId,
+  fakeClock: useFakeClock,
+}: ApiPluginOptions): Plugin => ({
+  name: "condoscout-api",
+  configureServer(server) {
+    // The rest of the app still runs without a key; Royce's routes answer 503
+    const ai = geminiApiKey ? createGeminiClient(geminiApiKey) : null;
+    if (!ai && conciergeProvider !== "mock") {
+      server.config.logger.warn(
+        "GEMINI_API_KEY is not set; Royce is unavailable on this dev server.",
+      );
+    }
+    const savedSearches = new MemorySavedSearchStore();
+    const fakeClock = useFakeClock ? createFakeClock() : undefined;
+    const savedSearchJob = createSavedSearchJob(
+      savedSearches,
+      createPlaceSearch(conciergeProvider, ai),
+      { now: fakeClock?.now },
+    );
+    savedSearchJob.start();
+    server.httpServer?.on("close", () => savedSearchJob.stop());
+
+    server.middlewares.use(
+      createApiHandler({
+        sessions: new MemorySessionStore(),
+        shares: new MemoryShareStore(),
+        savedSearches,
+        savedSearchJob,
+        fakeClock,
+        auth: createAuthenticator(
+          createGoogleIdTokenVerifier({ clientId: googleClientId }),
+        ),
+        ai,
+      }),
+    );
+  },
+});
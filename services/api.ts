@@ -0,0 +1,71 @@
+// Calls to our own backend. The signed-in user's session token is attached to
+// every request; guests send none.
+let sessionToken: string | null = null;
+let onUnauthorized: (() => void) | null = null;
+
+export const setSessionToken = (token: string | null) => {
+  sessionToken = token;
+};
+
+// Called when the server rejects the session token, i.e. it expired or was revoked
+export const setUnauthorizedHandler = (handler: (() => void) | null) => {
+  onUnauthorized = handler;
+};
+
+export const apiFetch = async (path: string, init: RequestInit = {}) => {
+  const sentToken = sessionToken;
+  const res = await fetch(`/api${path}`, {
+    ...init,
+    headers: {
+      "Content-Type": "application/json",
+      ...(sentToken ? { Authorization: `Bearer ${sentToken}` } : {}),
+      ...init.headers,
+    },
+  });
+  if (res.status === 401 && sentToken && sentToken === sessionToken) {
+    onUnauthorized?.();
+  }
+  return res;
+};
+
+// A reply outside 2xx, with what the server said about it. `kind` is set by
+// routes that explain failures, see conciergeErrors.ts.
+export class ApiError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+    public kind?: string,
+    public retryAfterMs?: number,
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+export const readApiError = async (res: Response, fallback: string) => {
+  const body = await res.json().catch(() => ({}));
+  const retryAfter = Number(res.headers.get("Retry-After"));
+  return new ApiError(
+    res.status,
+    body.error || fallback,
+    body.kind,
+    retryAfter > 0 ? retryAfter * 1000 : undefined,
+  );
+};
+
+// POSTs a JSON body and returns the parsed JSON reply, throwing on HTTP errors
+export const postJson = async <T>(
+  path: string,
+  body: unknown,
+  signal?: AbortSignal,
+): Promise<T> => {
+  const res = await apiFetch(path, {
+    method: "POST",
+    body: JSON.stringify(body),
+    signal,
+  });
+  if (!res.ok) {
+    throw await readApiError(res, `Request to ${path} failed (${res.status})`);
+  }
+  return res.json();
+};
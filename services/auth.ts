@@ -0,0 +1,58 @@
+import { User } from "../types";
+import { apiFetch } from "./api";
+
+interface SessionResponse {
+  token: string;
+  user: { id: string; email?: string; name?: string; picture?: string };
+}
+
+const toUser = ({ token, user }: SessionResponse): User => ({
+  id: user.id,
+  name: user.name || user.email || "Member",
+  email: user.email || "",
+  picture: user.picture || "",
+  sessionToken: token,
+});
+
+// Trades the Google Sign-In credential for an API session; the server checks
+// the credential's signature, audience and expiry before issuing one
+export const signInWithGoogle = async (credential: string): Promise<User> => {
+  const res = await apiFetch("/auth/session", {
+    method: "POST",
+    body: JSON.stringify({ idToken: credential }),
+  });
+  if (!res.ok) throw new Error(`Sign-in failed (${res.status})`);
+  return toUser(await res.json());
+};
+
+// Checks a remembered session is still live, which also extends it. Returns
+// null once it has expired or been revoked; network errors keep the user as-is.
+export const restoreSession = async (user: User): Promise<User | null> => {
+  if (!user.sessionToken) return null;
+  try {
+    const res = await apiFetch("/auth/session", {
+      headers: { Authorization: `Bearer ${user.sessionToken}` },
+    });
+    if (res.status === 401) return null;
+    if (!res.ok) return user;
+    return toUser(await res.json());
+  } catch (e) {
+    console.error("Could not check the saved session", e);
+    return user;
+  }
+};
+
+// Revokes the API session and stops Google from signing the user straight
+// back in on their next visit
+export const signOut = async (user: User) => {
+  window.google?.accounts.id.disableAutoSelect();
+  if (!user.sessionToken) return;
+  try {
+    await apiFetch("/auth/session", {
+      method: "DELETE",
+      headers: { Authorization: `Bearer ${user.sessionToken}` },
+    });
+  } catch (e) {
+    console.error("Failed to revoke session", e);
+  }
+};
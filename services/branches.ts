@@ -0,0 +1,91 @@
+import { Message } from "../types";
+
+// Editing a message or regenerating a reply never throws the old turn away.
+// The tail of the conversation from that turn on is stashed on the message
+// that replaces it, so the session's messages stay the selected path and
+// everything else (resume, search, export, sharing) can read them as before.
+
+const withoutVersions = ({ versions, ...message }: Message): Message => message;
+
+// Every version of the turn at `index`, in the order they were made, with the
+// shown one included and its own versions list stripped
+const allVersions = (messages: Message[], index: number) => {
+  const current = messages.slice(index);
+  const { others = [], index: shown = 0 } = messages[index]?.versions || {};
+  return [
+    ...others.slice(0, shown),
+    [withoutVersions(current[0]), ...current.slice(1)],
+    ...others.slice(shown),
+  ];
+};
+
+export const versionCount = (message: Message) =>
+  (message.versions?.others.length ?? 0) + 1;
+
+export const versionIndex = (message: Message) => message.versions?.index ?? 0;
+
+// Replaces the conversation from `index` on with `turn`, keeping what was there
+// as an earlier version. `turn` becomes the newest version.
+export const branchAt = (
+  messages: Message[],
+  index: number,
+  turn: Message[],
+): Message[] => {
+  const others = allVersions(messages, index);
+  return [
+    ...messages.slice(0, index),
+    { ...turn[0], versions: { others, index: others.length } },
+    ...turn.slice(1),
+  ];
+};
+
+// Puts `turn` in place of the conversation from `index` on without keeping
+// what was there, e.g. when retrying a reply that failed. Earlier versions of
+// that turn stay available.
+export const replaceTurn = (
+  messages: Message[],
+  index: number,
+  turn: Message[],
+): Message[] => {
+  const versions = messages[index]?.versions;
+  return [
+    ...messages.slice(0, index),
+    versions ? { ...turn[0], versions } : turn[0],
+    ...turn.slice(1),
+  ];
+};
+
+// Shows another version of the turn at `index`, with everything after it
+export const selectVersion = (
+  messages: Message[],
+  index: number,
+  version: number,
+): Message[] => {
+  const all = allVersions(messages, index);
+  const chosen = all[version];
+  if (!chosen || version === versionIndex(messages[index])) return messages;
+  return [
+    ...messages.slice(0, index),
+    {
+      ...chosen[0],
+      versions: { others: all.filter((_, i) => i !== version), index: version },
+    },
+    ...chosen.slice(1),
+  ];
+};
+
+// Ids of messages only reachable through other versions, at any depth
+export const hiddenMessageIds = (messages: Message[]) => {
+  const ids = new Set<string>();
+  const visit = (list: Message[]) =>
+    list.forEach((m) =>
+      m.versions?.others.forEach((tail) =>
+        tail.forEach((hidden) => {
+          ids.add(hidden.id);
+          visit([hidden]);
+        }),
+      ),
+    );
+  visit(messages);
+  return ids;
+};
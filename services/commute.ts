@@ -0,0 +1,77 @@
+import { Anchor, CommuteFilter, PlaceData, TravelMode } from "../types";
+import { t } from "./i18n";
+
+export const TRAVEL_MODE_LABELS: Record<TravelMode, string> = {
+  transit: "Transit",
+  walk: "Walk",
+  drive: "Drive",
+};
+
+// The label in the UI language; TRAVEL_MODE_LABELS stays English for prompts
+export const travelModeLabel = (mode: TravelMode) => t(`travel.${mode}`);
+
+export const anchorsStorageKey = (userId: string | null) =>
+  userId ? `condoscout_anchors_${userId}` : "condoscout_guest_anchors";
+
+export const parseAnchors = (jsonString: string | null): Anchor[] => {
+  if (!jsonString) return [];
+  try {
+    const parsed = JSON.parse(jsonString);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    console.error("Failed to read anchors", e);
+    return [];
+  }
+};
+
+export const commuteMinutes = (
+  place: PlaceData,
+  anchorId: string,
+  mode: TravelMode,
+): number | undefined => {
+  const estimate = place.commutes?.find((c) => c.anchorId === anchorId);
+  if (!estimate) return undefined;
+  if (mode === "walk") return estimate.walkMinutes;
+  if (mode === "drive") return estimate.driveMinutes;
+  return estimate.transitMinutes;
+};
+
+// Places without an estimate for the anchor are kept (at the end when sorting)
+// so a filter never hides results that simply have not been estimated yet
+export const applyCommuteFilter = (
+  places: PlaceData[],
+  filter: CommuteFilter | null,
+): PlaceData[] => {
+  if (!filter) return places;
+  const { anchorId, mode, maxMinutes, sortByCommute } = filter;
+
+  const filtered =
+    maxMinutes === undefined
+      ? places
+      : places.filter((place) => {
+          const minutes = commuteMinutes(place, anchorId, mode);
+          return minutes === undefined || minutes <= maxMinutes;
+        });
+
+  if (!sortByCommute) return filtered;
+  return [...filtered].sort(
+    (a, b) =>
+      (commuteMinutes(a, anchorId, mode) ?? Infinity) -
+      (commuteMinutes(b, anchorId, mode) ?? Infinity),
+  );
+};
+
+// Context line that lets Royce reason about "under 30 min to the office"
+export const describeCommuteContext = (
+  anchors: Anchor[],
+  filter: CommuteFilter | null,
+) => {
+  if (anchors.length === 0) return "";
+  const list = anchors.map((a) => `${a.name}: ${a.address}`).join("; ");
+  const anchor = filter && anchors.find((a) => a.id === filter.anchorId);
+  const limit =
+    anchor && filter?.maxMinutes !== undefined
+      ? ` Commute limit: at most ${filter.maxMinutes} min by ${TRAVEL_MODE_LABELS[filter.mode].toLowerCase()} to ${anchor.name}.`
+      : "";
+  return `Places the user commutes to — ${list}.${limit}`;
+};
@@ -0,0 +1,68 @@
+import {
+  Anchor,
+  Message,
+  PlaceData,
+  PlaceInsight,
+  SearchContext,
+  SearchCriteria,
+  StreamChunk,
+} from "../types";
+import { ConciergeModel } from "./conciergeModels";
+import { geminiProvider } from "./geminiService";
+import { createMockProvider } from "./mockConcierge";
+
+// Everything the app asks of Royce. Each chat session has its own conversation,
+// set up by start() or resume() and continued by send() or stream() with the
+// same session id, so replies in several sessions can run side by side. Models
+// a provider does not offer are ignored. resume() keeps a conversation that is
+// already running; end() it first to replay a different history. The one-off
+// calls take the session's model too, so a session runs on one model end to end.
+export interface ConciergeProvider {
+  name: string;
+  models: ConciergeModel[];
+  defaultModel: string;
+  start(sessionId: string, model?: string): void;
+  resume(sessionId: string, history: Message[], model?: string): void;
+  end(sessionId: string): void;
+  send(
+    sessionId: string,
+    message: string,
+    search?: SearchContext,
+  ): Promise<StreamChunk>;
+  stream(
+    sessionId: string,
+    message: string,
+    search?: SearchContext,
+    signal?: AbortSignal,
+  ): AsyncGenerator<StreamChunk>;
+  extractSearchCriteria(
+    message: string,
+    previous?: SearchCriteria,
+    model?: string,
+  ): Promise<SearchCriteria>;
+  enrichPlaces(
+    places: PlaceData[],
+    criteria?: SearchCriteria,
+    anchors?: Anchor[],
+    model?: string,
+  ): Promise<PlaceData[]>;
+  comparePlaces(
+    places: PlaceData[],
+    criteria?: SearchCriteria,
+    model?: string,
+  ): Promise<string>;
+  describePlace(
+    place: PlaceData,
+    criteria?: SearchCriteria,
+    model?: string,
+  ): Promise<PlaceInsight>;
+  // A short session title from the first exchange
+  suggestTitle(message: string, reply: string, model?: string): Promise<string>;
+}
+
+// Recorded fixtures with CONCIERGE_PROVIDER=mock, so the UI runs without any
+// network access; Gemini through our server otherwise
+export const getDefaultConciergeProvider = (): ConciergeProvider =>
+  process.env.CONCIERGE_PROVIDER === "mock"
+    ? createMockProvider()
+    : geminiProvider;
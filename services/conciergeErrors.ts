@@ -0,0 +1,118 @@
+import { ConciergeErrorKind } from "../types";
+import { ApiError } from "./api";
+import { t } from "./i18n";
+
+// Why Royce could not answer. The server sends the kind with the HTTP status so
+// the app can tell a busy quota from a blocked prompt instead of showing every
+// failure as the same apology.
+export class ConciergeError extends Error {
+  constructor(
+    public kind: ConciergeErrorKind,
+    message = conciergeErrorText(kind),
+    public retryAfterMs?: number,
+  ) {
+    super(message);
+    this.name = "ConciergeError";
+  }
+}
+
+// What to tell the user, in the UI language
+export const conciergeErrorText = (kind: ConciergeErrorKind) =>
+  t(`error.${kind}`);
+
+const STATUS_BY_KIND: Record<ConciergeErrorKind, number> = {
+  "rate-limited": 429,
+  auth: 401,
+  blocked: 422,
+  network: 502,
+  "no-results": 404,
+  unavailable: 503,
+  "not-configured": 500,
+};
+
+const KINDS = Object.keys(STATUS_BY_KIND) as ConciergeErrorKind[];
+
+export const statusForKind = (kind: ConciergeErrorKind) => STATUS_BY_KIND[kind];
+
+// Worth trying again unchanged; the others need the user to change something
+export const isTransient = (kind: ConciergeErrorKind) =>
+  kind === "rate-limited" || kind === "network" || kind === "unavailable";
+
+// Reads the kind the server reported, falling back on the status alone
+export const kindFromResponse = (
+  status: number,
+  kind?: unknown,
+): ConciergeErrorKind => {
+  if (KINDS.includes(kind as ConciergeErrorKind)) {
+    return kind as ConciergeErrorKind;
+  }
+  if (status === 429) return "rate-limited";
+  if (status === 401 || status === 403) return "auth";
+  return "unavailable";
+};
+
+// fetch() rejects with a TypeError when the request never got an answer
+export const toConciergeError = (error: unknown): ConciergeError => {
+  if (error instanceof ConciergeError) return error;
+  if (error instanceof ApiError) {
+    return new ConciergeError(
+      kindFromResponse(error.status, error.kind),
+      undefined,
+      error.retryAfterMs,
+    );
+  }
+  if (error instanceof TypeError) return new ConciergeError("network");
+  return new ConciergeError("unavailable");
+};
+
+export interface RetryOptions {
+  attempts?: number; // Including the first one
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  signal?: AbortSignal;
+  sleep?: (ms: number, signal?: AbortSignal) => Promise<void>;
+}
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+// Delay before the given retry (1 for the first): doubling from the base with
+// up to half of it again as jitter, so tabs that failed together spread out
+export const backoffDelay = (
+  retry: number,
+  { baseDelayMs = 800, maxDelayMs = 8000 }: RetryOptions = {},
+  random = Math.random,
+) => {
+  const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** (retry - 1));
+  return Math.round(delay * (1 + random() / 2));
+};
+
+// Runs `task` until it succeeds, retrying transient failures with exponential
+// backoff. Other failures, and the last transient one, reach the caller as a
+// ConciergeError. A server-suggested wait takes the place of the backoff.
+export const withRetry = async <T>(
+  task: () => Promise<T>,
+  options: RetryOptions = {},
+): Promise<T> => {
+  const { attempts = 3, signal, sleep = wait } = options;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await task();
+    } catch (e) {
+      if (signal?.aborted) throw e;
+      const error = toConciergeError(e);
+      if (!isTransient(error.kind) || attempt >= attempts) throw error;
+      await sleep(error.retryAfterMs ?? backoffDelay(attempt, options), signal);
+    }
+  }
+};
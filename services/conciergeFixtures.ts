@@ -0,0 +1,219 @@
+import { PlaceData, SearchCriteria } from "../types";
+
+// A reply recorded from a real Gemini session, replayed by the mock provider
+export interface ConciergeFixture {
+  // Replayed when the user's message mentions any of these words
+  keywords: string[];
+  title: string; // Suggested session title after this reply
+  text: string;
+  places: PlaceData[];
+  criteria?: SearchCriteria;
+}
+
+const mapsSearch = (query: string) =>
+  `https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(query)}`;
+
+export const CONCIERGE_FIXTURES: ConciergeFixture[] = [
+  {
+    keywords: ["sukhumvit", "bts", "1-bedroom", "one bedroom", "thong lo"],
+    title: "1-bed condos on the Sukhumvit line",
+    text: `An excellent choice of neighbourhood. Here are three residences along the Sukhumvit line that pair easy BTS access with a refined living experience:
+
+- **Noble Remix** sits directly on the Thong Lo BTS skywalk, so your commute begins the moment you step out of the lobby.
+- **Rhythm Sukhumvit 42** offers generous one-bedroom layouts just a short stroll from Ekkamai station, with a rooftop pool overlooking the city.
+- **The Lofts Ekkamai** brings loft-style ceilings and a quieter side-street address, yet remains within a few minutes of the BTS.
+
+Each of these typically has one-bedroom units available within a mid-range monthly budget. Shall I narrow them down by price or move-in date?`,
+    criteria: { bedrooms: 1, propertyType: "condo" },
+    places: [
+      {
+        title: "Noble Remix",
+        uri: mapsSearch("Noble Remix Sukhumvit 36 Bangkok"),
+        address: "Sukhumvit 36, Khlong Tan, Khlong Toei, Bangkok 10110",
+        description: "Connected straight to Thong Lo BTS, very convenient.",
+        priceRange: {
+          min: 22000,
+          max: 35000,
+          currency: "THB",
+          period: "month",
+        },
+        unitTypes: ["1 Bedroom", "2 Bedroom"],
+        rating: 4.3,
+        reviewCount: 210,
+        nearestTransit: {
+          station: "Thong Lo",
+          line: "BTS Sukhumvit",
+          walkingMinutes: 1,
+        },
+        amenities: ["Pool", "Gym", "Skywalk to BTS"],
+        estimatedFields: ["priceRange"],
+      },
+      {
+        title: "Rhythm Sukhumvit 42",
+        uri: mapsSearch("Rhythm Sukhumvit 42 Bangkok"),
+        address: "Sukhumvit 42, Phra Khanong, Khlong Toei, Bangkok 10110",
+        description: "Great rooftop pool and the units are well maintained.",
+        priceRange: {
+          min: 20000,
+          max: 30000,
+          currency: "THB",
+          period: "month",
+        },
+        unitTypes: ["1 Bedroom", "2 Bedroom"],
+        rating: 4.4,
+        reviewCount: 185,
+        nearestTransit: {
+          station: "Ekkamai",
+          line: "BTS Sukhumvit",
+          walkingMinutes: 5,
+        },
+        amenities: ["Rooftop pool", "Gym", "Sauna", "Co-working space"],
+        estimatedFields: ["priceRange", "reviewCount"],
+      },
+      {
+        title: "The Lofts Ekkamai",
+        uri: mapsSearch("The Lofts Ekkamai Bangkok"),
+        address: "Sukhumvit 63, Khlong Tan Nuea, Watthana, Bangkok 10110",
+        description: "High ceilings, quiet soi and close to Ekkamai.",
+        priceRange: {
+          min: 25000,
+          max: 40000,
+          currency: "THB",
+          period: "month",
+        },
+        unitTypes: ["1 Bedroom", "Duplex"],
+        rating: 4.5,
+        reviewCount: 96,
+        nearestTransit: {
+          station: "Ekkamai",
+          line: "BTS Sukhumvit",
+          walkingMinutes: 6,
+        },
+        amenities: ["Pool", "Gym", "Garden", "Library"],
+        estimatedFields: ["priceRange", "rating"],
+      },
+    ],
+  },
+  {
+    keywords: ["hotel", "siam", "stay", "night"],
+    title: "Hotels around Siam",
+    text: `For a stay in the heart of Siam, these hotels place you steps from the city's finest shopping and the BTS interchange:
+
+- **Siam Kempinski Hotel Bangkok** is a tranquil resort-style retreat directly behind Siam Paragon.
+- **Centara Grand at CentralWorld** offers sweeping skyline views and a direct link to CentralWorld.
+- **Novotel Bangkok on Siam Square** is a comfortable, well-priced option right on Siam Square.
+
+Would you prefer I focus on rooms with a view or on the best value per night?`,
+    criteria: { propertyType: "hotel" },
+    places: [
+      {
+        title: "Siam Kempinski Hotel Bangkok",
+        uri: mapsSearch("Siam Kempinski Hotel Bangkok"),
+        address: "991/9 Rama I Rd, Pathum Wan, Bangkok 10330",
+        description: "An oasis in the middle of the city, impeccable service.",
+        priceRange: { min: 9000, max: 16000, currency: "THB", period: "night" },
+        unitTypes: ["Deluxe Room", "Suite"],
+        rating: 4.7,
+        reviewCount: 8200,
+        nearestTransit: {
+          station: "Siam",
+          line: "BTS Sukhumvit",
+          walkingMinutes: 6,
+        },
+        amenities: ["Pool", "Spa", "Fine dining", "Fitness centre"],
+        estimatedFields: ["priceRange"],
+      },
+      {
+        title: "Centara Grand at CentralWorld",
+        uri: mapsSearch("Centara Grand at CentralWorld Bangkok"),
+        address: "999/99 Rama I Rd, Pathum Wan, Bangkok 10330",
+        description: "Amazing views from the rooftop and great location.",
+        priceRange: { min: 5000, max: 9000, currency: "THB", period: "night" },
+        unitTypes: ["Deluxe Room", "Club Room", "Suite"],
+        rating: 4.5,
+        reviewCount: 15400,
+        nearestTransit: {
+          station: "Chit Lom",
+          line: "BTS Sukhumvit",
+          walkingMinutes: 5,
+        },
+        amenities: ["Rooftop bar", "Pool", "Spa", "Mall access"],
+        estimatedFields: ["priceRange", "reviewCount"],
+      },
+      {
+        title: "Novotel Bangkok on Siam Square",
+        uri: mapsSearch("Novotel Bangkok on Siam Square"),
+        address: "392/44 Siam Square Soi 6, Pathum Wan, Bangkok 10330",
+        description: "Good value right in Siam Square.",
+        priceRange: { min: 3000, max: 5000, currency: "THB", period: "night" },
+        unitTypes: ["Standard Room", "Superior Room"],
+        rating: 4.2,
+        reviewCount: 6900,
+        nearestTransit: {
+          station: "Siam",
+          line: "BTS Sukhumvit",
+          walkingMinutes: 3,
+        },
+        amenities: ["Pool", "Gym", "Restaurant"],
+        estimatedFields: ["priceRange"],
+      },
+    ],
+  },
+  {
+    keywords: ["pet", "dog", "cat", "ari"],
+    title: "Pet-friendly condos in Ari",
+    text: `Ari is a delightful choice for residents with pets: leafy streets, independent cafés and a slower pace. These buildings are known for being pet-friendly:
+
+- **Noble Around Ari** is a modern low-rise close to Ari BTS with a dedicated pet-friendly policy.
+- **Centric Ari Station** sits right by the station and is popular with young professionals.
+
+Pet policies change from building to building, so I would recommend confirming the details with the juristic office before signing.`,
+    criteria: { petsAllowed: true },
+    places: [
+      {
+        title: "Noble Around Ari",
+        uri: mapsSearch("Noble Around Ari Bangkok"),
+        address: "Phahonyothin 1 Alley, Samsen Nai, Phaya Thai, Bangkok 10400",
+        description: "Pet friendly and a short walk from Ari station.",
+        priceRange: {
+          min: 18000,
+          max: 28000,
+          currency: "THB",
+          period: "month",
+        },
+        unitTypes: ["1 Bedroom", "2 Bedroom"],
+        rating: 4.4,
+        reviewCount: 120,
+        nearestTransit: {
+          station: "Ari",
+          line: "BTS Sukhumvit",
+          walkingMinutes: 4,
+        },
+        amenities: ["Pet-friendly", "Pool", "Gym"],
+        estimatedFields: ["priceRange", "reviewCount"],
+      },
+      {
+        title: "Centric Ari Station",
+        uri: mapsSearch("Centric Ari Station Bangkok"),
+        address: "Phahonyothin Rd, Samsen Nai, Phaya Thai, Bangkok 10400",
+        description: "Right next to the BTS, lots of food nearby.",
+        priceRange: {
+          min: 15000,
+          max: 25000,
+          currency: "THB",
+          period: "month",
+        },
+        unitTypes: ["Studio", "1 Bedroom"],
+        rating: 4.1,
+        reviewCount: 140,
+        nearestTransit: {
+          station: "Ari",
+          line: "BTS Sukhumvit",
+          walkingMinutes: 2,
+        },
+        amenities: ["Pool", "Gym", "Garden"],
+        estimatedFields: ["priceRange", "amenities"],
+      },
+    ],
+  },
+];
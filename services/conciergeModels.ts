@@ -0,0 +1,16 @@
+// Models Royce can run on. Shared with the server, which refuses anything else.
+export interface ConciergeModel {
+  id: string;
+  label: string;
+}
+
+export const CONCIERGE_MODELS: ConciergeModel[] = [
+  { id: "gemini-2.5-flash", label: "Gemini 2.5 Flash" },
+  { id: "gemini-2.5-flash-lite", label: "Gemini 2.5 Flash-Lite" },
+  { id: "gemini-2.5-pro", label: "Gemini 2.5 Pro" },
+];
+
+export const DEFAULT_MODEL = "gemini-2.5-flash";
+
+export const resolveModel = (model?: string) =>
+  model && CONCIERGE_MODELS.some((m) => m.id === model) ? model : DEFAULT_MODEL;
@@ -0,0 +1,38 @@
+import { useEffect, useState } from "react";
+
+// navigator.onLine only knows whether there is a network at all, not whether
+// our server is reachable; a failed request still surfaces as a network error.
+export const useOnlineStatus = () => {
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+
+  useEffect(() => {
+    const update = () => setIsOnline(navigator.onLine);
+    window.addEventListener("online", update);
+    window.addEventListener("offline", update);
+    return () => {
+      window.removeEventListener("online", update);
+      window.removeEventListener("offline", update);
+    };
+  }, []);
+
+  return isOnline;
+};
+
+// The service worker caches the app shell and map tiles (see public/sw.js).
+// Development builds skip it so Vite's modules are never served stale.
+export const registerServiceWorker = () => {
+  if (!("serviceWorker" in navigator) || !process.env.SERVICE_WORKER) return;
+  window.addEventListener("load", () => {
+    navigator.serviceWorker
+      .register("/sw.js")
+      .then(() => navigator.serviceWorker.ready)
+      .then((registration) =>
+        // On the first visit the page loaded before the worker existed
+        registration.active?.postMessage({
+          type: "cache-loaded",
+          urls: performance.getEntriesByType("resource").map((e) => e.name),
+        }),
+      )
+      .catch((e) => console.error("Service worker registration failed", e));
+  });
+};
@@ -1,112 +1,236 @@
-import { GoogleGenAI, Chat, Content } from "@google/genai";
-import { GroundingChunk, PlaceData, Location, Message } from "../types";
-
-// Initialize Gemini Client
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-let chatSession: Chat | null = null;
-
-const SYSTEM_INSTRUCTION = `You are Royce, an elite Real Estate and Lifestyle Concierge.
-Your mission is to assist users in discovering the perfect condominiums, apartments, or hotels tailored to their specific lifestyle and needs.
-
-RULES:
-1. You MUST use the 'googleMaps' tool to find real-world locations that match the user's criteria.
-2. When a user specifies a budget (e.g., "20000 THB"), try to find places that likely fit that category or politely explain you are showing the best matches in the area.
-3. Provide a sophisticated, concise summary of *why* you selected these properties.
-4. If the user asks for "apartments" or "condos", look for residential buildings or serviced apartments.
-5. If the user asks for "hotels", look for hotels.
-6. Always include the location context (e.g., "located near the BTS", "in the heart of Siam").
-7. Tone: Professional, polite, knowledgeable, and slightly upscale (like a high-end concierge).
-
-When you return places, the UI will display them as cards with a SATELLITE MAP VIEW of the location. 
-Ensure the places you find are specific buildings or hotels so the map pin is accurate.`;
-
-export const startNewChat = () => {
-  chatSession = ai.chats.create({
-    model: 'gemini-2.5-flash',
-    config: {
-      systemInstruction: SYSTEM_INSTRUCTION,
-      tools: [{ googleMaps: {} }],
-    },
-  });
+import { PlaceData, PlaceInsight, Message, SearchCriteria, Anchor, ChatTurn, SearchContext, StreamChunk } from "../types";
+import { apiFetch, postJson, readApiError } from "./api";
+import { ConciergeError, kindFromResponse, toConciergeError, withRetry } from "./conciergeErrors";
+import type { ConciergeProvider } from "./concierge";
+import { CONCIERGE_MODELS, resolveModel } from "./conciergeModels";
+import { numberPlaces } from "./placeReferences";
+import { placeKey } from "./shortlistStore";
+import { getLocale, t } from "./i18n";
+
+// Royce runs on our server, which holds the Gemini key. The browser keeps each
+// session's conversation and sends it along with every message, just as a Gemini
+// chat would. Chats are keyed by session id so replies in different sessions
+// can be in flight at the same time.
+interface SessionChat {
+  history: ChatTurn[];
+  model: string;
+  placeKeys: string[]; // Every place shown so far; index + 1 is its "#n"
+}
+
+const chats = new Map<string, SessionChat>();
+
+export const startNewChat = (sessionId: string, model?: string) => {
+  chats.set(sessionId, { history: [], model: resolveModel(model), placeKeys: [] });
 };
 
-export const resumeChat = (history: Message[]) => {
-  // Filter out thinking messages and map to Gemini Content format
-  const validHistory: Content[] = history
-    .filter(msg => !msg.isThinking && msg.id !== 'welcome') // Remove system welcome/thinking
-    .map(msg => ({
-      role: msg.role,
-      parts: [{ text: msg.text }]
-    }));
-
-  chatSession = ai.chats.create({
-    model: 'gemini-2.5-flash',
-    config: {
-      systemInstruction: SYSTEM_INSTRUCTION,
-      tools: [{ googleMaps: {} }],
-    },
-    history: validHistory
+// Numbers a reply's places the same way the app numbers its map pins
+const summarizePlaces = (chat: SessionChat, places: PlaceData[] = []) =>
+  places.map(place => {
+    const key = placeKey(place);
+    if (!chat.placeKeys.includes(key)) chat.placeKeys.push(key);
+    return { number: chat.placeKeys.indexOf(key) + 1, title: place.title, address: place.address, placeId: place.placeId };
   });
-};
 
-export const sendMessageToGemini = async (
-  message: string, 
-  userLocation?: Location
-): Promise<{ text: string; places: PlaceData[] }> => {
-  if (!chatSession) {
-    startNewChat();
+// A chat that is already registered keeps its own history, which may include a
+// turn that is still streaming; only the model is updated
+export const resumeChat = (sessionId: string, messages: Message[], model?: string) => {
+  const existing = chats.get(sessionId);
+  if (existing) {
+    existing.model = resolveModel(model);
+    return;
   }
+  const chat: SessionChat = {
+    model: resolveModel(model),
+    history: [],
+    placeKeys: numberPlaces(messages).map(n => n.key),
+  };
+  chat.history = messages
+    .filter((msg, i) => !msg.error && !(msg.role === 'user' && messages[i + 1]?.error)) // A failed turn never happened as far as Gemini knows
+    .filter(msg => !msg.isThinking && !msg.isStreaming && msg.id !== 'welcome') // Remove system welcome/thinking
+    .map(msg => msg.places?.length
+      ? { role: msg.role, text: msg.text, places: summarizePlaces(chat, msg.places) }
+      : { role: msg.role, text: msg.text });
+  chats.set(sessionId, chat);
+};
+
+export const endChat = (sessionId: string) => {
+  chats.delete(sessionId);
+};
+
+// The other calls are one-off requests, safe to repeat when they fail transiently
+const post = <T>(path: string, body: unknown) => withRetry(() => postJson<T>(path, body));
+
+const chatFor = (sessionId: string) => {
+  if (!chats.has(sessionId)) startNewChat(sessionId);
+  return chats.get(sessionId)!;
+};
+
+// One line of the /chat reply: the newly arrived text (with the places when they
+// change), or the failure that ended the stream
+type StreamLine =
+  | { type: 'chunk'; text: string; places?: PlaceData[] }
+  | { type: 'error'; error: string; kind?: unknown };
+
+const parseLine = (raw: string): StreamLine => {
+  const line = JSON.parse(raw);
+  if (typeof line?.error === 'string') return { type: 'error', error: line.error, kind: line.kind };
+  if (typeof line?.text !== 'string') throw new ConciergeError('unavailable');
+  return { type: 'chunk', text: line.text, places: Array.isArray(line.places) ? line.places : undefined };
+};
 
-  if (!chatSession) {
-      throw new Error("Failed to initialize chat session");
+// Reads the server's newline-delimited JSON reply one line at a time
+async function* readLines(body: ReadableStream<Uint8Array>): AsyncGenerator<StreamLine> {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+    const lines = buffer.split("\n");
+    buffer = lines.pop() || "";
+    for (const line of lines) {
+      if (line.trim()) yield parseLine(line);
+    }
   }
+  if (buffer.trim()) yield parseLine(buffer);
+}
+
+// Streams Royce's reply. Each yielded chunk carries the full text received so far
+// and the places from the latest grounding metadata (empty until it arrives).
+// Aborting the signal ends the iteration quietly with whatever was already yielded.
+// Failures are thrown as a ConciergeError; transient ones are retried while nothing
+// has arrived yet. Completed and stopped turns are added to the conversation, a
+// stopped one as the app saves it, so Royce sees what the user sees; failed turns
+// are left out as resumeChat leaves them out.
+export async function* streamMessageToGemini(
+  sessionId: string,
+  message: string,
+  search: SearchContext = {},
+  signal?: AbortSignal
+): AsyncGenerator<StreamChunk> {
+  const chat = chatFor(sessionId);
+  let text = "";
+  let places: PlaceData[] = [];
+  const addTurn = (reply: string) => {
+    chat.history = [
+      ...chat.history,
+      { role: 'user', text: message },
+      places.length ? { role: 'model', text: reply, places: summarizePlaces(chat, places) } : { role: 'model', text: reply },
+    ];
+  };
 
   try {
-    const result = await chatSession.sendMessage({
-      message: message,
-    });
-
-    const text = result.text;
-    
-    // Extract Grounding Chunks (Places)
-    const chunks = result.candidates?.[0]?.groundingMetadata?.groundingChunks as GroundingChunk[] | undefined;
-    const places: PlaceData[] = [];
-
-    if (chunks) {
-      chunks.forEach((chunk) => {
-        if (chunk.maps) {
-          const mapData = chunk.maps;
-          const uri = mapData.uri || mapData.googleMapsUri || "";
-          if (mapData.title && uri) {
-             // Extract a snippet if available
-             const snippet = mapData.placeAnswerSources?.reviewSnippets?.[0]?.content;
-
-             places.push({
-               title: mapData.title,
-               uri: uri,
-               placeId: mapData.placeId,
-               description: snippet,
-               address: mapData.address 
-             });
-          }
-        }
+    const body = await withRetry(async () => {
+      const res = await apiFetch('/chat', {
+        method: 'POST',
+        body: JSON.stringify({ history: chat.history, message, search: { ...search, locale: getLocale() }, model: chat.model }),
+        signal,
       });
+      if (!res.ok || !res.body) throw await readApiError(res, `Chat request failed (${res.status})`);
+      return res.body;
+    }, { signal });
+
+    for await (const line of readLines(body)) {
+      if (line.type === 'error') throw new ConciergeError(kindFromResponse(500, line.kind), line.error);
+      text += line.text;
+      if (line.places) places = line.places;
+      yield { text, places };
     }
 
-    // Filter duplicates based on title
-    const uniquePlaces = places.filter((v, i, a) => a.findIndex(t => (t.title === v.title)) === i);
+    addTurn(text);
+  } catch (error) {
+    if (signal?.aborted) {
+      addTurn(text || t("chat.stopped"));
+      return;
+    }
+    console.error("Concierge API Error:", error);
+    throw toConciergeError(error);
+  }
+}
 
-    return {
-      text: text || "I've curated a list of properties for you:",
-      places: uniquePlaces,
-    };
+export const sendMessageToGemini = async (
+  sessionId: string,
+  message: string,
+  search: SearchContext = {}
+): Promise<{ text: string; places: PlaceData[] }> => {
+  let reply: StreamChunk = { text: "", places: [] };
+  for await (const chunk of streamMessageToGemini(sessionId, message, search)) {
+    reply = chunk;
+  }
+  return reply;
+};
 
+// Reads the user's turn into structured criteria. The previous criteria are carried
+// over unless the message changes or drops them; on failure they are returned as-is.
+export const extractSearchCriteria = async (
+  message: string,
+  previous: SearchCriteria = {},
+  model?: string
+): Promise<SearchCriteria> => {
+  try {
+    const { criteria } = await post<{ criteria: SearchCriteria }>('/criteria', { message, previous, model });
+    return criteria;
   } catch (error) {
-    console.error("Gemini API Error:", error);
-    return {
-      text: "I apologize, but I am unable to access the property database at this moment. Please try again shortly.",
-      places: [],
-    };
+    console.error("Criteria extraction error:", error);
+    return previous;
   }
-};
\ No newline at end of file
+};
+
+// Fills in listing details and commute times for the grounded places; on failure
+// the places are returned unchanged.
+export const enrichPlaces = async (
+  places: PlaceData[],
+  criteria?: SearchCriteria,
+  anchors: Anchor[] = [],
+  model?: string
+): Promise<PlaceData[]> => {
+  if (places.length === 0) return places;
+  try {
+    const { places: enriched } = await post<{ places: PlaceData[] }>('/enrich', { places, criteria, anchors, model });
+    return enriched;
+  } catch (error) {
+    console.error("Place enrichment error:", error);
+    return places;
+  }
+};
+
+// One-off comparison outside the chat history, so it never derails the conversation
+export const comparePlaces = async (
+  places: PlaceData[],
+  criteria?: SearchCriteria,
+  model?: string
+): Promise<string> => {
+  const { text } = await post<{ text: string }>('/compare', { places, criteria, locale: getLocale(), model });
+  return text;
+};
+
+// Deep-dive on one building for the detail drawer; failures reach the caller
+export const describePlace = async (
+  place: PlaceData,
+  criteria?: SearchCriteria,
+  model?: string
+): Promise<PlaceInsight> => {
+  const { insight } = await post<{ insight: PlaceInsight }>('/place-insight', { place, criteria, locale: getLocale(), model });
+  return insight;
+};
+
+export const suggestTitle = async (message: string, reply: string, model?: string): Promise<string> => {
+  const { title } = await post<{ title: string }>('/title', { message, reply, locale: getLocale(), model });
+  return title;
+};
+
+export const geminiProvider: ConciergeProvider = {
+  name: 'gemini',
+  models: CONCIERGE_MODELS,
+  defaultModel: resolveModel(process.env.CONCIERGE_MODEL),
+  start: startNewChat,
+  resume: resumeChat,
+  end: endChat,
+  send: sendMessageToGemini,
+  stream: streamMessageToGemini,
+  extractSearchCriteria,
+  enrichPlaces,
+  comparePlaces,
+  describePlace,
+  suggestTitle,
+};
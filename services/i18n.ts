@@ -0,0 +1,111 @@
+import { Locale } from "../types";
+import { MESSAGES, MessageKey } from "./translations";
+
+// UI language, and the language Royce replies in. The current locale is module
+// state like the session token in api.ts: App changes it and re-renders, so
+// components and formatters read it through t() and the helpers below.
+export const LOCALES: Record<
+  Locale,
+  { label: string; intl: string; language: string }
+> = {
+  en: { label: "English", intl: "en-US", language: "English" },
+  th: { label: "ไทย", intl: "th-TH", language: "Thai" },
+  ja: { label: "日本語", intl: "ja-JP", language: "Japanese" },
+  zh: { label: "中文", intl: "zh-CN", language: "Simplified Chinese" },
+};
+
+export const DEFAULT_LOCALE: Locale = "en";
+
+const LOCALE_STORAGE_KEY = "condoscout_locale";
+
+let currentLocale: Locale = DEFAULT_LOCALE;
+
+export const isLocale = (value: unknown): value is Locale =>
+  typeof value === "string" && value in LOCALES;
+
+export const getLocale = () => currentLocale;
+
+export const setLocale = (locale: Locale) => {
+  currentLocale = locale;
+};
+
+// The saved choice, else the first browser language we have, e.g. "th-TH"
+export const loadLocale = (): Locale => {
+  const saved = localStorage.getItem(LOCALE_STORAGE_KEY);
+  if (isLocale(saved)) return saved;
+  const preferred = navigator.languages
+    .map((tag) => tag.split("-")[0].toLowerCase())
+    .find(isLocale);
+  return preferred || DEFAULT_LOCALE;
+};
+
+export const saveLocale = (locale: Locale) =>
+  localStorage.setItem(LOCALE_STORAGE_KEY, locale);
+
+// Looks up a UI string, filling in {name} placeholders. Keys missing from a
+// translation fall back to English.
+export const t = (
+  key: MessageKey,
+  vars: Record<string, string | number> = {},
+): string =>
+  (MESSAGES[currentLocale][key] ?? MESSAGES.en[key]).replace(
+    /\{(\w+)\}/g,
+    (match, name) => (name in vars ? String(vars[name]) : match),
+  );
+
+// --- Formatting ---
+
+const intlTag = () => LOCALES[currentLocale].intl;
+
+export const formatNumber = (value: number, maximumFractionDigits = 0) =>
+  new Intl.NumberFormat(intlTag(), { maximumFractionDigits }).format(value);
+
+// Whole amounts with the locale's currency symbol and grouping, e.g. "฿25,000"
+// in Thai or "THB 25,000" in English
+export const formatMoney = (amount: number, currency: string) => {
+  try {
+    return new Intl.NumberFormat(intlTag(), {
+      style: "currency",
+      currency,
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0,
+    }).format(amount);
+  } catch (e) {
+    // Not an ISO 4217 code, e.g. a model reply with "baht"
+    return `${formatNumber(amount)} ${currency}`;
+  }
+};
+
+const formatUnit = (value: number, unit: string, maximumFractionDigits = 0) =>
+  new Intl.NumberFormat(intlTag(), {
+    style: "unit",
+    unit,
+    unitDisplay: "short",
+    maximumFractionDigits,
+  }).format(value);
+
+// Metric everywhere: listings and transit maps in Thailand use it
+export const formatDistance = (meters: number) =>
+  meters >= 1000
+    ? formatUnit(meters / 1000, "kilometer", 1)
+    : formatUnit(meters, "meter");
+
+export const formatMinutes = (minutes: number) => formatUnit(minutes, "minute");
+
+export const formatDate = (
+  time: number,
+  options: Intl.DateTimeFormatOptions = {},
+) => new Date(time).toLocaleDateString(intlTag(), options);
+
+export const formatDateTime = (time: number) =>
+  new Date(time).toLocaleString(intlTag(), {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+
+// Added to Royce's instructions on the server; the model follows the user's
+// language there, not the language of the place names it finds
+export const replyLanguageInstruction = (locale: Locale) =>
+  locale === DEFAULT_LOCALE
+    ? ""
+    : `Always reply in ${LOCALES[locale].language}, whatever language earlier turns used. Keep building names and addresses as Google Maps gives them.`;
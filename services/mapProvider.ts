@@ -0,0 +1,286 @@
+import { Location, PlaceData } from "../types";
+import { placeKey } from "./shortlistStore";
+import { LOCALES, getLocale } from "./i18n";
+
+// Everything the results map needs from a map backend: raster tiles in the usual
+// z/x/y Web Mercator scheme and a way to turn a grounded place into coordinates
+export interface MapProvider {
+  name: string;
+  attribution: string;
+  maxZoom: number;
+  prepare: () => Promise<void>; // Called once before the first tileUrl
+  tileUrl: (x: number, y: number, z: number) => string;
+  geocode: (place: PlaceData) => Promise<Location | null>;
+}
+
+export const TILE_SIZE = 256;
+
+// Map Tiles sessions need a region for borders and labels; listings are in
+// Thailand whatever language the user reads
+const TILE_REGION = "TH";
+
+// --- Web Mercator helpers ---
+
+export const project = (loc: Location, zoom: number) => {
+  const worldSize = TILE_SIZE * Math.pow(2, zoom);
+  const sinLat = Math.sin((loc.latitude * Math.PI) / 180);
+  return {
+    x: ((loc.longitude + 180) / 360) * worldSize,
+    y:
+      (0.5 - Math.log((1 + sinLat) / (1 - sinLat)) / (4 * Math.PI)) * worldSize,
+  };
+};
+
+export const unproject = (x: number, y: number, zoom: number): Location => {
+  const worldSize = TILE_SIZE * Math.pow(2, zoom);
+  const n = Math.PI - (2 * Math.PI * y) / worldSize;
+  return {
+    latitude: (180 / Math.PI) * Math.atan(Math.sinh(n)),
+    longitude: (x / worldSize) * 360 - 180,
+  };
+};
+
+// --- Providers ---
+
+// OpenStreetMap tiles and Nominatim search. Nominatim allows one request per
+// second, so lookups are chained through a single queue.
+export const createOsmProvider = (): MapProvider => {
+  let queue: Promise<unknown> = Promise.resolve();
+  const delay = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+  return {
+    name: "osm",
+    attribution: "© OpenStreetMap contributors",
+    maxZoom: 19,
+    prepare: async () => {},
+    tileUrl: (x, y, z) => `https://tile.openstreetmap.org/${z}/${x}/${y}.png`,
+    geocode: (place) => {
+      const lookup = queue
+        .catch(() => {})
+        .then(async () => {
+          const q = encodeURIComponent(
+            [place.title, place.address].filter(Boolean).join(", "),
+          );
+          try {
+            const res = await fetch(
+              `https://nominatim.openstreetmap.org/search?format=json&limit=1&q=${q}`,
+            );
+            const results = await res.json();
+            if (!Array.isArray(results) || results.length === 0) return null;
+            return {
+              latitude: parseFloat(results[0].lat),
+              longitude: parseFloat(results[0].lon),
+            };
+          } finally {
+            await delay(1000);
+          }
+        });
+      queue = lookup;
+      return lookup;
+    },
+  };
+};
+
+// Google Map Tiles API (session based) and the Geocoding API, which can resolve
+// the placeId that Maps grounding returns directly
+export const createGoogleProvider = (apiKey: string): MapProvider => {
+  let session = "";
+
+  return {
+    name: "google",
+    attribution: "Map data © Google",
+    maxZoom: 21,
+    prepare: async () => {
+      if (session) return;
+      const res = await fetch(
+        `https://tile.googleapis.com/v1/createSession?key=${apiKey}`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            mapType: "roadmap",
+            language: LOCALES[getLocale()].intl,
+            region: TILE_REGION,
+          }),
+        },
+      );
+      if (!res.ok) {
+        throw new Error(`Map Tiles session failed (${res.status})`);
+      }
+      session = (await res.json()).session || "";
+    },
+    tileUrl: (x, y, z) =>
+      `https://tile.googleapis.com/v1/2dtiles/${z}/${x}/${y}?session=${session}&key=${apiKey}`,
+    geocode: async (place) => {
+      const query = place.placeId
+        ? `place_id=${encodeURIComponent(place.placeId)}`
+        : `address=${encodeURIComponent([place.title, place.address].filter(Boolean).join(", "))}`;
+      const res = await fetch(
+        `https://maps.googleapis.com/maps/api/geocode/json?${query}&key=${apiKey}`,
+      );
+      const data = await res.json();
+      const loc = data.results?.[0]?.geometry?.location;
+      return loc ? { latitude: loc.lat, longitude: loc.lng } : null;
+    },
+  };
+};
+
+// Offline provider for tests and local development: plain grid tiles and
+// deterministic coordinates scattered around central Bangkok
+export const createStubMapProvider = (
+  fixtures: Record<string, Location> = {},
+): MapProvider => {
+  const tile = `data:image/svg+xml,${encodeURIComponent(
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${TILE_SIZE}" height="${TILE_SIZE}"><rect width="100%" height="100%" fill="#e2e8f0"/><path d="M0 0H${TILE_SIZE}V${TILE_SIZE}" fill="none" stroke="#cbd5e1"/></svg>`,
+  )}`;
+
+  const hash = (text: string) =>
+    Array.from(text).reduce((h, c) => (h * 31 + c.charCodeAt(0)) >>> 0, 7);
+
+  return {
+    name: "stub",
+    attribution: "Stub map",
+    maxZoom: 19,
+    prepare: async () => {},
+    tileUrl: () => tile,
+    geocode: async (place) => {
+      const key = placeKey(place);
+      if (fixtures[key]) return fixtures[key];
+      const h = hash(key);
+      return {
+        latitude: 13.7563 + ((h % 1000) / 1000 - 0.5) * 0.08,
+        longitude: 100.5018 + (((h >> 10) % 1000) / 1000 - 0.5) * 0.08,
+      };
+    },
+  };
+};
+
+// Google when a Maps Platform key is configured, OpenStreetMap otherwise
+export const getDefaultMapProvider = (): MapProvider => {
+  if (process.env.MAP_PROVIDER === "stub") return createStubMapProvider();
+  const googleKey = process.env.GOOGLE_MAPS_API_KEY;
+  return googleKey ? createGoogleProvider(googleKey) : createOsmProvider();
+};
+
+// --- Geocode cache ---
+
+const cacheKey = (provider: MapProvider) =>
+  `condoscout_geocode_${provider.name}`;
+
+const readCache = (provider: MapProvider): Record<string, Location | null> => {
+  try {
+    return JSON.parse(localStorage.getItem(cacheKey(provider)) || "{}");
+  } catch (e) {
+    return {};
+  }
+};
+
+const inflight = new Map<string, Promise<Location | null>>();
+
+// Coordinates rarely change, so lookups (including misses) are remembered per
+// provider to spare rate-limited geocoders on every re-render and reload.
+// Failed requests are not cached so they are retried next time.
+export const geocodeWithCache = async (
+  provider: MapProvider,
+  place: PlaceData,
+): Promise<Location | null> => {
+  const key = placeKey(place);
+  const cache = readCache(provider);
+  if (key in cache) return cache[key];
+
+  const inflightKey = `${provider.name}:${key}`;
+  const existing = inflight.get(inflightKey);
+  if (existing) return existing;
+
+  const lookup = provider
+    .geocode(place)
+    .then((location) => {
+      localStorage.setItem(
+        cacheKey(provider),
+        JSON.stringify({ ...readCache(provider), [key]: location }),
+      );
+      return location;
+    })
+    .catch((e) => {
+      console.error("Geocoding failed", e);
+      return null;
+    })
+    .finally(() => inflight.delete(inflightKey));
+
+  inflight.set(inflightKey, lookup);
+  return lookup;
+};
+
+// --- Static images ---
+
+const loadTile = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = "anonymous"; // Lets the canvas be read back afterwards
+    img.onload = () => resolve(img);
+    img.onerror = reject;
+    img.src = src;
+  });
+
+// Stitches the provider's tiles around a place into a PNG data URL with a pin
+// in the middle, so exported reports carry a map without a static-maps service.
+// Null when the place cannot be located or a tile fails to load.
+export const renderStaticMap = async (
+  provider: MapProvider,
+  place: PlaceData,
+  { width = 480, height = 220, zoom = 16 } = {},
+): Promise<string | null> => {
+  const location = await geocodeWithCache(provider, place);
+  if (!location) return null;
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return null;
+
+  const z = Math.min(zoom, provider.maxZoom);
+  const tileCount = Math.pow(2, z);
+  const center = project(location, z);
+  const left = center.x - width / 2;
+  const top = center.y - height / 2;
+  const tiles: { x: number; y: number }[] = [];
+  for (
+    let x = Math.floor(left / TILE_SIZE);
+    x * TILE_SIZE < left + width;
+    x++
+  ) {
+    for (
+      let y = Math.floor(top / TILE_SIZE);
+      y * TILE_SIZE < top + height;
+      y++
+    ) {
+      if (y >= 0 && y < tileCount) tiles.push({ x, y });
+    }
+  }
+
+  try {
+    await provider.prepare();
+    await Promise.all(
+      tiles.map(async ({ x, y }) => {
+        const wrappedX = ((x % tileCount) + tileCount) % tileCount;
+        const img = await loadTile(provider.tileUrl(wrappedX, y, z));
+        ctx.drawImage(img, x * TILE_SIZE - left, y * TILE_SIZE - top);
+      }),
+    );
+    ctx.fillStyle = "#4f46e5";
+    ctx.strokeStyle = "#ffffff";
+    ctx.lineWidth = 3;
+    ctx.beginPath();
+    ctx.arc(width / 2, height / 2, 8, 0, 2 * Math.PI);
+    ctx.fill();
+    ctx.stroke();
+    ctx.font = "10px sans-serif";
+    ctx.textAlign = "right";
+    ctx.fillStyle = "rgba(15, 23, 42, 0.7)";
+    ctx.fillText(provider.attribution, width - 4, height - 4);
+    return canvas.toDataURL("image/png");
+  } catch (e) {
+    console.error("Static map failed", e);
+    return null;
+  }
+};
@@ -0,0 +1,158 @@
+import {
+  Anchor,
+  PlaceData,
+  PlaceInsight,
+  SearchCriteria,
+  StreamChunk,
+} from "../types";
+import type { ConciergeProvider } from "./concierge";
+import { CONCIERGE_FIXTURES, ConciergeFixture } from "./conciergeFixtures";
+
+const MOCK_MODEL = "mock";
+
+// Same inputs always give the same output, so runs are reproducible
+const hash = (text: string) =>
+  Array.from(text).reduce((h, c) => (h * 31 + c.charCodeAt(0)) >>> 0, 7);
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Replays recorded replies instead of calling a model. A message is answered by
+// the first fixture whose keywords it mentions, otherwise fixtures take turns.
+// Replies are streamed a few words at a time, with the places arriving last as
+// grounding metadata does.
+export const createMockProvider = (
+  fixtures: ConciergeFixture[] = CONCIERGE_FIXTURES,
+  chunkDelayMs = 40,
+): ConciergeProvider => {
+  // User turns taken so far, per session
+  const turns = new Map<string, number>();
+
+  const pickFixture = (message: string, turn = 0) => {
+    const lower = message.toLowerCase();
+    return (
+      fixtures.find((f) => f.keywords.some((k) => lower.includes(k))) ||
+      fixtures[turn % fixtures.length]
+    );
+  };
+
+  async function* stream(
+    sessionId: string,
+    message: string,
+    _search = {},
+    signal?: AbortSignal,
+  ): AsyncGenerator<StreamChunk> {
+    const turn = turns.get(sessionId) ?? 0;
+    const fixture = pickFixture(message, turn);
+    turns.set(sessionId, turn + 1);
+
+    const words = fixture.text.split(/(?<=\s)/);
+    let text = "";
+    for (let i = 0; i < words.length; i += 4) {
+      await wait(chunkDelayMs);
+      if (signal?.aborted) return;
+      text += words.slice(i, i + 4).join("");
+      yield { text, places: [] };
+    }
+    yield { text, places: fixture.places };
+  }
+
+  const send = async (sessionId: string, message: string) => {
+    let reply: StreamChunk = { text: "", places: [] };
+    for await (const chunk of stream(sessionId, message)) reply = chunk;
+    return reply;
+  };
+
+  const enrichPlaces = async (
+    places: PlaceData[],
+    _criteria?: SearchCriteria,
+    anchors: Anchor[] = [],
+  ) =>
+    places.map((place) => {
+      if (anchors.length === 0) return place;
+      const commutes = anchors.map((anchor) => {
+        const h = hash(`${place.title}|${anchor.address}`);
+        return {
+          anchorId: anchor.id,
+          transitMinutes: 10 + (h % 40),
+          walkMinutes: 15 + ((h >> 6) % 90),
+          driveMinutes: 8 + ((h >> 12) % 35),
+        };
+      });
+      return {
+        ...place,
+        commutes,
+        estimatedFields: [
+          ...(place.estimatedFields || []).filter((f) => f !== "commutes"),
+          "commutes" as const,
+        ],
+      };
+    });
+
+  const comparePlaces = async (places: PlaceData[]) => {
+    const ranked = [...places].sort(
+      (a, b) => (b.rating ?? 0) - (a.rating ?? 0),
+    );
+    const lines = ranked.map(
+      (p) =>
+        `- **${p.title}**: ${p.nearestTransit ? `near ${p.nearestTransit.station}` : "location to confirm"}${p.rating !== undefined ? `, rated ${p.rating}` : ""}.`,
+    );
+    return `**Verdict**: ${ranked[0]?.title ?? "No clear winner"} has the strongest reviews of this group. (Recorded fixture reply.)\n\n${lines.join("\n")}`;
+  };
+
+  // Built from the place's own listing data, so every fixture place has one
+  const describePlace = async (place: PlaceData): Promise<PlaceInsight> => {
+    const transit = place.nearestTransit;
+    const { priceRange } = place;
+    return {
+      summary: `${place.title} is ${place.description ? `known for this: "${place.description}"` : "a well-located building"} (Recorded fixture reply.)`,
+      pros: [
+        ...(transit
+          ? [
+              `${transit.walkingMinutes ?? "A few"} min walk to ${transit.station}`,
+            ]
+          : []),
+        ...(place.amenities || []).slice(0, 2),
+      ],
+      cons: [
+        place.rating !== undefined && place.rating < 4.3
+          ? "Reviews mention uneven maintenance"
+          : "Popular, so units go quickly",
+      ],
+      typicalRent: priceRange
+        ? `${priceRange.min ?? "?"}-${priceRange.max ?? "?"} ${priceRange.currency} per ${priceRange.period}`
+        : undefined,
+      neighbourhood: place.address
+        ? `Around ${place.address.split(",")[0]}.`
+        : undefined,
+      nearbyAmenities: transit ? [`${transit.station} station`] : [],
+      reviewThemes: place.description ? [place.description] : [],
+    };
+  };
+
+  return {
+    name: "mock",
+    models: [{ id: MOCK_MODEL, label: "Recorded fixtures" }],
+    defaultModel: MOCK_MODEL,
+    start: (sessionId) => {
+      turns.set(sessionId, 0);
+    },
+    resume: (sessionId, history) => {
+      if (!turns.has(sessionId)) {
+        turns.set(sessionId, history.filter((m) => m.role === "user").length);
+      }
+    },
+    end: (sessionId) => {
+      turns.delete(sessionId);
+    },
+    send,
+    stream,
+    extractSearchCriteria: async (message, previous = {}) => ({
+      ...previous,
+      ...pickFixture(message).criteria,
+    }),
+    enrichPlaces,
+    comparePlaces,
+    describePlace,
+    suggestTitle: async (message) => pickFixture(message).title,
+  };
+};
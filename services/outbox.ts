@@ -0,0 +1,35 @@
+import { v4 as uuidv4 } from "uuid";
+import { OutboxEntry } from "../types";
+
+// Messages typed without a connection wait here rather than failing. The
+// outbox lives next to the sessions it belongs to, so it survives a reload and
+// is delivered oldest first, each into its own session, once the app is online.
+
+export const outboxStorageKey = (userId: string | null) =>
+  userId ? `condoscout_outbox_${userId}` : "condoscout_guest_outbox";
+
+export const parseOutbox = (jsonString: string | null): OutboxEntry[] => {
+  if (!jsonString) return [];
+  try {
+    const parsed = JSON.parse(jsonString);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    console.error("Failed to read outbox", e);
+    return [];
+  }
+};
+
+export const queueMessage = (
+  outbox: OutboxEntry[],
+  sessionId: string,
+  text: string,
+): OutboxEntry[] => [
+  ...outbox,
+  { id: uuidv4(), sessionId, text, queuedAt: Date.now() },
+];
+
+export const removeFromOutbox = (outbox: OutboxEntry[], id: string) =>
+  outbox.filter((entry) => entry.id !== id);
+
+export const queuedFor = (outbox: OutboxEntry[], sessionId: string | null) =>
+  outbox.filter((entry) => entry.sessionId === sessionId);
@@ -0,0 +1,89 @@
+import { PlaceData, PlaceInsight, SearchCriteria } from "../types";
+import type { ConciergeProvider } from "./concierge";
+import { placeKey } from "./shortlistStore";
+import { getLocale } from "./i18n";
+
+const STORAGE_KEY = "condoscout_place_insights";
+const MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_ENTRIES = 50;
+
+interface CachedInsight {
+  insight: PlaceInsight;
+  fetchedAt: number;
+}
+
+// Insights describe the building rather than the user, so one cache is shared
+// by every account on this browser. Keyed by provider, model, locale (the
+// insight is written in the UI language) and placeKey, which is the Google
+// placeId whenever grounding returned one.
+const cacheKey = (
+  provider: ConciergeProvider,
+  place: PlaceData,
+  model = provider.defaultModel,
+) => `${provider.name}:${model}:${getLocale()}:${placeKey(place)}`;
+
+const readCache = (): Record<string, CachedInsight> => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || "{}");
+  } catch (e) {
+    return {};
+  }
+};
+
+// Keeps only the most recent entries so the cache never crowds out sessions
+const writeCache = (cache: Record<string, CachedInsight>) => {
+  const entries = Object.entries(cache)
+    .sort(([, a], [, b]) => b.fetchedAt - a.fetchedAt)
+    .slice(0, MAX_ENTRIES);
+  try {
+    localStorage.setItem(
+      STORAGE_KEY,
+      JSON.stringify(Object.fromEntries(entries)),
+    );
+  } catch (e) {
+    console.error("Failed to cache place insight", e);
+  }
+};
+
+export const getCachedInsight = (
+  provider: ConciergeProvider,
+  place: PlaceData,
+  model?: string,
+  now = Date.now(),
+): PlaceInsight | undefined => {
+  const cached = readCache()[cacheKey(provider, place, model)];
+  return cached && now - cached.fetchedAt < MAX_AGE_MS
+    ? cached.insight
+    : undefined;
+};
+
+const pending = new Map<string, Promise<PlaceInsight>>();
+
+// Asks the provider at most once per place; opening the same place again while
+// the first request is in flight shares it
+export const loadPlaceInsight = (
+  provider: ConciergeProvider,
+  place: PlaceData,
+  criteria?: SearchCriteria,
+  model?: string,
+): Promise<PlaceInsight> => {
+  const cached = getCachedInsight(provider, place, model);
+  if (cached) return Promise.resolve(cached);
+
+  const key = cacheKey(provider, place, model);
+  let request = pending.get(key);
+  if (!request) {
+    request = provider
+      .describePlace(place, criteria, model)
+      .then((insight) => {
+        writeCache({
+          ...readCache(),
+          [key]: { insight, fetchedAt: Date.now() },
+        });
+        return insight;
+      })
+      .finally(() => pending.delete(key));
+    pending.set(key, request);
+  }
+  return request;
+};
@@ -0,0 +1,65 @@
+import { Message, PlaceData, PlaceSummary } from "../types";
+import { placeKey } from "./shortlistStore";
+
+// A place with its number in the session: the map pin label and what "#2"
+// refers to in a message
+export interface NumberedPlace {
+  key: string;
+  number: number;
+  place: PlaceData;
+}
+
+// Every distinct place in the conversation, numbered in order of appearance
+export const numberPlaces = (messages: Message[]): NumberedPlace[] => {
+  const numbered: NumberedPlace[] = [];
+  messages.forEach((msg) =>
+    msg.places?.forEach((place) => {
+      const key = placeKey(place);
+      if (!numbered.some((n) => n.key === key)) {
+        numbered.push({ key, number: numbered.length + 1, place });
+      }
+    }),
+  );
+  return numbered;
+};
+
+export const toPlaceSummary = ({
+  number,
+  place,
+}: NumberedPlace): PlaceSummary => ({
+  number,
+  title: place.title,
+  address: place.address,
+  placeId: place.placeId,
+});
+
+// The numbered places a message mentions as "#n", in order, without repeats
+export const findPlaceReferences = (
+  text: string,
+  numbered: NumberedPlace[],
+): PlaceSummary[] => {
+  const numbers = [...text.matchAll(/#(\d+)\b/g)].map((m) => Number(m[1]));
+  return numbered
+    .filter((n) => numbers.includes(n.number))
+    .sort((a, b) => numbers.indexOf(a.number) - numbers.indexOf(b.number))
+    .map(toPlaceSummary);
+};
+
+// One line per place, for prompts: "#2 Rhythm Sukhumvit 42 — Sukhumvit 42 (placeId: …)"
+export const describePlaceSummaries = (places: PlaceSummary[]) =>
+  places
+    .map(
+      (p) =>
+        `#${p.number} ${p.title}${p.address ? ` — ${p.address}` : ""}${p.placeId ? ` (placeId: ${p.placeId})` : ""}`,
+    )
+    .join("; ");
+
+// Place links come from grounding, or from whoever posted a share, so only
+// http(s) ones are opened or rendered as links
+export const isWebUrl = (uri: string) => {
+  try {
+    return ["http:", "https:"].includes(new URL(uri).protocol);
+  } catch (e) {
+    return false;
+  }
+};
@@ -0,0 +1,59 @@
+import { PlaceData } from "../types";
+import { getDefaultMapProvider, renderStaticMap } from "./mapProvider";
+import { placeKey } from "./shortlistStore";
+
+// Place cards show a live Google Maps embed, which needs a connection. While
+// online each card also renders a static map of the same spot into Cache
+// Storage, and shows that instead once the app is offline.
+const CACHE_NAME = "condoscout-place-thumbnails";
+const WIDTH = 320;
+const HEIGHT = 192;
+
+const mapProvider = getDefaultMapProvider();
+const pending = new Map<string, Promise<void>>();
+
+const thumbnailRequest = (place: PlaceData) =>
+  new Request(`/thumbnails/${encodeURIComponent(placeKey(place))}.png`);
+
+const hasCacheStorage = () => typeof caches !== "undefined";
+
+// An object URL the caller must revoke, or null if none was saved
+export const getCachedThumbnail = async (
+  place: PlaceData,
+): Promise<string | null> => {
+  if (!hasCacheStorage()) return null;
+  const cache = await caches.open(CACHE_NAME);
+  const cached = await cache.match(thumbnailRequest(place));
+  return cached ? URL.createObjectURL(await cached.blob()) : null;
+};
+
+// Renders and stores the thumbnail unless it already exists. Geocoding goes
+// through the shared cache, so a place is only ever looked up once.
+export const saveThumbnail = (place: PlaceData) => {
+  if (!hasCacheStorage()) return Promise.resolve();
+  const key = placeKey(place);
+  const existing = pending.get(key);
+  if (existing) return existing;
+
+  const task = (async () => {
+    const cache = await caches.open(CACHE_NAME);
+    const request = thumbnailRequest(place);
+    if (await cache.match(request)) return;
+    const dataUrl = await renderStaticMap(mapProvider, place, {
+      width: WIDTH,
+      height: HEIGHT,
+      zoom: 17,
+    });
+    if (!dataUrl) return;
+    const blob = await (await fetch(dataUrl)).blob();
+    await cache.put(
+      request,
+      new Response(blob, { headers: { "Content-Type": "image/png" } }),
+    );
+  })()
+    .catch((e) => console.error("Failed to save place thumbnail", e))
+    .finally(() => pending.delete(key));
+
+  pending.set(key, task);
+  return task;
+};
@@ -0,0 +1,342 @@
+import { createElement } from "react";
+import { renderToStaticMarkup } from "react-dom/server";
+import ReactMarkdown from "react-markdown";
+import { Anchor, ListingField, Message, PlaceData, TravelMode } from "../types";
+import { MapProvider, renderStaticMap } from "./mapProvider";
+import { NumberedPlace, isWebUrl, numberPlaces } from "./placeReferences";
+import { formatPriceRange } from "./searchCriteria";
+import {
+  LOCALES,
+  formatDate,
+  formatMinutes,
+  formatNumber,
+  getLocale,
+  t,
+} from "./i18n";
+import { commuteMinutes, travelModeLabel } from "./commute";
+import { placeKey } from "./shortlistStore";
+
+export type ExportFormat = "markdown" | "csv" | "pdf";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["markdown", "csv", "pdf"];
+
+export const exportFormatLabel = (format: ExportFormat) =>
+  t(`export.${format}`);
+
+// What a report covers: a whole conversation, or just a selection of places
+export interface ReportSource {
+  title: string;
+  messages?: Message[];
+  places?: PlaceData[];
+  anchors?: Anchor[];
+}
+
+const TRAVEL_MODES: TravelMode[] = ["transit", "walk", "drive"];
+
+// A conversation numbers its places as the chat does, so "#2" in a message
+// matches place 2 in the report; a selection is numbered in order
+const reportPlaces = ({ messages, places }: ReportSource): NumberedPlace[] =>
+  messages
+    ? numberPlaces(messages)
+    : (places || []).map((place, i) => ({
+        key: placeKey(place),
+        number: i + 1,
+        place,
+      }));
+
+const exportedMessages = (messages: Message[] = []) =>
+  messages.filter((msg) => !msg.isThinking && msg.text.trim());
+
+const formatPrice = (place: PlaceData) =>
+  place.priceRange ? formatPriceRange(place.priceRange) : undefined;
+
+// The card badges as plain text, estimated values marked as in the app
+const placeFacts = (place: PlaceData, anchors: Anchor[] = []) => {
+  const est = (field: ListingField) =>
+    place.estimatedFields?.includes(field) ? ` (${t("place.est")})` : "";
+  const facts: string[] = [];
+  const price = formatPrice(place);
+  if (price) facts.push(`${price}${est("priceRange")}`);
+  if (place.rating !== undefined) {
+    facts.push(
+      `★ ${place.rating.toFixed(1)}${place.reviewCount !== undefined ? ` (${t("report.reviews", { count: formatNumber(place.reviewCount) })})` : ""}${est("rating")}`,
+    );
+  }
+  if (place.nearestTransit) {
+    const { station, walkingMinutes } = place.nearestTransit;
+    facts.push(
+      `${station}${walkingMinutes !== undefined ? ` · ${t("place.walk", { time: formatMinutes(walkingMinutes) })}` : ""}${est("nearestTransit")}`,
+    );
+  }
+  anchors.forEach((anchor) => {
+    const minutes = commuteMinutes(place, anchor.id, "transit");
+    if (minutes !== undefined) {
+      const commute = t("place.commute", {
+        mode: travelModeLabel("transit"),
+        anchor: anchor.name,
+        time: formatMinutes(minutes),
+      });
+      facts.push(`${commute}${est("commutes")}`);
+    }
+  });
+  if (place.unitTypes?.length) facts.push(place.unitTypes.join(", "));
+  if (place.amenities?.length) facts.push(place.amenities.join(", "));
+  return facts;
+};
+
+const exportDate = () => formatDate(Date.now(), { dateStyle: "long" });
+
+const roleLabel = (msg: Message) =>
+  msg.role === "user" ? t("chat.you") : "Royce";
+
+// --- Markdown ---
+
+export const toMarkdown = (source: ReportSource) => {
+  const numbered = reportPlaces(source);
+  const numberOf = (place: PlaceData) =>
+    numbered.find((n) => n.key === placeKey(place))?.number;
+  const lines = [
+    `# ${source.title}`,
+    "",
+    `_${t("report.exportedOn", { date: exportDate() })}_`,
+    "",
+  ];
+
+  exportedMessages(source.messages).forEach((msg) => {
+    lines.push(`**${roleLabel(msg)}:**`, "", msg.text);
+    if (msg.places?.length) {
+      const shown = msg.places.map((p) => `#${numberOf(p)} ${p.title}`);
+      lines.push(
+        "",
+        `_${t("report.placesShown", { places: shown.join(", ") })}_`,
+      );
+    }
+    lines.push("");
+  });
+
+  if (numbered.length > 0) {
+    if (source.messages) lines.push(`## ${t("report.places")}`, "");
+    numbered.forEach(({ number, place }) => {
+      lines.push(`${number}. **${place.title}**`);
+      if (place.address) lines.push(`   ${place.address}`);
+      const facts = placeFacts(place, source.anchors);
+      if (facts.length) lines.push(`   ${facts.join(" · ")}`);
+      if (place.description) lines.push(`   > "${place.description}"`);
+      if (isWebUrl(place.uri)) {
+        lines.push(`   [${t("place.directionsTitle")}](${place.uri})`);
+      }
+      lines.push("");
+    });
+  }
+
+  return lines.join("\n");
+};
+
+// --- CSV ---
+
+const csvCell = (value: unknown) => {
+  if (value === undefined || value === null) return "";
+  const text = Array.isArray(value) ? value.join("; ") : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One row per place with every structured field, plus a column per commute
+// anchor and travel mode
+export const toCsv = (source: ReportSource) => {
+  const anchors = source.anchors || [];
+  const header = [
+    t("csv.number"),
+    t("csv.title"),
+    t("csv.address"),
+    t("csv.placeId"),
+    t("csv.mapsUrl"),
+    t("csv.priceMin"),
+    t("csv.priceMax"),
+    t("csv.currency"),
+    t("csv.pricePeriod"),
+    t("csv.unitTypes"),
+    t("csv.rating"),
+    t("csv.reviewCount"),
+    t("csv.station"),
+    t("csv.line"),
+    t("csv.walkMinutes"),
+    t("csv.amenities"),
+    ...anchors.flatMap((anchor) =>
+      TRAVEL_MODES.map((mode) =>
+        t("csv.commute", { mode: travelModeLabel(mode), anchor: anchor.name }),
+      ),
+    ),
+    t("csv.estimatedFields"),
+    t("csv.reviewSnippet"),
+  ];
+  const rows = reportPlaces(source).map(({ number, place }) => [
+    number,
+    place.title,
+    place.address,
+    place.placeId,
+    place.uri,
+    place.priceRange?.min,
+    place.priceRange?.max,
+    place.priceRange?.currency,
+    place.priceRange?.period,
+    place.unitTypes,
+    place.rating,
+    place.reviewCount,
+    place.nearestTransit?.station,
+    place.nearestTransit?.line,
+    place.nearestTransit?.walkingMinutes,
+    place.amenities,
+    ...anchors.flatMap((anchor) =>
+      TRAVEL_MODES.map((mode) => commuteMinutes(place, anchor.id, mode)),
+    ),
+    place.estimatedFields,
+    place.description,
+  ]);
+  return [header, ...rows]
+    .map((row) => row.map(csvCell).join(","))
+    .join("\r\n");
+};
+
+// --- Printable brochure ---
+
+const escapeHtml = (text: string) =>
+  text.replace(
+    /[&<>"']/g,
+    (c) =>
+      ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[
+        c
+      ]!,
+  );
+
+// Markdown rendered by the same component the chat uses
+const markdownToHtml = (text: string) =>
+  renderToStaticMarkup(createElement(ReactMarkdown, null, text));
+
+const BROCHURE_STYLES = `
+  body { font-family: system-ui, sans-serif; color: #1e293b; max-width: 760px; margin: 32px auto; padding: 0 24px; line-height: 1.5; }
+  h1 { font-size: 26px; margin: 0; }
+  .meta { color: #64748b; font-size: 12px; margin-bottom: 24px; }
+  .message { margin: 12px 0; padding: 12px 16px; border-radius: 12px; break-inside: avoid; }
+  .message p { margin: 0 0 8px; } .message p:last-child { margin: 0; }
+  .user { background: #4f46e5; color: #fff; margin-left: 64px; }
+  .model { background: #f8fafc; border: 1px solid #e2e8f0; margin-right: 64px; }
+  .role { font-size: 10px; font-weight: 700; text-transform: uppercase; letter-spacing: 0.1em; opacity: 0.7; margin-bottom: 4px; }
+  h2 { font-size: 18px; margin: 32px 0 12px; }
+  .place { border: 1px solid #e2e8f0; border-radius: 12px; overflow: hidden; margin-bottom: 16px; break-inside: avoid; }
+  .place img { display: block; width: 100%; }
+  .place .body { padding: 12px 16px; }
+  .place h3 { margin: 0; font-size: 16px; }
+  .number { display: inline-block; min-width: 22px; height: 22px; line-height: 22px; text-align: center; border-radius: 11px; background: #4f46e5; color: #fff; font-size: 12px; margin-right: 6px; }
+  .address { color: #64748b; font-size: 12px; }
+  .facts { font-size: 13px; margin: 8px 0 0; padding-left: 18px; }
+  .quote { font-style: italic; color: #475569; font-size: 13px; }
+  .footer { color: #94a3b8; font-size: 10px; margin-top: 32px; text-align: center; }
+  @media print { body { margin: 0 auto; } a { color: inherit; text-decoration: none; } }
+`;
+
+export const toBrochureHtml = (
+  source: ReportSource,
+  mapImages: Record<string, string | null> = {},
+) => {
+  const numbered = reportPlaces(source);
+  const messages = exportedMessages(source.messages)
+    .map(
+      (msg) =>
+        `<div class="message ${msg.role}"><div class="role">${escapeHtml(roleLabel(msg))}</div>${markdownToHtml(msg.text)}</div>`,
+    )
+    .join("\n");
+  const places = numbered
+    .map(({ key, number, place }) => {
+      const facts = placeFacts(place, source.anchors)
+        .map((fact) => `<li>${escapeHtml(fact)}</li>`)
+        .join("");
+      return `<div class="place">
+  ${mapImages[key] ? `<img src="${mapImages[key]}" alt="${escapeHtml(t("place.mapOf", { title: place.title }))}">` : ""}
+  <div class="body">
+    <h3><span class="number">${number}</span>${isWebUrl(place.uri) ? `<a href="${escapeHtml(place.uri)}">${escapeHtml(place.title)}</a>` : escapeHtml(place.title)}</h3>
+    ${place.address ? `<div class="address">${escapeHtml(place.address)}</div>` : ""}
+    ${facts ? `<ul class="facts">${facts}</ul>` : ""}
+    ${place.description ? `<p class="quote">"${escapeHtml(place.description)}"</p>` : ""}
+  </div>
+</div>`;
+    })
+    .join("\n");
+
+  return `<!DOCTYPE html>
+<html lang="${LOCALES[getLocale()].intl}">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(source.title)}</title>
+<style>${BROCHURE_STYLES}</style>
+</head>
+<body>
+<h1>${escapeHtml(source.title)}</h1>
+<div class="meta">${escapeHtml(t("report.preparedOn", { date: exportDate() }))}</div>
+${messages}
+${places ? `${messages ? `<h2>${escapeHtml(t("report.places"))}</h2>` : ""}\n${places}` : ""}
+<div class="footer">${escapeHtml(t("report.footer", { est: t("place.est") }))}</div>
+</body>
+</html>`;
+};
+
+// --- Delivery ---
+
+const fileName = (title: string, extension: string) =>
+  `condoscout-${
+    title
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-|-$/g, "") || "report"
+  }.${extension}`;
+
+const downloadFile = (name: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = name;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Everything is generated in the browser. The brochure opens in a new window
+// and uses the browser's own print dialog, where "Save as PDF" gives the PDF.
+export const exportReport = async (
+  format: ExportFormat,
+  source: ReportSource,
+  mapProvider: MapProvider,
+) => {
+  if (format === "markdown") {
+    downloadFile(
+      fileName(source.title, "md"),
+      toMarkdown(source),
+      "text/markdown;charset=utf-8",
+    );
+    return;
+  }
+  if (format === "csv") {
+    // The byte order mark makes Excel read the file as UTF-8
+    downloadFile(
+      fileName(source.title, "csv"),
+      `\uFEFF${toCsv(source)}`,
+      "text/csv;charset=utf-8",
+    );
+    return;
+  }
+
+  // Opened before the maps render, while we still have the click's permission
+  const win = window.open("", "_blank");
+  if (!win) throw new Error("The report window was blocked");
+  win.document.write(
+    `<p style='font-family: sans-serif'>${escapeHtml(t("report.preparing"))}</p>`,
+  );
+
+  const mapImages: Record<string, string | null> = {};
+  for (const { key, place } of reportPlaces(source)) {
+    mapImages[key] = await renderStaticMap(mapProvider, place);
+  }
+  win.document.open();
+  win.document.write(toBrochureHtml(source, mapImages));
+  win.document.close();
+  win.focus();
+  win.print();
+};
@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import { ChatSession, PlaceData } from "../types";
+import { diffPlaces, savedSearchDraft } from "./savedSearches";
+
+const place = (overrides: Partial<PlaceData> = {}): PlaceData => ({
+  title: "The Lofts Asoke",
+  uri: "https://maps.google.com/?cid=1",
+  placeId: "place-1",
+  priceRange: { min: 25000, max: 40000, currency: "THB", period: "month" },
+  unitTypes: ["1-bed", "2-bed"],
+  rating: 4.5,
+  ...overrides,
+});
+
+describe("diffPlaces", () => {
+  it("reports places the last run didn't have as new", () => {
+    const added = place({ placeId: "place-2", title: "Noble Ploenchit" });
+
+    expect(diffPlaces([place()], [place(), added])).toEqual([
+      { kind: "new", place: added, fields: [] },
+    ]);
+  });
+
+  it("reports changed prices, unit types and ratings", () => {
+    const before = place();
+    const after = place({
+      priceRange: { min: 23000, max: 40000, currency: "THB", period: "month" },
+      unitTypes: ["studio", "1-bed", "2-bed"],
+      rating: 4.2,
+    });
+
+    expect(diffPlaces([before], [after])).toEqual([
+      {
+        kind: "changed",
+        place: after,
+        previous: before,
+        fields: ["priceRange", "unitTypes", "rating"],
+      },
+    ]);
+  });
+
+  it("ignores reordered unit types and reworded descriptions", () => {
+    const after = place({
+      unitTypes: ["2-bed", "1-bed"],
+      description: "Reworded on this run",
+    });
+
+    expect(diffPlaces([place()], [after])).toEqual([]);
+  });
+
+  it("doesn't count a field the new run left out as a change", () => {
+    const after = place({ priceRange: undefined, rating: undefined });
+
+    expect(diffPlaces([place()], [after])).toEqual([]);
+  });
+
+  it("doesn't report places that dropped out of the results", () => {
+    expect(diffPlaces([place()], [])).toEqual([]);
+  });
+
+  it("matches places without a placeId by name and address", () => {
+    const before = place({ placeId: undefined, address: "Sukhumvit 21" });
+    const after = place({
+      placeId: undefined,
+      title: " the lofts asoke ",
+      address: "SUKHUMVIT 21",
+    });
+
+    expect(diffPlaces([before], [after])).toEqual([]);
+  });
+});
+
+describe("savedSearchDraft", () => {
+  const session: ChatSession = {
+    id: "s1",
+    title: "Asoke one-beds",
+    messages: [
+      { id: "m1", role: "model", text: "Hi, I'm Royce." },
+      { id: "m2", role: "user", text: "One-beds near Asoke" },
+      { id: "m3", role: "model", text: "Here are some.", places: [place()] },
+      { id: "m4", role: "user", text: "Thanks" },
+      { id: "m5", role: "model", text: "You're welcome." },
+    ],
+    createdAt: 0,
+    lastUpdated: 0,
+    model: "gemini-2.5-pro",
+  };
+
+  it("watches the question behind the latest places, on the session's model", () => {
+    const draft = savedSearchDraft(session, { mode: "device" }, 1000);
+
+    expect(draft).toMatchObject({
+      sessionId: "s1",
+      query: "One-beds near Asoke",
+      model: "gemini-2.5-pro",
+      places: [place()],
+      intervalMs: 1000,
+    });
+  });
+
+  it("is undefined before any reply has shown places", () => {
+    const draft = savedSearchDraft(
+      { ...session, messages: session.messages.slice(0, 2) },
+      { mode: "device" },
+      1000,
+    );
+
+    expect(draft).toBeUndefined();
+  });
+});
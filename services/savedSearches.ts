@@ -0,0 +1,162 @@
+import {
+  ChatSession,
+  ListingField,
+  PlaceChange,
+  PlaceData,
+  SavedSearch,
+  SearchAlert,
+  SearchArea,
+} from "../types";
+import { apiFetch, postJson, readApiError } from "./api";
+import { placeKey } from "./shortlistStore";
+import { formatPriceRange } from "./searchCriteria";
+import { t } from "./i18n";
+import { MessageKey } from "./translations";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const SAVED_SEARCH_INTERVALS: { label: MessageKey; ms: number }[] = [
+  { label: "savedSearch.daily", ms: DAY_MS },
+  { label: "savedSearch.every3Days", ms: 3 * DAY_MS },
+  { label: "savedSearch.weekly", ms: 7 * DAY_MS },
+];
+
+// What the server needs to re-run a search: the question behind the latest
+// results, and those results as the first baseline
+export type SavedSearchDraft = Pick<
+  SavedSearch,
+  | "sessionId"
+  | "title"
+  | "query"
+  | "searchArea"
+  | "searchCriteria"
+  | "model"
+  | "places"
+  | "intervalMs"
+>;
+
+// Undefined until a reply in the session has shown places. `searchArea` is the
+// resolved one, so a device search keeps watching where it was made.
+export const savedSearchDraft = (
+  session: ChatSession,
+  searchArea: SearchArea,
+  intervalMs: number,
+): SavedSearchDraft | undefined => {
+  const messages = session.messages;
+  let index = messages.length - 1;
+  while (index >= 0 && !(messages[index].places?.length > 0)) index--;
+  const asked = messages[index - 1];
+  if (index < 1 || asked.role !== "user") return undefined;
+  return {
+    sessionId: session.id,
+    title: session.title,
+    query: asked.text,
+    searchArea,
+    searchCriteria: session.searchCriteria,
+    model: session.model,
+    places: messages[index].places,
+    intervalMs,
+  };
+};
+
+// --- Diffing runs ---
+
+const sameValue = (a: unknown, b: unknown) =>
+  JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+const sortedList = (values?: string[]) =>
+  values ? [...values].sort() : undefined;
+
+// Only fields a renter would act on; descriptions are reworded on every run
+const WATCHED_FIELDS: {
+  field: ListingField;
+  value: (place: PlaceData) => unknown;
+}[] = [
+  { field: "priceRange", value: (p) => p.priceRange },
+  { field: "unitTypes", value: (p) => sortedList(p.unitTypes) },
+  { field: "rating", value: (p) => p.rating },
+];
+
+// Places are matched by placeId (see placeKey). A field the new run left out
+// is not a change: enrichment is best effort and may skip a place.
+export const diffPlaces = (
+  previous: PlaceData[],
+  next: PlaceData[],
+): PlaceChange[] => {
+  const before = new Map(previous.map((p) => [placeKey(p), p]));
+  const changes: PlaceChange[] = [];
+  next.forEach((place) => {
+    const old = before.get(placeKey(place));
+    if (!old) {
+      changes.push({ kind: "new", place, fields: [] });
+      return;
+    }
+    const fields = WATCHED_FIELDS.filter(
+      ({ value }) =>
+        value(place) !== undefined && !sameValue(value(old), value(place)),
+    ).map(({ field }) => field);
+    if (fields.length > 0) {
+      changes.push({ kind: "changed", place, previous: old, fields });
+    }
+  });
+  return changes;
+};
+
+const formatPrice = (place?: PlaceData) =>
+  place?.priceRange
+    ? formatPriceRange(place.priceRange)
+    : t("alerts.unknownPrice");
+
+// One line per change for the notification list
+export const describeChange = (change: PlaceChange) => {
+  if (change.kind === "new") return t("alerts.newMatch");
+  return change.fields
+    .map((field) => {
+      if (field === "priceRange") {
+        return t("alerts.price", {
+          from: formatPrice(change.previous),
+          to: formatPrice(change.place),
+        });
+      }
+      if (field === "rating") {
+        return t("alerts.rating", {
+          from: change.previous?.rating?.toFixed(1) ?? "–",
+          to: change.place.rating?.toFixed(1),
+        });
+      }
+      return t("alerts.unitTypes");
+    })
+    .join(" · ");
+};
+
+// --- API ---
+
+export const listSavedSearches = async () => {
+  const res = await apiFetch("/saved-searches");
+  if (!res.ok) throw await readApiError(res, "Could not load saved searches");
+  return (await res.json()).savedSearches as SavedSearch[];
+};
+
+export const createSavedSearch = async (draft: SavedSearchDraft) => {
+  const { savedSearch } = await postJson<{ savedSearch: SavedSearch }>(
+    "/saved-searches",
+    draft,
+  );
+  return savedSearch;
+};
+
+export const deleteSavedSearch = async (id: string) => {
+  const res = await apiFetch(`/saved-searches/${encodeURIComponent(id)}`, {
+    method: "DELETE",
+  });
+  if (!res.ok) throw await readApiError(res, "Could not stop watching");
+};
+
+export const listAlerts = async () => {
+  const res = await apiFetch("/alerts");
+  if (!res.ok) throw await readApiError(res, "Could not load alerts");
+  return (await res.json()).alerts as SearchAlert[];
+};
+
+export const markAlertsRead = (ids: string[]) =>
+  postJson<{ alerts: SearchAlert[] }>("/alerts/read", { ids });
@@ -0,0 +1,104 @@
+import { PlaceData, PropertyType, SearchCriteria } from "../types";
+import { formatDistance, formatMoney, formatNumber, t } from "./i18n";
+
+export type CriteriaField = keyof SearchCriteria;
+
+export const PROPERTY_TYPES: PropertyType[] = ["condo", "apartment", "hotel"];
+
+export const propertyTypeLabel = (type: PropertyType) =>
+  t(`propertyType.${type}`);
+
+// Amounts with the UI language's currency format, e.g. "฿25,000–฿40,000" in
+// Thai and "THB 25,000–THB 40,000" in English
+export const formatBudget = (budget: NonNullable<SearchCriteria["budget"]>) => {
+  const { min, max, currency } = budget;
+  if (min !== undefined && max !== undefined)
+    return `${formatMoney(min, currency)}–${formatMoney(max, currency)}`;
+  if (max !== undefined)
+    return t("budget.upTo", { amount: formatMoney(max, currency) });
+  if (min !== undefined)
+    return t("budget.from", { amount: formatMoney(min, currency) });
+  return currency;
+};
+
+// A listing's price with its period, e.g. "฿25,000–฿30,000/เดือน"
+export const formatPriceRange = (
+  priceRange: NonNullable<PlaceData["priceRange"]>,
+) =>
+  `${formatBudget(priceRange)}/${t(priceRange.period === "night" ? "price.perNight" : "price.perMonth")}`;
+
+// Short labels for the chips above the input, in a stable field order
+export const criteriaChipLabels = (
+  criteria: SearchCriteria,
+): { field: CriteriaField; label: string }[] => {
+  const chips: { field: CriteriaField; label: string }[] = [];
+  if (criteria.budget)
+    chips.push({ field: "budget", label: formatBudget(criteria.budget) });
+  if (criteria.bedrooms !== undefined)
+    chips.push({
+      field: "bedrooms",
+      label:
+        criteria.bedrooms === 0
+          ? t("criteria.studio")
+          : t("criteria.bedrooms", { count: formatNumber(criteria.bedrooms) }),
+    });
+  if (criteria.propertyType)
+    chips.push({
+      field: "propertyType",
+      label: propertyTypeLabel(criteria.propertyType),
+    });
+  if (criteria.maxTransitDistanceMeters !== undefined)
+    chips.push({
+      field: "maxTransitDistanceMeters",
+      label: t("criteria.transit", {
+        distance: formatDistance(criteria.maxTransitDistanceMeters),
+      }),
+    });
+  if (criteria.petsAllowed !== undefined)
+    chips.push({
+      field: "petsAllowed",
+      label: t(criteria.petsAllowed ? "criteria.pets" : "criteria.noPets"),
+    });
+  if (criteria.furnished !== undefined)
+    chips.push({
+      field: "furnished",
+      label: t(
+        criteria.furnished ? "criteria.furnished" : "criteria.unfurnished",
+      ),
+    });
+  return chips;
+};
+
+export const hasCriteria = (criteria?: SearchCriteria) =>
+  !!criteria && criteriaChipLabels(criteria).length > 0;
+
+// One-line summary sent to Royce alongside each message
+export const describeCriteria = (criteria: SearchCriteria) => {
+  const parts: string[] = [];
+  if (criteria.budget)
+    parts.push(`budget ${formatBudget(criteria.budget)} per month`);
+  if (criteria.bedrooms !== undefined)
+    parts.push(
+      criteria.bedrooms === 0 ? "studio" : `${criteria.bedrooms} bedroom(s)`,
+    );
+  if (criteria.propertyType) parts.push(criteria.propertyType);
+  if (criteria.maxTransitDistanceMeters !== undefined)
+    parts.push(
+      `within ${formatDistance(criteria.maxTransitDistanceMeters)} walk of a BTS/MRT station`,
+    );
+  if (criteria.petsAllowed !== undefined)
+    parts.push(criteria.petsAllowed ? "pets allowed" : "no pets needed");
+  if (criteria.furnished !== undefined)
+    parts.push(criteria.furnished ? "furnished" : "unfurnished");
+  return parts.join(", ");
+};
+
+// Drops a single field, e.g. when its chip is removed
+export const withoutField = (
+  criteria: SearchCriteria,
+  field: CriteriaField,
+): SearchCriteria => {
+  const next = { ...criteria };
+  delete next[field];
+  return next;
+};
@@ -0,0 +1,455 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ChatSession, Message } from "../types";
+import {
+  GuestSessionRepository,
+  LocalSessionRepository,
+  SessionConflictError,
+  SessionRepository,
+  SessionSync,
+  mergeGuestSessions,
+  mergeSessions,
+} from "./sessionRepository";
+
+// localStorage/sessionStorage stand-in backed by a Map
+class MemoryStorage implements Storage {
+  private items = new Map<string, string>();
+
+  get length() {
+    return this.items.size;
+  }
+
+  clear() {
+    this.items.clear();
+  }
+
+  getItem(key: string) {
+    return this.items.get(key) ?? null;
+  }
+
+  key(index: number) {
+    return [...this.items.keys()][index] ?? null;
+  }
+
+  removeItem(key: string) {
+    this.items.delete(key);
+  }
+
+  setItem(key: string, value: string) {
+    this.items.set(key, value);
+  }
+}
+
+const NOW = Date.UTC(2025, 0, 15);
+
+const message = (id: string, role: Message["role"], text: string): Message => ({
+  id,
+  role,
+  text,
+});
+
+const session = (
+  id: string,
+  messages: Message[],
+  overrides: Partial<ChatSession> = {},
+): ChatSession => ({
+  id,
+  title: `Search ${id}`,
+  messages,
+  createdAt: NOW - 60_000,
+  lastUpdated: NOW,
+  ...overrides,
+});
+
+const welcome = message("welcome", "model", "Hi, I'm Royce.");
+
+describe("mergeSessions", () => {
+  it("keeps the newer side's metadata and the remote revision", () => {
+    const local = session("a", [welcome], {
+      title: "Local title",
+      lastUpdated: NOW + 1000,
+      revision: 2,
+    });
+    const remote = session("a", [welcome], {
+      title: "Remote title",
+      revision: 5,
+    });
+
+    const merged = mergeSessions(local, remote);
+
+    expect(merged.title).toBe("Local title");
+    expect(merged.revision).toBe(5);
+    expect(merged.lastUpdated).toBe(NOW + 1000);
+  });
+
+  it("takes the remote metadata when the remote is newer", () => {
+    const local = session("a", [welcome], {
+      title: "Local title",
+      revision: 2,
+    });
+    const remote = session("a", [welcome], {
+      title: "Remote title",
+      lastUpdated: NOW + 1000,
+      revision: 3,
+    });
+
+    const merged = mergeSessions(local, remote);
+
+    expect(merged.title).toBe("Remote title");
+    expect(merged.revision).toBe(3);
+  });
+
+  it("unions messages, remote order first, and prefers a finished reply", () => {
+    const question = message("q1", "user", "Condos near BTS Asok");
+    const local = session("a", [
+      welcome,
+      question,
+      message("r1", "model", "Here are three condos near Asok."),
+      message("q2", "user", "Any with a pool?"),
+    ]);
+    const remote = session("a", [
+      welcome,
+      question,
+      { ...message("r1", "model", ""), isThinking: true },
+      message("q3", "user", "Under 20,000 baht?"),
+    ]);
+
+    const merged = mergeSessions(local, remote);
+
+    expect(merged.messages.map((m) => m.id)).toEqual([
+      "welcome",
+      "q1",
+      "r1",
+      "q3",
+      "q2",
+    ]);
+    expect(merged.messages[2].text).toBe("Here are three condos near Asok.");
+    expect(merged.messages[2].isThinking).toBeUndefined();
+  });
+});
+
+describe("mergeGuestSessions", () => {
+  const guestChat = session("shared", [
+    welcome,
+    message("g1", "user", "Studios in Ari"),
+    message("g2", "model", "Ari has a few quiet studios."),
+  ]);
+  const accountChat = session(
+    "shared",
+    [
+      welcome,
+      message("g1", "user", "Studios in Ari"),
+      message("a1", "user", "With a gym?"),
+    ],
+    { title: "Ari studios", lastUpdated: NOW + 5000, revision: 4 },
+  );
+
+  it("combines a guest and an account session with the same id", () => {
+    const merged = mergeGuestSessions([accountChat], [guestChat]);
+
+    expect(merged).toHaveLength(1);
+    expect(merged[0].title).toBe("Ari studios");
+    expect(merged[0].revision).toBe(4);
+    expect(merged[0].messages.map((m) => m.id)).toEqual([
+      "welcome",
+      "g1",
+      "a1",
+      "g2",
+    ]);
+  });
+
+  it("adds guest chats with a conversation and leaves empty ones behind", () => {
+    const other = session("other", [welcome, message("o1", "user", "Lofts")], {
+      lastUpdated: NOW + 9000,
+    });
+    const empty = session("empty", [welcome]);
+
+    const merged = mergeGuestSessions([accountChat], [other, empty]);
+
+    expect(merged.map((s) => s.id)).toEqual(["other", "shared"]);
+  });
+
+  it("gives the same result when the guest chats are merged again", () => {
+    const once = mergeGuestSessions([accountChat], [guestChat]);
+    const twice = mergeGuestSessions(once, [guestChat]);
+
+    expect(twice).toEqual(once);
+  });
+
+  it("brings back a guest chat the account has since deleted", () => {
+    const merged = mergeGuestSessions([], [guestChat]);
+
+    expect(merged).toEqual([guestChat]);
+  });
+});
+
+describe("LocalSessionRepository", () => {
+  let storage: MemoryStorage;
+  let repo: LocalSessionRepository;
+
+  beforeEach(() => {
+    storage = new MemoryStorage();
+    repo = new LocalSessionRepository(storage, "user-1");
+  });
+
+  it("bumps the revision on every save", async () => {
+    const first = await repo.save(session("a", [welcome]), 0);
+    const second = await repo.save(first, first.revision!);
+
+    expect(first.revision).toBe(1);
+    expect(second.revision).toBe(2);
+    expect(await repo.list()).toEqual([second]);
+  });
+
+  it("rejects a save based on an older revision with the stored copy", async () => {
+    const saved = await repo.save(session("a", [welcome]), 0);
+    const newer = await repo.save({ ...saved, title: "Renamed" }, 1);
+
+    const error = await repo
+      .save({ ...saved, title: "Stale edit" }, 1)
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(SessionConflictError);
+    expect((error as SessionConflictError).latest).toEqual(newer);
+  });
+
+  it("rejects a save based on a revision it hasn't reached", async () => {
+    await repo.save(session("a", [welcome]), 0);
+
+    await expect(repo.save(session("a", [welcome]), 3)).rejects.toBeInstanceOf(
+      SessionConflictError,
+    );
+  });
+
+  it("saves a session that was deleted elsewhere as a new one", async () => {
+    const saved = await repo.save(session("a", [welcome]), 0);
+    await repo.remove("a");
+
+    const edited = await repo.save({ ...saved, title: "Edited" }, 1);
+
+    expect(edited.revision).toBe(1);
+    expect(await repo.list()).toEqual([edited]);
+  });
+});
+
+describe("GuestSessionRepository", () => {
+  let tabStorage: MemoryStorage;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(NOW);
+    tabStorage = new MemoryStorage();
+    vi.stubGlobal("sessionStorage", tabStorage);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it("drops chats untouched for longer than the guest max age", async () => {
+    const repo = new GuestSessionRepository(new MemoryStorage());
+    await repo.save(session("fresh", [welcome]), 0);
+    await repo.save(
+      session("stale", [welcome], { lastUpdated: NOW - 31 * 86_400_000 }),
+      0,
+    );
+
+    expect((await repo.list()).map((s) => s.id)).toEqual(["fresh"]);
+  });
+
+  it("merges this tab's old sessionStorage copy into the stored chat", async () => {
+    const repo = new GuestSessionRepository(new MemoryStorage());
+    await repo.save(
+      session("a", [welcome, message("q1", "user", "Bang Na condos")]),
+      0,
+    );
+    tabStorage.setItem(
+      "condoscout_guest_sessions",
+      JSON.stringify([
+        session("a", [welcome, message("q2", "user", "Near the BTS?")], {
+          lastUpdated: NOW - 1000,
+        }),
+      ]),
+    );
+
+    const [merged] = await repo.list();
+
+    expect(merged.revision).toBe(2);
+    expect(merged.messages.map((m) => m.id)).toEqual(["welcome", "q1", "q2"]);
+    expect(tabStorage.length).toBe(1); // Only the migrated, now empty, index
+  });
+});
+
+describe("SessionSync", () => {
+  let storage: MemoryStorage;
+  let repo: LocalSessionRepository;
+  let external: {
+    change: (session: ChatSession) => void;
+    remove: (id: string) => void;
+  };
+  let syncedRepo: SessionRepository;
+  const callbacks = {
+    onChange: vi.fn(),
+    onRemove: vi.fn(),
+    onError: vi.fn(),
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    storage = new MemoryStorage();
+    repo = new LocalSessionRepository(storage, "user-1");
+    // Another tab's changes are delivered by hand instead of storage events
+    syncedRepo = {
+      list: () => repo.list(),
+      save: (s, base) => repo.save(s, base),
+      remove: (id) => repo.remove(id),
+      subscribe: (change, remove) => {
+        external = { change, remove };
+        return () => {};
+      },
+    };
+    Object.values(callbacks).forEach((fn) => fn.mockReset());
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const start = async (sessions: ChatSession[]) => {
+    for (const s of sessions) await repo.save(s, 0);
+    const sync = new SessionSync(syncedRepo, callbacks, 100);
+    return { sync, loaded: await sync.load() };
+  };
+
+  it("merges when the stored session is newer than the one being saved", async () => {
+    const { sync, loaded } = await start([
+      session("a", [welcome, message("q1", "user", "Thonglor")]),
+    ]);
+    // Another tab saved a follow-up that this tab never saw
+    await repo.save(
+      {
+        ...loaded[0],
+        title: "Thonglor two-beds",
+        messages: [...loaded[0].messages, message("q2", "user", "Two beds")],
+        lastUpdated: NOW + 2000,
+      },
+      1,
+    );
+
+    sync.push([
+      {
+        ...loaded[0],
+        messages: [...loaded[0].messages, message("q3", "user", "With a view")],
+        lastUpdated: NOW + 1000,
+      },
+    ]);
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(callbacks.onChange).toHaveBeenCalledTimes(1);
+    const merged: ChatSession = callbacks.onChange.mock.calls[0][0];
+    expect(merged.title).toBe("Thonglor two-beds");
+    expect(merged.messages.map((m) => m.id)).toEqual([
+      "welcome",
+      "q1",
+      "q2",
+      "q3",
+    ]);
+
+    await vi.advanceTimersByTimeAsync(100);
+    const [stored] = await repo.list();
+    expect(stored.revision).toBe(3);
+    expect(stored.messages.map((m) => m.id)).toEqual([
+      "welcome",
+      "q1",
+      "q2",
+      "q3",
+    ]);
+    expect(callbacks.onError).not.toHaveBeenCalled();
+  });
+
+  it("keeps local metadata when the conflicting remote copy is older", async () => {
+    const { sync, loaded } = await start([
+      session("a", [welcome, message("q1", "user", "Sathorn")]),
+    ]);
+    await repo.save(
+      {
+        ...loaded[0],
+        title: "Older remote title",
+        lastUpdated: NOW - 5000,
+      },
+      1,
+    );
+
+    sync.push([
+      { ...loaded[0], title: "Local title", lastUpdated: NOW + 1000 },
+    ]);
+    await vi.advanceTimersByTimeAsync(200);
+
+    const [stored] = await repo.list();
+    expect(stored.title).toBe("Local title");
+    expect(stored.revision).toBe(3);
+  });
+
+  it("ignores an external change at a revision it already has", async () => {
+    const { loaded } = await start([session("a", [welcome])]);
+
+    external.change({ ...loaded[0], title: "Replayed" });
+
+    expect(callbacks.onChange).not.toHaveBeenCalled();
+  });
+
+  it("merges a newer external change into unsaved local edits", async () => {
+    const { sync, loaded } = await start([
+      session("a", [welcome, message("q1", "user", "Ekkamai")]),
+    ]);
+    sync.push([
+      {
+        ...loaded[0],
+        messages: [
+          ...loaded[0].messages,
+          message("q2", "user", "Pet friendly"),
+        ],
+        lastUpdated: NOW + 1000,
+      },
+    ]);
+
+    const remote = await repo.save(
+      { ...loaded[0], title: "Ekkamai", lastUpdated: NOW + 500 },
+      1,
+    );
+    external.change(remote);
+    await vi.advanceTimersByTimeAsync(100);
+
+    const [stored] = await repo.list();
+    expect(stored.revision).toBe(3);
+    expect(stored.messages.map((m) => m.id)).toEqual(["welcome", "q1", "q2"]);
+  });
+
+  it("drops pending edits to a session deleted in another tab", async () => {
+    const { sync, loaded } = await start([
+      session("a", [welcome, message("q1", "user", "Phrom Phong")]),
+    ]);
+    sync.push([{ ...loaded[0], title: "Edited", lastUpdated: NOW + 1000 }]);
+
+    await repo.remove("a");
+    external.remove("a");
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(callbacks.onRemove).toHaveBeenCalledWith("a");
+    expect(await repo.list()).toEqual([]);
+  });
+
+  it("deletes a session removed here even if another tab edited it", async () => {
+    const { sync, loaded } = await start([
+      session("a", [welcome]),
+      session("b", [welcome]),
+    ]);
+    const a = loaded.find((s) => s.id === "a")!;
+    await repo.save({ ...a, title: "Edited elsewhere" }, 1);
+
+    sync.push(loaded.filter((s) => s !== a));
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect((await repo.list()).map((s) => s.id)).toEqual(["b"]);
+  });
+});
@@ -0,0 +1,440 @@
+import { ChatSession } from "../types";
+import { apiFetch } from "./api";
+import { hiddenMessageIds } from "./branches";
+
+// Where chat sessions live. Saves are per session and carry the revision the
+// caller last saw, so two tabs editing the same session are detected.
+export interface SessionRepository {
+  list(): Promise<ChatSession[]>;
+  save(session: ChatSession, baseRevision: number): Promise<ChatSession>;
+  remove(id: string): Promise<void>;
+  // Changes made elsewhere (e.g. another tab); returns an unsubscribe function
+  subscribe?(
+    onChange: (session: ChatSession) => void,
+    onRemove: (id: string) => void,
+  ): () => void;
+}
+
+export class SessionConflictError extends Error {
+  constructor(public latest: ChatSession) {
+    super(`Session ${latest.id} was changed elsewhere`);
+    this.name = "SessionConflictError";
+  }
+}
+
+export class SessionQuotaError extends Error {
+  constructor() {
+    super("Browser storage is full");
+    this.name = "SessionQuotaError";
+  }
+}
+
+// --- Browser storage ---
+
+// One key per session plus an index, so a save only rewrites what changed
+export class LocalSessionRepository implements SessionRepository {
+  private indexKey: string;
+
+  constructor(
+    private storage: Storage,
+    private scope: string,
+    private legacyKey?: string, // Old single-array key, migrated on first list
+    private maxAgeMs?: number, // Sessions untouched for longer are dropped on list
+  ) {
+    this.indexKey = `condoscout_session_index_${scope}`;
+  }
+
+  private sessionKey(id: string) {
+    return `condoscout_session_${this.scope}_${id}`;
+  }
+
+  private readIndex(): string[] {
+    try {
+      return JSON.parse(this.storage.getItem(this.indexKey) || "[]");
+    } catch (e) {
+      return [];
+    }
+  }
+
+  private read(id: string): ChatSession | undefined {
+    try {
+      const raw = this.storage.getItem(this.sessionKey(id));
+      return raw ? JSON.parse(raw) : undefined;
+    } catch (e) {
+      return undefined;
+    }
+  }
+
+  private write(key: string, value: unknown) {
+    try {
+      this.storage.setItem(key, JSON.stringify(value));
+    } catch (e) {
+      if (e instanceof DOMException && e.name === "QuotaExceededError") {
+        throw new SessionQuotaError();
+      }
+      throw e;
+    }
+  }
+
+  private migrateLegacy() {
+    if (!this.legacyKey || this.storage.getItem(this.indexKey) !== null) return;
+    const raw = this.storage.getItem(this.legacyKey);
+    if (!raw) return;
+    try {
+      const sessions: ChatSession[] = JSON.parse(raw);
+      sessions.forEach((s) => this.write(this.sessionKey(s.id), s));
+      this.write(
+        this.indexKey,
+        sessions.map((s) => s.id),
+      );
+      this.storage.removeItem(this.legacyKey);
+    } catch (e) {
+      console.error("Failed to migrate saved sessions", e);
+    }
+  }
+
+  async list() {
+    this.migrateLegacy();
+    const sessions = this.readIndex()
+      .map((id) => this.read(id))
+      .filter((s): s is ChatSession => !!s);
+    if (!this.maxAgeMs) return sessions;
+    const cutoff = Date.now() - this.maxAgeMs;
+    const expired = sessions.filter((s) => s.lastUpdated < cutoff);
+    for (const s of expired) await this.remove(s.id);
+    return sessions.filter((s) => s.lastUpdated >= cutoff);
+  }
+
+  async save(session: ChatSession, baseRevision: number) {
+    const stored = this.read(session.id);
+    if (stored && (stored.revision ?? 0) !== baseRevision) {
+      throw new SessionConflictError(stored);
+    }
+    const saved = { ...session, revision: (stored?.revision ?? 0) + 1 };
+    this.write(this.sessionKey(session.id), saved);
+    const index = this.readIndex();
+    if (!index.includes(session.id)) {
+      this.write(this.indexKey, [session.id, ...index]);
+    }
+    return saved;
+  }
+
+  async remove(id: string) {
+    this.storage.removeItem(this.sessionKey(id));
+    this.write(
+      this.indexKey,
+      this.readIndex().filter((x) => x !== id),
+    );
+  }
+
+  subscribe(
+    onChange: (session: ChatSession) => void,
+    onRemove: (id: string) => void,
+  ) {
+    const prefix = this.sessionKey("");
+    const handleStorage = (e: StorageEvent) => {
+      if (e.storageArea !== this.storage || !e.key?.startsWith(prefix)) return;
+      const id = e.key.slice(prefix.length);
+      if (e.newValue === null) {
+        onRemove(id);
+        return;
+      }
+      try {
+        onChange(JSON.parse(e.newValue));
+      } catch (err) {
+        console.error("Ignoring unreadable session update", err);
+      }
+    };
+    window.addEventListener("storage", handleStorage);
+    return () => window.removeEventListener("storage", handleStorage);
+  }
+}
+
+// --- Guest sessions ---
+
+// Guest chats stay on this device for a while so they can still be added to an
+// account later, but not forever on a possibly shared browser
+export const GUEST_SESSION_MAX_AGE_DAYS = 30;
+
+export class GuestSessionRepository extends LocalSessionRepository {
+  constructor(storage: Storage = localStorage) {
+    super(
+      storage,
+      "guest",
+      undefined,
+      GUEST_SESSION_MAX_AGE_DAYS * 24 * 60 * 60 * 1000,
+    );
+  }
+
+  // Guest chats used to live in sessionStorage; bring this tab's across once
+  async list() {
+    const tab = new LocalSessionRepository(
+      sessionStorage,
+      "guest",
+      "condoscout_guest_sessions",
+    );
+    for (const session of await tab.list()) {
+      await this.save(session, 0).catch((e) =>
+        e instanceof SessionConflictError
+          ? this.save(mergeSessions(session, e.latest), e.latest.revision ?? 0)
+          : Promise.reject(e),
+      );
+      await tab.remove(session.id);
+    }
+    return super.list();
+  }
+}
+
+// --- REST backend ---
+
+// With a `cacheKey`, the last list from the server is kept in localStorage and
+// returned when the server can't be reached, so chats and their place cards
+// still open offline. Saves made meanwhile fail and retry through SessionSync.
+export class HttpSessionRepository implements SessionRepository {
+  constructor(private cacheKey?: string) {}
+
+  private async request(path: string, init: RequestInit = {}) {
+    const res = await apiFetch(path, init);
+    if (!res.ok && res.status !== 409) {
+      throw new Error(`Session request failed (${res.status})`);
+    }
+    return res;
+  }
+
+  async list() {
+    let res: Response;
+    try {
+      res = await this.request("/sessions");
+    } catch (e) {
+      const cached = this.cacheKey && localStorage.getItem(this.cacheKey);
+      // fetch() rejects with a TypeError when the request never got an answer
+      if (e instanceof TypeError && cached) {
+        return JSON.parse(cached) as ChatSession[];
+      }
+      throw e;
+    }
+    const sessions = (await res.json()).sessions as ChatSession[];
+    if (this.cacheKey) {
+      try {
+        localStorage.setItem(this.cacheKey, JSON.stringify(sessions));
+      } catch (e) {
+        console.error("Failed to keep an offline copy of sessions", e);
+      }
+    }
+    return sessions;
+  }
+
+  async save(session: ChatSession, baseRevision: number) {
+    const res = await this.request(
+      `/sessions/${encodeURIComponent(session.id)}`,
+      { method: "PUT", body: JSON.stringify({ session, baseRevision }) },
+    );
+    const body = await res.json();
+    if (res.status === 409) throw new SessionConflictError(body.latest);
+    return body.session as ChatSession;
+  }
+
+  async remove(id: string) {
+    await this.request(`/sessions/${encodeURIComponent(id)}`, {
+      method: "DELETE",
+    });
+  }
+}
+
+export const createSessionRepository = (
+  user: { id: string } | null,
+): SessionRepository => {
+  if (user && process.env.SESSION_BACKEND === "http") {
+    return new HttpSessionRepository(`condoscout_sessions_cache_${user.id}`);
+  }
+  return user
+    ? new LocalSessionRepository(
+        localStorage,
+        user.id,
+        `condoscout_sessions_${user.id}`,
+      )
+    : new GuestSessionRepository();
+};
+
+// --- Conflict resolution ---
+
+// Combines two edits of the same session: messages are unioned by id (remote
+// order first, then anything only this tab has), a finished reply wins over a
+// placeholder, and the most recently touched metadata wins. Messages the newer
+// side has branched away from stay hidden in its versions rather than coming
+// back into the path.
+export const mergeSessions = (
+  local: ChatSession,
+  remote: ChatSession,
+): ChatSession => {
+  const newer = local.lastUpdated >= remote.lastUpdated ? local : remote;
+  const hidden = hiddenMessageIds(newer.messages);
+  const remoteIds = new Set(remote.messages.map((m) => m.id));
+  const messages = [
+    ...remote.messages.map((m) => {
+      const mine = local.messages.find((l) => l.id === m.id);
+      if (!mine) return m;
+      if (m.isThinking || m.isStreaming) return mine;
+      if (mine.isThinking || mine.isStreaming) return m;
+      return mine.text.length >= m.text.length ? mine : m;
+    }),
+    ...local.messages.filter((m) => !remoteIds.has(m.id)),
+  ].filter((m) => !hidden.has(m.id));
+  return {
+    ...newer,
+    messages,
+    lastUpdated: Math.max(local.lastUpdated, remote.lastUpdated),
+    revision: remote.revision,
+  };
+};
+
+// False for chats that never got past the welcome message
+export const hasConversation = (session: ChatSession) =>
+  session.messages.some((m) => m.role === "user");
+
+// Adds guest sessions to an account's list. A guest session whose id the
+// account already has (e.g. a chat continued after signing in) is combined with
+// mergeSessions rather than duplicated; the account copy keeps its revision.
+// Empty chats are left behind.
+export const mergeGuestSessions = (
+  account: ChatSession[],
+  guest: ChatSession[],
+): ChatSession[] => {
+  const byId = new Map(account.map((s) => [s.id, s]));
+  guest.filter(hasConversation).forEach((session) => {
+    const existing = byId.get(session.id);
+    byId.set(session.id, existing ? mergeSessions(session, existing) : session);
+  });
+  return [...byId.values()].sort((a, b) => b.lastUpdated - a.lastUpdated);
+};
+
+// --- Sync ---
+
+interface SessionSyncCallbacks {
+  onChange: (session: ChatSession) => void; // Merged or externally changed
+  onRemove: (id: string) => void;
+  onError: (error: Error) => void;
+}
+
+// Mirrors the app's session list into a repository. Only sessions whose object
+// identity changed are written, each debounced, and conflicts are merged and
+// retried rather than overwriting the other tab's work.
+export class SessionSync {
+  private known = new Map<string, ChatSession>();
+  private revisions = new Map<string, number>();
+  private timers = new Map<string, ReturnType<typeof setTimeout>>();
+  private saving = new Set<string>();
+  private isLoaded = false;
+  private unsubscribe?: () => void;
+
+  constructor(
+    private repo: SessionRepository,
+    private callbacks: SessionSyncCallbacks,
+    private delayMs = 400,
+  ) {}
+
+  async load() {
+    const sessions = await this.repo.list();
+    sessions.forEach((s) => this.remember(s));
+    this.isLoaded = true;
+    this.unsubscribe = this.repo.subscribe?.(
+      (session) => this.handleExternalChange(session),
+      (id) => {
+        this.forget(id);
+        this.callbacks.onRemove(id);
+      },
+    );
+    return sessions;
+  }
+
+  push(sessions: ChatSession[]) {
+    // Until load() finishes the app may still hold another account's sessions
+    if (!this.isLoaded) return;
+    const ids = new Set(sessions.map((s) => s.id));
+    sessions.forEach((session) => {
+      if (this.known.get(session.id) === session) return;
+      this.known.set(session.id, session);
+      this.schedule(session.id);
+    });
+    [...this.known.keys()].forEach((id) => {
+      if (ids.has(id)) return;
+      this.forget(id);
+      this.repo.remove(id).catch((e) => this.callbacks.onError(e as Error));
+    });
+  }
+
+  dispose() {
+    this.unsubscribe?.();
+    this.timers.forEach((timer, id) => {
+      clearTimeout(timer);
+      this.flush(id);
+    });
+    this.timers.clear();
+  }
+
+  private remember(session: ChatSession) {
+    this.known.set(session.id, session);
+    this.revisions.set(session.id, session.revision ?? 0);
+  }
+
+  private forget(id: string) {
+    clearTimeout(this.timers.get(id));
+    this.timers.delete(id);
+    this.known.delete(id);
+    this.revisions.delete(id);
+  }
+
+  private schedule(id: string) {
+    clearTimeout(this.timers.get(id));
+    this.timers.set(
+      id,
+      setTimeout(() => {
+        this.timers.delete(id);
+        this.flush(id);
+      }, this.delayMs),
+    );
+  }
+
+  private async flush(id: string) {
+    const session = this.known.get(id);
+    if (!session) return;
+    if (this.saving.has(id)) {
+      this.schedule(id);
+      return;
+    }
+
+    this.saving.add(id);
+    try {
+      const saved = await this.repo.save(session, this.revisions.get(id) ?? 0);
+      this.revisions.set(id, saved.revision ?? 0);
+    } catch (e) {
+      if (e instanceof SessionConflictError) {
+        this.resolveConflict(session, e.latest);
+      } else {
+        this.callbacks.onError(e as Error);
+      }
+    } finally {
+      this.saving.delete(id);
+    }
+  }
+
+  private resolveConflict(local: ChatSession, remote: ChatSession) {
+    const merged = mergeSessions(local, remote);
+    this.known.set(merged.id, merged);
+    this.revisions.set(merged.id, remote.revision ?? 0);
+    this.callbacks.onChange(merged);
+    this.schedule(merged.id);
+  }
+
+  private handleExternalChange(remote: ChatSession) {
+    if ((remote.revision ?? 0) <= (this.revisions.get(remote.id) ?? 0)) return;
+    const local = this.known.get(remote.id);
+    if (local && (this.timers.has(remote.id) || this.saving.has(remote.id))) {
+      // Unsaved local edits: merge now, our pending save will carry the result
+      this.resolveConflict(local, remote);
+      return;
+    }
+    this.remember(remote);
+    this.callbacks.onChange(remote);
+  }
+}
@@ -0,0 +1,148 @@
+import { ChatSession, PropertyType } from "../types";
+import { propertyTypeLabel } from "./searchCriteria";
+
+export interface SessionSearchFilters {
+  query: string;
+  from?: string; // Inclusive yyyy-mm-dd, compared with lastUpdated
+  to?: string;
+  propertyType?: PropertyType;
+}
+
+export interface SessionSearchHit {
+  messageId: string;
+  snippet: string;
+  placeTitle?: string; // Set when the match is in one of the message's places
+}
+
+export interface SessionSearchResult {
+  session: ChatSession;
+  hits: SessionSearchHit[];
+}
+
+const SNIPPET_RADIUS = 40;
+
+// Filler words in queries like "that condo near Thong Lo" that would
+// otherwise have to appear in the session too
+const STOP_WORDS = new Set(
+  "a an and at by for from in near of on or that the to with".split(" "),
+);
+
+export const searchTerms = (query: string) =>
+  query
+    .toLowerCase()
+    .split(/\s+/)
+    .filter((t) => t && !STOP_WORDS.has(t));
+
+// Latin terms match at the start of a word, so "lo" finds "Thong Lo" but not
+// "along"; scripts written without spaces, such as Thai, match anywhere
+const termSource = (term: string) => {
+  const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return /^[\x00-\x7f]+$/.test(term)
+    ? `(?<![\\p{L}\\p{N}])${escaped}`
+    : escaped;
+};
+
+const termsPattern = (terms: string[]) =>
+  new RegExp(`(${terms.map(termSource).join("|")})`, "giu");
+
+const matchingTerms = (text: string, terms: string[]) =>
+  terms.filter((t) => termsPattern([t]).test(text));
+
+export const hasSearchFilters = ({
+  query,
+  from,
+  to,
+  propertyType,
+}: SessionSearchFilters) =>
+  !!(searchTerms(query).length || from || to || propertyType);
+
+// A window of text around the first term found, with ellipses where it was cut
+const snippetAround = (text: string, terms: string[]) => {
+  const flat = text.replace(/\s+/g, " ");
+  const index = Math.max(0, flat.search(termsPattern(terms)));
+  const start = Math.max(0, index - SNIPPET_RADIUS);
+  const end = Math.min(flat.length, index + SNIPPET_RADIUS * 2);
+  return `${start > 0 ? "…" : ""}${flat.slice(start, end).trim()}${end < flat.length ? "…" : ""}`;
+};
+
+const matchesDates = (
+  session: ChatSession,
+  { from, to }: SessionSearchFilters,
+) => {
+  // Date inputs give local calendar days; `to` covers the whole of that day
+  if (from && session.lastUpdated < new Date(`${from}T00:00`).getTime()) {
+    return false;
+  }
+  if (to) {
+    const end = new Date(`${to}T00:00`);
+    end.setDate(end.getDate() + 1);
+    if (session.lastUpdated >= end.getTime()) return false;
+  }
+  return true;
+};
+
+// Sessions where every term appears somewhere in the title, messages or place
+// titles and addresses, with each matching message as a hit. Results keep the
+// order of `sessions`; filters without a query just narrow the list.
+export const searchSessions = (
+  sessions: ChatSession[],
+  filters: SessionSearchFilters,
+): SessionSearchResult[] => {
+  const terms = searchTerms(filters.query);
+  return sessions.flatMap((session) => {
+    if (!matchesDates(session, filters)) return [];
+    if (
+      filters.propertyType &&
+      session.searchCriteria?.propertyType !== filters.propertyType
+    ) {
+      return [];
+    }
+    if (terms.length === 0) return [{ session, hits: [] }];
+
+    const hits: SessionSearchHit[] = [];
+    const found = new Set<string>();
+    const check = (text: string) => matchingTerms(text, terms);
+
+    const type = session.searchCriteria?.propertyType;
+    check(`${session.title} ${type ? propertyTypeLabel(type) : ""}`).forEach(
+      (t) => found.add(t),
+    );
+    session.messages.forEach((msg) => {
+      if (msg.id === "welcome" || msg.isThinking) return;
+      const inText = check(msg.text);
+      inText.forEach((t) => found.add(t));
+      if (inText.length > 0) {
+        hits.push({
+          messageId: msg.id,
+          snippet: snippetAround(msg.text, terms),
+        });
+      }
+      msg.places?.forEach((place) => {
+        const placeText = `${place.title} ${place.address || ""}`;
+        const inPlace = check(placeText);
+        inPlace.forEach((t) => found.add(t));
+        if (inPlace.length > 0) {
+          hits.push({
+            messageId: msg.id,
+            placeTitle: place.title,
+            snippet: place.address || place.title,
+          });
+        }
+      });
+    });
+
+    return found.size === terms.length ? [{ session, hits }] : [];
+  });
+};
+
+// Splits text into alternating plain and matching parts for highlighting
+export const splitMatches = (text: string, terms: string[]) => {
+  if (terms.length === 0) return [{ text, isMatch: false }];
+  return text
+    .split(termsPattern(terms))
+    .filter(Boolean)
+    .map((part) => ({
+      text: part,
+      isMatch: terms.includes(part.toLowerCase()),
+    }));
+};
@@ -0,0 +1,43 @@
+import { v4 as uuidv4 } from "uuid";
+import { ChatSession, SharedSession } from "../types";
+import { apiFetch, postJson } from "./api";
+
+const SHARE_PATH = /^\/share\/([^/]+)\/?$/;
+
+// The viewer lives at /share/<id>; both servers fall back to index.html there
+export const shareUrl = (id: string) =>
+  `${window.location.origin}/share/${encodeURIComponent(id)}`;
+
+export const shareIdFromPath = (pathname: string) => {
+  const match = pathname.match(SHARE_PATH);
+  return match ? decodeURIComponent(match[1]) : null;
+};
+
+// Uploads a snapshot of the session as it is now; later edits are not shared
+export const createShare = async (session: ChatSession) => {
+  const { share } = await postJson<{ share: SharedSession }>("/shares", {
+    session,
+  });
+  return share;
+};
+
+// Null when the link is unknown, e.g. the server restarted since it was made
+export const fetchShare = async (id: string) => {
+  const res = await apiFetch(`/shares/${encodeURIComponent(id)}`);
+  if (res.status === 404) return null;
+  if (!res.ok) {
+    throw new Error(`Could not open the shared search (${res.status})`);
+  }
+  return (await res.json()).share as SharedSession;
+};
+
+// A copy in the recipient's own history, continued from where the share ends
+export const forkShare = (share: SharedSession): ChatSession => ({
+  id: uuidv4(),
+  title: share.title,
+  messages: share.messages,
+  searchCriteria: share.searchCriteria,
+  searchArea: { mode: "device" },
+  createdAt: Date.now(),
+  lastUpdated: Date.now(),
+});
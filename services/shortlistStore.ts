@@ -0,0 +1,56 @@
+import { PlaceData, ShortlistItem } from "../types";
+
+// Places are the same if they share a Google placeId; grounding does not always
+// return one, so fall back to the normalised title and address
+export const placeKey = (place: PlaceData) =>
+  place.placeId
+    ? `id:${place.placeId}`
+    : `name:${place.title.trim().toLowerCase()}|${(place.address || "").trim().toLowerCase()}`;
+
+export const shortlistStorageKey = (userId: string | null) =>
+  userId ? `condoscout_shortlist_${userId}` : "condoscout_guest_shortlist";
+
+export const parseShortlist = (jsonString: string | null): ShortlistItem[] => {
+  if (!jsonString) return [];
+  try {
+    const parsed = JSON.parse(jsonString);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    console.error("Failed to read shortlist", e);
+    return [];
+  }
+};
+
+export const isShortlisted = (items: ShortlistItem[], place: PlaceData) => {
+  const key = placeKey(place);
+  return items.some((item) => item.key === key);
+};
+
+// Adds the place, or refreshes its listing data if it is already saved so notes
+// and tags survive re-saving the same building from a newer search
+export const addToShortlist = (
+  items: ShortlistItem[],
+  place: PlaceData,
+  source?: ShortlistItem["source"],
+): ShortlistItem[] => {
+  const key = placeKey(place);
+  const existing = items.find((item) => item.key === key);
+  if (existing) {
+    return items.map((item) =>
+      item.key === key ? { ...item, place: { ...item.place, ...place } } : item,
+    );
+  }
+  return [
+    { key, place, note: "", tags: [], savedAt: Date.now(), source },
+    ...items,
+  ];
+};
+
+export const removeFromShortlist = (items: ShortlistItem[], key: string) =>
+  items.filter((item) => item.key !== key);
+
+export const updateShortlistItem = (
+  items: ShortlistItem[],
+  key: string,
+  patch: Partial<Pick<ShortlistItem, "note" | "tags">>,
+) => items.map((item) => (item.key === key ? { ...item, ...patch } : item));
@@ -0,0 +1,1293 @@
+import { Locale } from "../types";
+
+// UI strings by locale. English is the source: every key starts here, and the
+// other tables must have the same keys (the type checks this).
+const en = {
+  "common.cancel": "Cancel",
+  "common.delete": "Delete",
+  "common.dismiss": "Dismiss",
+  "common.undo": "Undo",
+  "common.newSearch": "New Search",
+  "common.close": "Close",
+  "common.remove": "Remove",
+  "common.apply": "Apply",
+
+  "login.tagline": "Elite Real Estate Concierge",
+  "login.scoutingTitle": "Elite Scouting",
+  "login.scoutingBody": "Verified architectural data and location insights.",
+  "login.perspectivesTitle": "3D Perspectives",
+  "login.perspectivesBody":
+    "Satellite-first approach to neighborhood discovery.",
+  "login.title": "Begin Exploration",
+  "login.subtitle": "Instant access to premium curated listings.",
+  "login.or": "OR",
+  "login.guest": "Guest Access",
+  "login.guestNote":
+    "Guest searches stay on this device for {days} days. Sign in later to keep them.",
+  "login.footer": "Concierge Engine · CondoScout AI",
+  "login.failed": "We could not verify your Google sign-in. Please try again.",
+  "login.expired": "Your session has expired. Please sign in again.",
+
+  "header.showMap": "Show map",
+  "header.hideMap": "Hide map",
+  "header.export": "Export this search",
+  "menu.guestNote": "Limited Search History",
+  "menu.language": "Language",
+  "menu.signOut": "Sign Out",
+
+  "chat.welcome":
+    "👋 Hello, I'm **Royce**.\n\nI am your personal real estate concierge. I'll help you find condominiums, apartments, or luxury hotels.\n\n*\"Show me some 1-bedroom apartments in Sukhumvit near the station.\"*",
+  "chat.you": "You",
+  "chat.scouting": "Scouting...",
+  "chat.saveAndSend": "Save & send",
+  "chat.retry": "Retry",
+  "chat.waiting": "Waiting for a connection",
+  "chat.sending": "Sending...",
+  "chat.versions": "Versions of this turn",
+  "chat.edit": "Edit",
+  "chat.regenerate": "Regenerate",
+  "chat.hiddenOne": "1 place is hidden by your commute filter.",
+  "chat.hiddenMany": "{count} places are hidden by your commute filter.",
+  "chat.placeholder": "e.g., 'Luxury condo in Silom under 40k...'",
+  "chat.stop": "Stop generating",
+  "chat.disclaimer":
+    "CondoScout AI can make mistakes · always verify details with official sources",
+  "chat.stopped": "_Reply stopped._",
+  "chat.updateCriteria":
+    "Please update the results for my revised search criteria.",
+
+  "error.rate-limited":
+    "Royce is handling a lot of requests right now. Please try again in a minute.",
+  "error.auth":
+    "Your sign-in could not be verified for this request. Please sign in again.",
+  "error.blocked":
+    "Royce can't help with that request as worded. Try rephrasing your search.",
+  "error.network":
+    "Could not reach CondoScout. Check your connection and try again.",
+  "error.no-results":
+    "Royce couldn't find any places for that search. Try a wider area or looser criteria.",
+  "error.unavailable":
+    "The property database is unavailable at the moment. Please try again shortly.",
+  "error.not-configured":
+    "Royce isn't set up on this server yet. Please let the site's administrator know.",
+
+  "banner.offline":
+    "You're offline. Saved chats stay readable, and new messages will be sent when you reconnect.",
+  "banner.guestOne": "You have 1 search from guest mode on this device.",
+  "banner.guestMany":
+    "You have {count} searches from guest mode on this device.",
+  "banner.addToAccount": "Add to my account",
+  "banner.discard": "Discard",
+  "banner.askNextTime": "Ask me next time",
+  "banner.deletedOne": 'Deleted "{title}"',
+  "banner.deletedMany": "Deleted {count} searches",
+  "banner.compareSelected": "{count} selected for comparison",
+  "banner.compareMax": " (max {max})",
+  "banner.exportSelection": "Export the selected properties",
+  "banner.clear": "Clear",
+  "banner.compare": "Compare",
+
+  "sync.quota":
+    "Browser storage is full. Delete some old chats to keep saving.",
+  "sync.failed":
+    "Could not save your chats. Changes will retry on your next edit.",
+  "sync.loadFailed": "Could not load your saved chats.",
+
+  "sidebar.history": "History",
+  "sidebar.shortlist": "Shortlist",
+  "sidebar.searchPlaceholder": "Search messages and places",
+  "sidebar.filterTitle": "Filter by date and property type",
+  "sidebar.selectTitle": "Select several searches",
+  "sidebar.selected": "{count} selected",
+  "sidebar.archive": "Archive",
+  "sidebar.from": "From",
+  "sidebar.to": "To",
+  "sidebar.anyType": "Any property type",
+  "sidebar.clearSearch": "Clear search",
+  "sidebar.noMatches": "No matching searches",
+  "sidebar.noHistory": "No search history",
+  "sidebar.pinned": "Pinned",
+  "sidebar.recent": "Recent",
+  "sidebar.showArchived": "Show archived ({count})",
+  "sidebar.hideArchived": "Hide archived ({count})",
+  "sidebar.footer": "CondoScout Concierge",
+  "sidebar.moreHits": "+{count} more in this search",
+
+  "propertyType.condo": "Condo",
+  "propertyType.apartment": "Apartment",
+  "propertyType.hotel": "Hotel",
+  "criteria.studio": "Studio",
+  "criteria.bedrooms": "{count} bed",
+  "criteria.transit": "≤ {distance} to BTS/MRT",
+  "criteria.pets": "Pets allowed",
+  "criteria.noPets": "No pets",
+  "criteria.furnished": "Furnished",
+  "criteria.unfurnished": "Unfurnished",
+  "criteria.field.budget": "Budget",
+  "criteria.field.bedrooms": "Bedrooms",
+  "criteria.field.propertyType": "Property type",
+  "criteria.field.transit": "Distance to BTS/MRT",
+  "criteria.field.pets": "Pets",
+  "criteria.field.furnished": "Furnishing",
+  "criteria.edit": "Edit {field}",
+  "criteria.addFilter": "+ Filter",
+  "criteria.min": "Min",
+  "criteria.max": "Max",
+  "criteria.bedroomsHint": "0 for studio",
+  "criteria.meters": "Meters",
+
+  "travel.transit": "Transit",
+  "travel.walk": "Walk",
+  "travel.drive": "Drive",
+
+  "price.perMonth": "mo",
+  "price.perNight": "night",
+  "budget.from": "From {amount}",
+  "budget.upTo": "Up to {amount}",
+
+  "place.save": "Save to shortlist",
+  "place.unsave": "Remove from shortlist",
+  "place.addCompare": "Add to comparison",
+  "place.removeCompare": "Remove from comparison",
+  "place.compare": "+ Compare",
+  "place.compared": "✓ Compare",
+  "place.satellite": "Satellite View",
+  "place.estimated":
+    "Estimated by Royce — verify with the building or an agent",
+  "place.est": "est.",
+  "place.walk": "{time} walk",
+  "place.commute": "{mode} to {anchor} · {time}",
+  "place.noDescription": "Explore this location for more details.",
+  "place.directions": "Directions",
+  "place.directionsTitle": "Open in Google Maps",
+  "place.details": "Details / Agent",
+  "place.detailsTitle": "Search for agents and details",
+  "place.ask": "Ask about this",
+  "place.askTitle": "Ask Royce about this place",
+  "place.askNumberTitle": "Ask Royce about #{number}",
+  "place.mapOf": "Map of {title}",
+  "place.offlineMap": "Map unavailable offline",
+  "detail.researching": "Royce is researching this building...",
+  "detail.failed":
+    "I could not put together a briefing on this building just now. You can still ask me about it below.",
+  "detail.pros": "Pros",
+  "detail.cons": "Cons",
+  "detail.typicalRent": "Typical rents",
+  "detail.neighbourhood": "Neighbourhood",
+  "detail.nearby": "Nearby",
+  "detail.reviewThemes": "Review themes",
+  "detail.askPlaceholder": "Ask about {title}...",
+  "detail.ask": "Ask",
+  "detail.continueInChat": "Continue in the main conversation",
+  "compare.title": "Compare {count} properties",
+  "compare.comparing": "Royce is comparing...",
+  "compare.ask": "Ask Royce to compare these",
+  "compare.verdict": "Royce's verdict",
+  "compare.failed":
+    "I apologize, but I could not complete the comparison. Please try again shortly.",
+  "compare.address": "Address",
+  "compare.price": "Price",
+  "compare.transit": "Transit",
+  "compare.rating": "Rating",
+  "compare.unitTypes": "Unit types",
+  "compare.amenities": "Amenities",
+  "compare.reviews": "Reviews",
+  "area.nearMe": "Near me",
+  "area.device": "My location",
+  "area.pinned": "Pin on map",
+  "area.neighbourhood": "Neighbourhood",
+  "area.choose": "Choose search area",
+  "area.title": "Search Area",
+  "area.aroundDevice": "Searching around your current position ({coords}).",
+  "area.noDevice":
+    "Location access is unavailable, so results will not be biased to your position.",
+  "area.neighbourhoodPlaceholder": "e.g., Thong Lo, Ari, Sathorn",
+  "area.apply": "Search here",
+  "area.pinHint": "Place a pin on the map and Royce will search around it.",
+  "area.pinnedAt": "Searching around the pin at {coords}.",
+  "area.pickOnMap": "Place pin on map",
+  "commute.anchors": "Commute anchors",
+  "commute.badge": "≤ {time} · {anchor}",
+  "commute.button": "Commute",
+  "commute.myPlaces": "My Places",
+  "commute.empty":
+    "Add your office, school or anywhere you travel to often, and Royce will estimate commute times for every result.",
+  "commute.namePlaceholder": "Work",
+  "commute.addressPlaceholder": "Address or landmark",
+  "commute.add": "+ Add place",
+  "commute.filter": "Filter Results",
+  "commute.maxMinutes": "Max minutes (any)",
+  "commute.sort": "Sort results by commute",
+  "commute.estimating": "Estimating...",
+  "commute.estimate": "Estimate commutes for this search",
+  "savedSearch.daily": "Daily",
+  "savedSearch.every3Days": "Every 3 days",
+  "savedSearch.weekly": "Weekly",
+  "savedSearch.everyHours": "Every {hours} hours",
+  "savedSearch.watchTitle":
+    "Watch this search for new places and price changes",
+  "savedSearch.watchingTitle": "Watching this search: {interval}",
+  "savedSearch.watch": "Watch this search",
+  "savedSearch.watching": "Watching this search",
+  "savedSearch.lastChecked": "Last checked {date}.",
+  "savedSearch.firstCheck": "First check {date}.",
+  "savedSearch.intro":
+    "Royce will re-run your latest search and let you know about new places or changed prices.",
+  "savedSearch.stop": "Stop watching",
+  "savedSearch.failed": "Could not update this saved search. Please try again.",
+  "alerts.title": "Saved search alerts",
+  "alerts.heading": "Alerts",
+  "alerts.markAllRead": "Mark all as read",
+  "alerts.empty":
+    "No alerts yet. Watch a search to hear about new places and price changes.",
+  "alerts.more": "+{count} more",
+  "alerts.newMatch": "New match",
+  "alerts.price": "Price {from} → {to}",
+  "alerts.rating": "Rating {from} → {to}",
+  "alerts.unitTypes": "Unit types changed",
+  "alerts.unknownPrice": "unknown",
+  "share.title": "Share a read-only link to this search",
+  "share.heading": "Read-only link",
+  "share.creating": "Creating link...",
+  "share.failed": "Could not create a link. Please try again.",
+  "share.copied": "Copied to your clipboard.",
+  "share.note":
+    "Anyone with the link can view this search as it is now, without your name or location.",
+  "shared.label": "Shared search · read-only",
+  "shared.open": "Open CondoScout",
+  "shared.forkTitle":
+    "Copy this search into your own history and keep chatting",
+  "shared.fork": "Save a copy",
+  "shared.loading": "Opening shared search...",
+  "shared.missing":
+    "This link does not point to a shared search. It may have been mistyped, or it has expired.",
+  "shared.error":
+    "Could not open this shared search. Please try again shortly.",
+  "shortlist.select": "Select for comparison",
+  "shortlist.note": "Add a note...",
+  "shortlist.tag": "Add tag and press Enter",
+  "shortlist.goToChat": "Go to chat",
+  "shortlist.openMap": "Open map",
+  "shortlist.empty": "No saved places yet",
+  "shortlist.emptyHint": "Tap the bookmark on a property card to save it here.",
+  "map.empty": "Places Royce finds in this search will appear here.",
+  "map.zoomIn": "Zoom in",
+  "map.zoomOut": "Zoom out",
+  "map.fitTitle": "Fit all places",
+  "map.fit": "Fit",
+  "map.locatingOne": "Locating 1 place...",
+  "map.locatingMany": "Locating {count} places...",
+  "map.missingOne": "1 place could not be located",
+  "map.missingMany": "{count} places could not be located",
+  "map.placesOne": "1 place",
+  "map.placesMany": "{count} places",
+  "map.pickHint": "Click the map where Royce should search.",
+  "map.searchPoint": "Search area pin",
+  "export.button": "Export",
+  "export.preparing": "Preparing...",
+  "export.markdown": "Markdown",
+  "export.csv": "CSV spreadsheet",
+  "export.pdf": "Printable brochure (PDF)",
+  "report.untitled": "CondoScout search",
+  "report.selection": "Selected properties",
+  "report.exportedOn": "Exported from CondoScout on {date}",
+  "report.preparedOn": "Prepared with CondoScout on {date}",
+  "report.placesShown": "Places shown: {places}",
+  "report.places": "Places",
+  "report.reviews": "{count} reviews",
+  "report.footer":
+    "Details marked ({est}) are estimates — always verify with the building or an agent.",
+  "report.preparing": "Preparing report…",
+  "model.title": "Model used for this search",
+  "session.pending": "Royce is still replying",
+  "session.renameTitle": "Double-click to rename",
+  "session.options": "Search options",
+  "session.rename": "Rename",
+  "session.pin": "Pin to top",
+  "session.unpin": "Unpin",
+  "session.unarchive": "Unarchive",
+  "session.moveToFolder": "Move to folder",
+  "session.removeFromFolder": 'Remove from "{folder}"',
+  "session.newFolder": "New folder, then Enter",
+  "csv.number": "Number",
+  "csv.title": "Title",
+  "csv.address": "Address",
+  "csv.placeId": "Place ID",
+  "csv.mapsUrl": "Google Maps URL",
+  "csv.priceMin": "Price min",
+  "csv.priceMax": "Price max",
+  "csv.currency": "Currency",
+  "csv.pricePeriod": "Price period",
+  "csv.unitTypes": "Unit types",
+  "csv.rating": "Rating",
+  "csv.reviewCount": "Review count",
+  "csv.station": "Nearest station",
+  "csv.line": "Transit line",
+  "csv.walkMinutes": "Walk to station (min)",
+  "csv.amenities": "Amenities",
+  "csv.commute": "{mode} to {anchor} (min)",
+  "csv.estimatedFields": "Estimated fields",
+  "csv.reviewSnippet": "Review snippet",
+};
+
+export type MessageKey = keyof typeof en;
+
+const th: Record<MessageKey, string> = {
+  "common.cancel": "ยกเลิก",
+  "common.delete": "ลบ",
+  "common.dismiss": "ปิด",
+  "common.undo": "เลิกทำ",
+  "common.newSearch": "ค้นหาใหม่",
+  "common.close": "ปิด",
+  "common.remove": "ลบ",
+  "common.apply": "ใช้",
+
+  "login.tagline": "ผู้ช่วยอสังหาริมทรัพย์ระดับพรีเมียม",
+  "login.scoutingTitle": "คัดสรรอย่างมืออาชีพ",
+  "login.scoutingBody": "ข้อมูลอาคารและทำเลที่ผ่านการตรวจสอบ",
+  "login.perspectivesTitle": "มุมมอง 3 มิติ",
+  "login.perspectivesBody": "สำรวจย่านต่างๆ จากภาพถ่ายดาวเทียม",
+  "login.title": "เริ่มสำรวจ",
+  "login.subtitle": "เข้าถึงรายการที่พักคัดสรรได้ทันที",
+  "login.or": "หรือ",
+  "login.guest": "เข้าใช้แบบผู้เยี่ยมชม",
+  "login.guestNote":
+    "การค้นหาแบบผู้เยี่ยมชมจะเก็บไว้ในอุปกรณ์นี้ {days} วัน ลงชื่อเข้าใช้ภายหลังเพื่อเก็บไว้",
+  "login.footer": "Concierge Engine · CondoScout AI",
+  "login.failed":
+    "ไม่สามารถยืนยันการลงชื่อเข้าใช้ด้วย Google ได้ โปรดลองอีกครั้ง",
+  "login.expired": "เซสชันของคุณหมดอายุแล้ว โปรดลงชื่อเข้าใช้อีกครั้ง",
+
+  "header.showMap": "แสดงแผนที่",
+  "header.hideMap": "ซ่อนแผนที่",
+  "header.export": "ส่งออกการค้นหานี้",
+  "menu.guestNote": "ประวัติการค้นหาแบบจำกัด",
+  "menu.language": "ภาษา",
+  "menu.signOut": "ออกจากระบบ",
+
+  "chat.welcome":
+    '👋 สวัสดีครับ ผม **Royce**\n\nผมเป็นผู้ช่วยด้านอสังหาริมทรัพย์ส่วนตัวของคุณ พร้อมช่วยหาคอนโด อพาร์ตเมนต์ หรือโรงแรมหรู\n\n*"ขออพาร์ตเมนต์ 1 ห้องนอนย่านสุขุมวิทใกล้สถานีหน่อย"*',
+  "chat.you": "คุณ",
+  "chat.scouting": "กำลังค้นหา...",
+  "chat.saveAndSend": "บันทึกและส่ง",
+  "chat.retry": "ลองอีกครั้ง",
+  "chat.waiting": "กำลังรอการเชื่อมต่อ",
+  "chat.sending": "กำลังส่ง...",
+  "chat.versions": "เวอร์ชันของข้อความนี้",
+  "chat.edit": "แก้ไข",
+  "chat.regenerate": "ตอบใหม่",
+  "chat.hiddenOne": "ซ่อน 1 แห่งตามตัวกรองการเดินทางของคุณ",
+  "chat.hiddenMany": "ซ่อน {count} แห่งตามตัวกรองการเดินทางของคุณ",
+  "chat.placeholder": "เช่น 'คอนโดหรูย่านสีลม ไม่เกิน 40,000 บาท...'",
+  "chat.stop": "หยุดตอบ",
+  "chat.disclaimer":
+    "CondoScout AI อาจผิดพลาดได้ · โปรดตรวจสอบรายละเอียดกับแหล่งข้อมูลทางการเสมอ",
+  "chat.stopped": "_หยุดการตอบแล้ว_",
+  "chat.updateCriteria": "โปรดอัปเดตผลลัพธ์ตามเงื่อนไขการค้นหาใหม่ของฉัน",
+
+  "error.rate-limited":
+    "ขณะนี้ Royce มีคำขอจำนวนมาก โปรดลองอีกครั้งในอีกสักครู่",
+  "error.auth":
+    "ไม่สามารถยืนยันการลงชื่อเข้าใช้สำหรับคำขอนี้ โปรดลงชื่อเข้าใช้อีกครั้ง",
+  "error.blocked":
+    "Royce ไม่สามารถช่วยคำขอนี้ได้ โปรดลองเรียบเรียงการค้นหาใหม่",
+  "error.network":
+    "ไม่สามารถเชื่อมต่อ CondoScout ได้ โปรดตรวจสอบการเชื่อมต่อแล้วลองอีกครั้ง",
+  "error.no-results":
+    "Royce ไม่พบสถานที่สำหรับการค้นหานี้ ลองขยายพื้นที่หรือผ่อนเงื่อนไขลง",
+  "error.unavailable":
+    "ฐานข้อมูลที่พักไม่พร้อมใช้งานในขณะนี้ โปรดลองอีกครั้งภายหลัง",
+  "error.not-configured":
+    "เซิร์ฟเวอร์นี้ยังไม่ได้ตั้งค่า Royce โปรดแจ้งผู้ดูแลเว็บไซต์",
+
+  "banner.offline":
+    "คุณออฟไลน์อยู่ แชทที่บันทึกไว้ยังอ่านได้ และข้อความใหม่จะถูกส่งเมื่อกลับมาออนไลน์",
+  "banner.guestOne": "คุณมีการค้นหา 1 รายการจากโหมดผู้เยี่ยมชมในอุปกรณ์นี้",
+  "banner.guestMany":
+    "คุณมีการค้นหา {count} รายการจากโหมดผู้เยี่ยมชมในอุปกรณ์นี้",
+  "banner.addToAccount": "เพิ่มในบัญชีของฉัน",
+  "banner.discard": "ทิ้ง",
+  "banner.askNextTime": "ถามอีกครั้งครั้งหน้า",
+  "banner.deletedOne": 'ลบ "{title}" แล้ว',
+  "banner.deletedMany": "ลบการค้นหา {count} รายการแล้ว",
+  "banner.compareSelected": "เลือกเปรียบเทียบ {count} แห่ง",
+  "banner.compareMax": " (สูงสุด {max})",
+  "banner.exportSelection": "ส่งออกที่พักที่เลือก",
+  "banner.clear": "ล้าง",
+  "banner.compare": "เปรียบเทียบ",
+
+  "sync.quota": "พื้นที่จัดเก็บของเบราว์เซอร์เต็ม โปรดลบแชทเก่าเพื่อบันทึกต่อ",
+  "sync.failed": "ไม่สามารถบันทึกแชทได้ ระบบจะลองใหม่เมื่อคุณแก้ไขครั้งถัดไป",
+  "sync.loadFailed": "ไม่สามารถโหลดแชทที่บันทึกไว้ได้",
+
+  "sidebar.history": "ประวัติ",
+  "sidebar.shortlist": "รายการโปรด",
+  "sidebar.searchPlaceholder": "ค้นหาข้อความและสถานที่",
+  "sidebar.filterTitle": "กรองตามวันที่และประเภทที่พัก",
+  "sidebar.selectTitle": "เลือกหลายรายการ",
+  "sidebar.selected": "เลือก {count} รายการ",
+  "sidebar.archive": "เก็บถาวร",
+  "sidebar.from": "ตั้งแต่",
+  "sidebar.to": "ถึง",
+  "sidebar.anyType": "ที่พักทุกประเภท",
+  "sidebar.clearSearch": "ล้างการค้นหา",
+  "sidebar.noMatches": "ไม่พบการค้นหาที่ตรงกัน",
+  "sidebar.noHistory": "ยังไม่มีประวัติการค้นหา",
+  "sidebar.pinned": "ปักหมุด",
+  "sidebar.recent": "ล่าสุด",
+  "sidebar.showArchived": "แสดงที่เก็บถาวร ({count})",
+  "sidebar.hideArchived": "ซ่อนที่เก็บถาวร ({count})",
+  "sidebar.footer": "CondoScout Concierge",
+  "sidebar.moreHits": "+ อีก {count} รายการในการค้นหานี้",
+
+  "propertyType.condo": "คอนโด",
+  "propertyType.apartment": "อพาร์ตเมนต์",
+  "propertyType.hotel": "โรงแรม",
+  "criteria.studio": "สตูดิโอ",
+  "criteria.bedrooms": "{count} ห้องนอน",
+  "criteria.transit": "≤ {distance} ถึง BTS/MRT",
+  "criteria.pets": "เลี้ยงสัตว์ได้",
+  "criteria.noPets": "ห้ามเลี้ยงสัตว์",
+  "criteria.furnished": "มีเฟอร์นิเจอร์",
+  "criteria.unfurnished": "ไม่มีเฟอร์นิเจอร์",
+  "criteria.field.budget": "งบประมาณ",
+  "criteria.field.bedrooms": "ห้องนอน",
+  "criteria.field.propertyType": "ประเภทที่พัก",
+  "criteria.field.transit": "ระยะถึง BTS/MRT",
+  "criteria.field.pets": "สัตว์เลี้ยง",
+  "criteria.field.furnished": "เฟอร์นิเจอร์",
+  "criteria.edit": "แก้ไข{field}",
+  "criteria.addFilter": "+ ตัวกรอง",
+  "criteria.min": "ต่ำสุด",
+  "criteria.max": "สูงสุด",
+  "criteria.bedroomsHint": "0 = สตูดิโอ",
+  "criteria.meters": "เมตร",
+
+  "travel.transit": "ขนส่งสาธารณะ",
+  "travel.walk": "เดิน",
+  "travel.drive": "ขับรถ",
+
+  "price.perMonth": "เดือน",
+  "price.perNight": "คืน",
+  "budget.from": "ตั้งแต่ {amount}",
+  "budget.upTo": "ไม่เกิน {amount}",
+
+  "place.save": "บันทึกในรายการโปรด",
+  "place.unsave": "นำออกจากรายการโปรด",
+  "place.addCompare": "เพิ่มในการเปรียบเทียบ",
+  "place.removeCompare": "นำออกจากการเปรียบเทียบ",
+  "place.compare": "+ เปรียบเทียบ",
+  "place.compared": "✓ เปรียบเทียบ",
+  "place.satellite": "ภาพดาวเทียม",
+  "place.estimated": "ประมาณการโดย Royce โปรดตรวจสอบกับอาคารหรือนายหน้า",
+  "place.est": "ประมาณ",
+  "place.walk": "เดิน {time}",
+  "place.commute": "{mode}ไป {anchor} · {time}",
+  "place.noDescription": "ดูรายละเอียดเพิ่มเติมของสถานที่นี้",
+  "place.directions": "เส้นทาง",
+  "place.directionsTitle": "เปิดใน Google Maps",
+  "place.details": "รายละเอียด / นายหน้า",
+  "place.detailsTitle": "ค้นหานายหน้าและรายละเอียด",
+  "place.ask": "ถามเกี่ยวกับที่นี่",
+  "place.askTitle": "ถาม Royce เกี่ยวกับสถานที่นี้",
+  "place.askNumberTitle": "ถาม Royce เกี่ยวกับ #{number}",
+  "place.mapOf": "แผนที่ของ {title}",
+  "place.offlineMap": "ไม่มีแผนที่ขณะออฟไลน์",
+  "detail.researching": "Royce กำลังค้นข้อมูลอาคารนี้...",
+  "detail.failed":
+    "ตอนนี้ยังสรุปข้อมูลอาคารนี้ไม่ได้ แต่คุณยังถามเกี่ยวกับอาคารนี้ได้ด้านล่าง",
+  "detail.pros": "ข้อดี",
+  "detail.cons": "ข้อเสีย",
+  "detail.typicalRent": "ค่าเช่าโดยทั่วไป",
+  "detail.neighbourhood": "ย่าน",
+  "detail.nearby": "ใกล้เคียง",
+  "detail.reviewThemes": "ประเด็นจากรีวิว",
+  "detail.askPlaceholder": "ถามเกี่ยวกับ {title}...",
+  "detail.ask": "ถาม",
+  "detail.continueInChat": "คุยต่อในบทสนทนาหลัก",
+  "compare.title": "เปรียบเทียบ {count} แห่ง",
+  "compare.comparing": "Royce กำลังเปรียบเทียบ...",
+  "compare.ask": "ให้ Royce เปรียบเทียบ",
+  "compare.verdict": "ความเห็นของ Royce",
+  "compare.failed":
+    "ขออภัย ไม่สามารถเปรียบเทียบได้ในขณะนี้ โปรดลองอีกครั้งในภายหลัง",
+  "compare.address": "ที่อยู่",
+  "compare.price": "ราคา",
+  "compare.transit": "รถไฟฟ้าใกล้สุด",
+  "compare.rating": "คะแนน",
+  "compare.unitTypes": "ประเภทห้อง",
+  "compare.amenities": "สิ่งอำนวยความสะดวก",
+  "compare.reviews": "รีวิว",
+  "area.nearMe": "ใกล้ฉัน",
+  "area.device": "ตำแหน่งของฉัน",
+  "area.pinned": "ปักหมุดบนแผนที่",
+  "area.neighbourhood": "ย่าน",
+  "area.choose": "เลือกพื้นที่ค้นหา",
+  "area.title": "พื้นที่ค้นหา",
+  "area.aroundDevice": "ค้นหารอบตำแหน่งปัจจุบันของคุณ ({coords})",
+  "area.noDevice":
+    "ไม่สามารถเข้าถึงตำแหน่งได้ ผลลัพธ์จึงไม่อิงกับตำแหน่งของคุณ",
+  "area.neighbourhoodPlaceholder": "เช่น ทองหล่อ อารีย์ สาทร",
+  "area.apply": "ค้นหาที่นี่",
+  "area.pinHint": "ปักหมุดบนแผนที่ แล้ว Royce จะค้นหารอบจุดนั้น",
+  "area.pinnedAt": "ค้นหารอบหมุดที่ {coords}",
+  "area.pickOnMap": "ปักหมุดบนแผนที่",
+  "commute.anchors": "สถานที่สำหรับคำนวณการเดินทาง",
+  "commute.badge": "≤ {time} · {anchor}",
+  "commute.button": "การเดินทาง",
+  "commute.myPlaces": "สถานที่ของฉัน",
+  "commute.empty":
+    "เพิ่มที่ทำงาน โรงเรียน หรือที่ที่คุณไปบ่อย แล้ว Royce จะประเมินเวลาเดินทางให้ทุกผลลัพธ์",
+  "commute.namePlaceholder": "ที่ทำงาน",
+  "commute.addressPlaceholder": "ที่อยู่หรือสถานที่สำคัญ",
+  "commute.add": "+ เพิ่มสถานที่",
+  "commute.filter": "กรองผลลัพธ์",
+  "commute.maxMinutes": "นาทีสูงสุด (ไม่จำกัด)",
+  "commute.sort": "เรียงผลลัพธ์ตามเวลาเดินทาง",
+  "commute.estimating": "กำลังประเมิน...",
+  "commute.estimate": "ประเมินเวลาเดินทางสำหรับการค้นหานี้",
+  "savedSearch.daily": "ทุกวัน",
+  "savedSearch.every3Days": "ทุก 3 วัน",
+  "savedSearch.weekly": "ทุกสัปดาห์",
+  "savedSearch.everyHours": "ทุก {hours} ชั่วโมง",
+  "savedSearch.watchTitle":
+    "ติดตามการค้นหานี้เพื่อดูที่พักใหม่และราคาที่เปลี่ยน",
+  "savedSearch.watchingTitle": "กำลังติดตามการค้นหานี้: {interval}",
+  "savedSearch.watch": "ติดตามการค้นหานี้",
+  "savedSearch.watching": "กำลังติดตามการค้นหานี้",
+  "savedSearch.lastChecked": "ตรวจสอบล่าสุด {date}",
+  "savedSearch.firstCheck": "ตรวจสอบครั้งแรก {date}",
+  "savedSearch.intro":
+    "Royce จะค้นหาล่าสุดของคุณซ้ำ และแจ้งเมื่อมีที่พักใหม่หรือราคาเปลี่ยน",
+  "savedSearch.stop": "หยุดติดตาม",
+  "savedSearch.failed":
+    "ไม่สามารถอัปเดตการค้นหาที่บันทึกไว้ได้ โปรดลองอีกครั้ง",
+  "alerts.title": "การแจ้งเตือนการค้นหาที่บันทึกไว้",
+  "alerts.heading": "การแจ้งเตือน",
+  "alerts.markAllRead": "ทำเครื่องหมายว่าอ่านแล้วทั้งหมด",
+  "alerts.empty":
+    "ยังไม่มีการแจ้งเตือน ติดตามการค้นหาเพื่อรับข่าวที่พักใหม่และราคาที่เปลี่ยน",
+  "alerts.more": "+ อีก {count} รายการ",
+  "alerts.newMatch": "ที่พักใหม่ที่ตรงเงื่อนไข",
+  "alerts.price": "ราคา {from} → {to}",
+  "alerts.rating": "คะแนน {from} → {to}",
+  "alerts.unitTypes": "ประเภทห้องเปลี่ยนไป",
+  "alerts.unknownPrice": "ไม่ทราบ",
+  "share.title": "แชร์ลิงก์แบบอ่านอย่างเดียวของการค้นหานี้",
+  "share.heading": "ลิงก์แบบอ่านอย่างเดียว",
+  "share.creating": "กำลังสร้างลิงก์...",
+  "share.failed": "ไม่สามารถสร้างลิงก์ได้ โปรดลองอีกครั้ง",
+  "share.copied": "คัดลอกไปยังคลิปบอร์ดแล้ว",
+  "share.note":
+    "ทุกคนที่มีลิงก์จะเห็นการค้นหานี้ตามที่เป็นอยู่ตอนนี้ โดยไม่เห็นชื่อหรือตำแหน่งของคุณ",
+  "shared.label": "การค้นหาที่แชร์ · อ่านอย่างเดียว",
+  "shared.open": "เปิด CondoScout",
+  "shared.forkTitle": "คัดลอกการค้นหานี้ไปยังประวัติของคุณและคุยต่อ",
+  "shared.fork": "บันทึกสำเนา",
+  "shared.loading": "กำลังเปิดการค้นหาที่แชร์...",
+  "shared.missing":
+    "ลิงก์นี้ไม่ได้ชี้ไปยังการค้นหาที่แชร์ อาจพิมพ์ผิดหรือหมดอายุแล้ว",
+  "shared.error": "ไม่สามารถเปิดการค้นหาที่แชร์นี้ได้ โปรดลองอีกครั้งในภายหลัง",
+  "shortlist.select": "เลือกเพื่อเปรียบเทียบ",
+  "shortlist.note": "เพิ่มบันทึก...",
+  "shortlist.tag": "เพิ่มแท็กแล้วกด Enter",
+  "shortlist.goToChat": "ไปที่แชท",
+  "shortlist.openMap": "เปิดแผนที่",
+  "shortlist.empty": "ยังไม่มีที่พักที่บันทึกไว้",
+  "shortlist.emptyHint": "แตะที่บุ๊กมาร์กบนการ์ดที่พักเพื่อบันทึกไว้ที่นี่",
+  "map.empty": "ที่พักที่ Royce พบในการค้นหานี้จะแสดงที่นี่",
+  "map.zoomIn": "ซูมเข้า",
+  "map.zoomOut": "ซูมออก",
+  "map.fitTitle": "แสดงทุกที่พัก",
+  "map.fit": "ทั้งหมด",
+  "map.locatingOne": "กำลังหาตำแหน่ง 1 แห่ง...",
+  "map.locatingMany": "กำลังหาตำแหน่ง {count} แห่ง...",
+  "map.missingOne": "หาตำแหน่งไม่ได้ 1 แห่ง",
+  "map.missingMany": "หาตำแหน่งไม่ได้ {count} แห่ง",
+  "map.placesOne": "1 แห่ง",
+  "map.placesMany": "{count} แห่ง",
+  "map.pickHint": "คลิกบนแผนที่ตรงที่ต้องการให้ Royce ค้นหา",
+  "map.searchPoint": "หมุดพื้นที่ค้นหา",
+  "export.button": "ส่งออก",
+  "export.preparing": "กำลังเตรียม...",
+  "export.markdown": "Markdown",
+  "export.csv": "สเปรดชีต CSV",
+  "export.pdf": "โบรชัวร์สำหรับพิมพ์ (PDF)",
+  "report.untitled": "การค้นหา CondoScout",
+  "report.selection": "ที่พักที่เลือก",
+  "report.exportedOn": "ส่งออกจาก CondoScout เมื่อ {date}",
+  "report.preparedOn": "จัดทำด้วย CondoScout เมื่อ {date}",
+  "report.placesShown": "ที่พักที่แสดง: {places}",
+  "report.places": "ที่พัก",
+  "report.reviews": "{count} รีวิว",
+  "report.footer":
+    "ข้อมูลที่มีเครื่องหมาย ({est}) เป็นค่าประมาณ โปรดตรวจสอบกับอาคารหรือเอเจนต์เสมอ",
+  "report.preparing": "กำลังเตรียมรายงาน…",
+  "model.title": "โมเดลที่ใช้สำหรับการค้นหานี้",
+  "session.pending": "Royce ยังตอบไม่เสร็จ",
+  "session.renameTitle": "ดับเบิลคลิกเพื่อเปลี่ยนชื่อ",
+  "session.options": "ตัวเลือกการค้นหา",
+  "session.rename": "เปลี่ยนชื่อ",
+  "session.pin": "ปักหมุดไว้ด้านบน",
+  "session.unpin": "เลิกปักหมุด",
+  "session.unarchive": "เลิกเก็บถาวร",
+  "session.moveToFolder": "ย้ายไปยังโฟลเดอร์",
+  "session.removeFromFolder": 'นำออกจาก "{folder}"',
+  "session.newFolder": "โฟลเดอร์ใหม่ แล้วกด Enter",
+  "csv.number": "ลำดับ",
+  "csv.title": "ชื่อ",
+  "csv.address": "ที่อยู่",
+  "csv.placeId": "Place ID",
+  "csv.mapsUrl": "ลิงก์ Google Maps",
+  "csv.priceMin": "ราคาต่ำสุด",
+  "csv.priceMax": "ราคาสูงสุด",
+  "csv.currency": "สกุลเงิน",
+  "csv.pricePeriod": "รอบราคา",
+  "csv.unitTypes": "ประเภทห้อง",
+  "csv.rating": "คะแนน",
+  "csv.reviewCount": "จำนวนรีวิว",
+  "csv.station": "สถานีใกล้สุด",
+  "csv.line": "สายรถไฟฟ้า",
+  "csv.walkMinutes": "เดินถึงสถานี (นาที)",
+  "csv.amenities": "สิ่งอำนวยความสะดวก",
+  "csv.commute": "{mode} ไป {anchor} (นาที)",
+  "csv.estimatedFields": "ข้อมูลที่เป็นค่าประมาณ",
+  "csv.reviewSnippet": "ข้อความรีวิว",
+};
+
+const ja: Record<MessageKey, string> = {
+  "common.cancel": "キャンセル",
+  "common.delete": "削除",
+  "common.dismiss": "閉じる",
+  "common.undo": "元に戻す",
+  "common.newSearch": "新しい検索",
+  "common.close": "閉じる",
+  "common.remove": "削除",
+  "common.apply": "適用",
+
+  "login.tagline": "エリート不動産コンシェルジュ",
+  "login.scoutingTitle": "厳選スカウティング",
+  "login.scoutingBody": "検証済みの建物データと立地情報。",
+  "login.perspectivesTitle": "3D ビュー",
+  "login.perspectivesBody": "衛星写真から街を探せます。",
+  "login.title": "探索を始める",
+  "login.subtitle": "厳選された物件にすぐアクセス。",
+  "login.or": "または",
+  "login.guest": "ゲストとして利用",
+  "login.guestNote":
+    "ゲストの検索はこの端末に {days} 日間保存されます。後でサインインすると保持できます。",
+  "login.footer": "Concierge Engine · CondoScout AI",
+  "login.failed":
+    "Google のサインインを確認できませんでした。もう一度お試しください。",
+  "login.expired":
+    "セッションの有効期限が切れました。もう一度サインインしてください。",
+
+  "header.showMap": "地図を表示",
+  "header.hideMap": "地図を隠す",
+  "header.export": "この検索をエクスポート",
+  "menu.guestNote": "検索履歴は限定的です",
+  "menu.language": "言語",
+  "menu.signOut": "サインアウト",
+
+  "chat.welcome":
+    "👋 こんにちは、**Royce** です。\n\nあなた専属の不動産コンシェルジュです。コンドミニアム、アパートメント、高級ホテル探しをお手伝いします。\n\n*「スクンビットの駅近くで 1 ベッドルームのアパートを見せて」*",
+  "chat.you": "あなた",
+  "chat.scouting": "検索中...",
+  "chat.saveAndSend": "保存して送信",
+  "chat.retry": "再試行",
+  "chat.waiting": "接続を待っています",
+  "chat.sending": "送信中...",
+  "chat.versions": "このやり取りのバージョン",
+  "chat.edit": "編集",
+  "chat.regenerate": "再生成",
+  "chat.hiddenOne": "通勤フィルターにより 1 件が非表示です。",
+  "chat.hiddenMany": "通勤フィルターにより {count} 件が非表示です。",
+  "chat.placeholder": "例:「シーロムの高級コンドミニアム、4 万バーツ以下」",
+  "chat.stop": "生成を停止",
+  "chat.disclaimer":
+    "CondoScout AI は間違えることがあります · 詳細は必ず公式情報でご確認ください",
+  "chat.stopped": "_回答を停止しました。_",
+  "chat.updateCriteria": "変更した検索条件で結果を更新してください。",
+
+  "error.rate-limited":
+    "現在 Royce へのリクエストが集中しています。1 分ほどしてから再度お試しください。",
+  "error.auth":
+    "このリクエストのサインインを確認できませんでした。もう一度サインインしてください。",
+  "error.blocked":
+    "この内容では Royce はお手伝いできません。検索の表現を変えてお試しください。",
+  "error.network":
+    "CondoScout に接続できません。接続を確認してもう一度お試しください。",
+  "error.no-results":
+    "この検索に該当する物件が見つかりませんでした。範囲を広げるか条件を緩めてください。",
+  "error.unavailable":
+    "物件データベースは現在利用できません。しばらくしてから再度お試しください。",
+  "error.not-configured":
+    "このサーバーではまだ Royce が設定されていません。サイトの管理者にお知らせください。",
+
+  "banner.offline":
+    "オフラインです。保存済みのチャットは閲覧でき、新しいメッセージは再接続時に送信されます。",
+  "banner.guestOne": "この端末にゲストモードの検索が 1 件あります。",
+  "banner.guestMany": "この端末にゲストモードの検索が {count} 件あります。",
+  "banner.addToAccount": "アカウントに追加",
+  "banner.discard": "破棄",
+  "banner.askNextTime": "次回また確認する",
+  "banner.deletedOne": "「{title}」を削除しました",
+  "banner.deletedMany": "{count} 件の検索を削除しました",
+  "banner.compareSelected": "比較に {count} 件選択中",
+  "banner.compareMax": "(最大 {max} 件)",
+  "banner.exportSelection": "選択した物件をエクスポート",
+  "banner.clear": "クリア",
+  "banner.compare": "比較",
+
+  "sync.quota":
+    "ブラウザの保存容量がいっぱいです。古いチャットを削除してください。",
+  "sync.failed": "チャットを保存できませんでした。次の編集時に再試行します。",
+  "sync.loadFailed": "保存したチャットを読み込めませんでした。",
+
+  "sidebar.history": "履歴",
+  "sidebar.shortlist": "候補リスト",
+  "sidebar.searchPlaceholder": "メッセージと物件を検索",
+  "sidebar.filterTitle": "日付と物件タイプで絞り込む",
+  "sidebar.selectTitle": "複数の検索を選択",
+  "sidebar.selected": "{count} 件選択中",
+  "sidebar.archive": "アーカイブ",
+  "sidebar.from": "開始日",
+  "sidebar.to": "終了日",
+  "sidebar.anyType": "すべての物件タイプ",
+  "sidebar.clearSearch": "検索をクリア",
+  "sidebar.noMatches": "一致する検索はありません",
+  "sidebar.noHistory": "検索履歴はありません",
+  "sidebar.pinned": "ピン留め",
+  "sidebar.recent": "最近",
+  "sidebar.showArchived": "アーカイブを表示({count})",
+  "sidebar.hideArchived": "アーカイブを隠す({count})",
+  "sidebar.footer": "CondoScout Concierge",
+  "sidebar.moreHits": "この検索にあと {count} 件",
+
+  "propertyType.condo": "コンドミニアム",
+  "propertyType.apartment": "アパートメント",
+  "propertyType.hotel": "ホテル",
+  "criteria.studio": "スタジオ",
+  "criteria.bedrooms": "{count} ベッドルーム",
+  "criteria.transit": "BTS/MRT まで {distance} 以内",
+  "criteria.pets": "ペット可",
+  "criteria.noPets": "ペット不可",
+  "criteria.furnished": "家具付き",
+  "criteria.unfurnished": "家具なし",
+  "criteria.field.budget": "予算",
+  "criteria.field.bedrooms": "寝室数",
+  "criteria.field.propertyType": "物件タイプ",
+  "criteria.field.transit": "BTS/MRT までの距離",
+  "criteria.field.pets": "ペット",
+  "criteria.field.furnished": "家具",
+  "criteria.edit": "{field}を編集",
+  "criteria.addFilter": "+ 条件",
+  "criteria.min": "下限",
+  "criteria.max": "上限",
+  "criteria.bedroomsHint": "0 はスタジオ",
+  "criteria.meters": "メートル",
+
+  "travel.transit": "公共交通",
+  "travel.walk": "徒歩",
+  "travel.drive": "車",
+
+  "price.perMonth": "月",
+  "price.perNight": "泊",
+  "budget.from": "{amount} から",
+  "budget.upTo": "{amount} まで",
+
+  "place.save": "候補リストに保存",
+  "place.unsave": "候補リストから削除",
+  "place.addCompare": "比較に追加",
+  "place.removeCompare": "比較から外す",
+  "place.compare": "+ 比較",
+  "place.compared": "✓ 比較",
+  "place.satellite": "衛星ビュー",
+  "place.estimated":
+    "Royce による推定値です。建物または仲介業者にご確認ください",
+  "place.est": "推定",
+  "place.walk": "徒歩 {time}",
+  "place.commute": "{anchor} まで{mode}で {time}",
+  "place.noDescription": "この場所の詳細をご覧ください。",
+  "place.directions": "経路",
+  "place.directionsTitle": "Google マップで開く",
+  "place.details": "詳細 / 仲介業者",
+  "place.detailsTitle": "仲介業者と詳細を検索",
+  "place.ask": "この物件について質問",
+  "place.askTitle": "この物件について Royce に質問",
+  "place.askNumberTitle": "#{number} について Royce に質問",
+  "place.mapOf": "{title} の地図",
+  "place.offlineMap": "オフラインでは地図を表示できません",
+  "detail.researching": "Royce がこの建物を調べています...",
+  "detail.failed":
+    "今はこの建物の概要をまとめられませんでした。下から質問することはできます。",
+  "detail.pros": "長所",
+  "detail.cons": "短所",
+  "detail.typicalRent": "一般的な家賃",
+  "detail.neighbourhood": "周辺エリア",
+  "detail.nearby": "近くの施設",
+  "detail.reviewThemes": "レビューの傾向",
+  "detail.askPlaceholder": "{title} について質問...",
+  "detail.ask": "質問",
+  "detail.continueInChat": "メインの会話で続ける",
+  "compare.title": "{count} 件の物件を比較",
+  "compare.comparing": "Royce が比較しています...",
+  "compare.ask": "Royce に比較してもらう",
+  "compare.verdict": "Royce の見解",
+  "compare.failed":
+    "申し訳ありませんが、比較を完了できませんでした。しばらくしてからもう一度お試しください。",
+  "compare.address": "住所",
+  "compare.price": "価格",
+  "compare.transit": "最寄り駅",
+  "compare.rating": "評価",
+  "compare.unitTypes": "間取り",
+  "compare.amenities": "設備",
+  "compare.reviews": "レビュー",
+  "area.nearMe": "現在地周辺",
+  "area.device": "現在地",
+  "area.pinned": "地図で指定",
+  "area.neighbourhood": "エリア",
+  "area.choose": "検索エリアを選択",
+  "area.title": "検索エリア",
+  "area.aroundDevice": "現在地 ({coords}) の周辺を検索します。",
+  "area.noDevice":
+    "位置情報を利用できないため、結果は現在地に合わせられません。",
+  "area.neighbourhoodPlaceholder": "例: トンロー、アーリー、サトーン",
+  "area.apply": "ここで検索",
+  "area.pinHint": "地図にピンを置くと、Royce がその周辺を検索します。",
+  "area.pinnedAt": "{coords} のピンの周辺を検索しています。",
+  "area.pickOnMap": "地図にピンを置く",
+  "commute.anchors": "通勤先",
+  "commute.badge": "≤ {time} · {anchor}",
+  "commute.button": "通勤",
+  "commute.myPlaces": "マイプレイス",
+  "commute.empty":
+    "職場や学校などよく行く場所を追加すると、Royce がすべての結果について通勤時間を見積もります。",
+  "commute.namePlaceholder": "職場",
+  "commute.addressPlaceholder": "住所またはランドマーク",
+  "commute.add": "+ 場所を追加",
+  "commute.filter": "結果を絞り込む",
+  "commute.maxMinutes": "最大時間（分・任意）",
+  "commute.sort": "通勤時間で並べ替え",
+  "commute.estimating": "見積もり中...",
+  "commute.estimate": "この検索の通勤時間を見積もる",
+  "savedSearch.daily": "毎日",
+  "savedSearch.every3Days": "3日ごと",
+  "savedSearch.weekly": "毎週",
+  "savedSearch.everyHours": "{hours}時間ごと",
+  "savedSearch.watchTitle": "この検索の新しい物件と価格の変化を見守る",
+  "savedSearch.watchingTitle": "この検索を見守り中: {interval}",
+  "savedSearch.watch": "この検索を見守る",
+  "savedSearch.watching": "この検索を見守り中",
+  "savedSearch.lastChecked": "最終確認 {date}",
+  "savedSearch.firstCheck": "初回確認 {date}",
+  "savedSearch.intro":
+    "Royce が最新の検索を再実行し、新しい物件や価格の変化をお知らせします。",
+  "savedSearch.stop": "見守りをやめる",
+  "savedSearch.failed":
+    "保存した検索を更新できませんでした。もう一度お試しください。",
+  "alerts.title": "保存した検索の通知",
+  "alerts.heading": "通知",
+  "alerts.markAllRead": "すべて既読にする",
+  "alerts.empty":
+    "通知はまだありません。検索を見守ると、新しい物件や価格の変化をお知らせします。",
+  "alerts.more": "他 {count} 件",
+  "alerts.newMatch": "新着物件",
+  "alerts.price": "価格 {from} → {to}",
+  "alerts.rating": "評価 {from} → {to}",
+  "alerts.unitTypes": "間取りが変わりました",
+  "alerts.unknownPrice": "不明",
+  "share.title": "この検索の閲覧専用リンクを共有",
+  "share.heading": "閲覧専用リンク",
+  "share.creating": "リンクを作成中...",
+  "share.failed": "リンクを作成できませんでした。もう一度お試しください。",
+  "share.copied": "クリップボードにコピーしました。",
+  "share.note":
+    "リンクを知っている人は誰でも、現在のこの検索を閲覧できます。名前や位置情報は含まれません。",
+  "shared.label": "共有された検索 · 閲覧専用",
+  "shared.open": "CondoScout を開く",
+  "shared.forkTitle": "この検索を自分の履歴にコピーして会話を続ける",
+  "shared.fork": "コピーを保存",
+  "shared.loading": "共有された検索を開いています...",
+  "shared.missing":
+    "このリンクは共有された検索を指していません。入力ミスか、期限切れの可能性があります。",
+  "shared.error":
+    "共有された検索を開けませんでした。しばらくしてからもう一度お試しください。",
+  "shortlist.select": "比較に選択",
+  "shortlist.note": "メモを追加...",
+  "shortlist.tag": "タグを入力して Enter",
+  "shortlist.goToChat": "チャットへ",
+  "shortlist.openMap": "地図を開く",
+  "shortlist.empty": "保存した物件はまだありません",
+  "shortlist.emptyHint":
+    "物件カードのブックマークをタップすると、ここに保存されます。",
+  "map.empty": "この検索で Royce が見つけた物件がここに表示されます。",
+  "map.zoomIn": "拡大",
+  "map.zoomOut": "縮小",
+  "map.fitTitle": "すべての物件を表示",
+  "map.fit": "全体",
+  "map.locatingOne": "1 件の位置を特定中...",
+  "map.locatingMany": "{count} 件の位置を特定中...",
+  "map.missingOne": "1 件の位置を特定できませんでした",
+  "map.missingMany": "{count} 件の位置を特定できませんでした",
+  "map.placesOne": "1 件",
+  "map.placesMany": "{count} 件",
+  "map.pickHint": "Royce に検索してほしい場所を地図上でクリックしてください。",
+  "map.searchPoint": "検索エリアのピン",
+  "export.button": "エクスポート",
+  "export.preparing": "準備中...",
+  "export.markdown": "Markdown",
+  "export.csv": "CSV スプレッドシート",
+  "export.pdf": "印刷用パンフレット (PDF)",
+  "report.untitled": "CondoScout の検索",
+  "report.selection": "選択した物件",
+  "report.exportedOn": "{date} に CondoScout からエクスポート",
+  "report.preparedOn": "{date} に CondoScout で作成",
+  "report.placesShown": "表示した物件: {places}",
+  "report.places": "物件",
+  "report.reviews": "レビュー {count} 件",
+  "report.footer":
+    "({est}) の付いた項目は推定値です。必ず建物または不動産会社に確認してください。",
+  "report.preparing": "レポートを準備中…",
+  "model.title": "この検索で使うモデル",
+  "session.pending": "Royce はまだ返信中です",
+  "session.renameTitle": "ダブルクリックで名前を変更",
+  "session.options": "検索のオプション",
+  "session.rename": "名前を変更",
+  "session.pin": "上部に固定",
+  "session.unpin": "固定を解除",
+  "session.unarchive": "アーカイブを解除",
+  "session.moveToFolder": "フォルダに移動",
+  "session.removeFromFolder": "「{folder}」から外す",
+  "session.newFolder": "新しいフォルダ名を入力して Enter",
+  "csv.number": "番号",
+  "csv.title": "名称",
+  "csv.address": "住所",
+  "csv.placeId": "Place ID",
+  "csv.mapsUrl": "Google マップの URL",
+  "csv.priceMin": "価格（下限）",
+  "csv.priceMax": "価格（上限）",
+  "csv.currency": "通貨",
+  "csv.pricePeriod": "価格の期間",
+  "csv.unitTypes": "間取り",
+  "csv.rating": "評価",
+  "csv.reviewCount": "レビュー数",
+  "csv.station": "最寄り駅",
+  "csv.line": "路線",
+  "csv.walkMinutes": "駅まで徒歩（分）",
+  "csv.amenities": "設備",
+  "csv.commute": "{anchor} まで{mode}（分）",
+  "csv.estimatedFields": "推定値の項目",
+  "csv.reviewSnippet": "レビューの抜粋",
+};
+
+const zh: Record<MessageKey, string> = {
+  "common.cancel": "取消",
+  "common.delete": "删除",
+  "common.dismiss": "关闭",
+  "common.undo": "撤销",
+  "common.newSearch": "新搜索",
+  "common.close": "关闭",
+  "common.remove": "移除",
+  "common.apply": "应用",
+
+  "login.tagline": "精英房产礼宾服务",
+  "login.scoutingTitle": "精选房源",
+  "login.scoutingBody": "经过核实的建筑数据与地段洞察。",
+  "login.perspectivesTitle": "3D 视角",
+  "login.perspectivesBody": "以卫星视角探索街区。",
+  "login.title": "开始探索",
+  "login.subtitle": "即刻浏览精选优质房源。",
+  "login.or": "或",
+  "login.guest": "访客登录",
+  "login.guestNote": "访客搜索将在此设备上保留 {days} 天。稍后登录即可保存。",
+  "login.footer": "Concierge Engine · CondoScout AI",
+  "login.failed": "无法验证您的 Google 登录，请重试。",
+  "login.expired": "您的会话已过期，请重新登录。",
+
+  "header.showMap": "显示地图",
+  "header.hideMap": "隐藏地图",
+  "header.export": "导出此搜索",
+  "menu.guestNote": "搜索记录有限",
+  "menu.language": "语言",
+  "menu.signOut": "退出登录",
+
+  "chat.welcome":
+    "👋 您好，我是 **Royce**。\n\n我是您的私人房产顾问，可以帮您寻找公寓、服务式公寓或豪华酒店。\n\n*“帮我找素坤逸靠近车站的一居室公寓。”*",
+  "chat.you": "您",
+  "chat.scouting": "正在搜寻...",
+  "chat.saveAndSend": "保存并发送",
+  "chat.retry": "重试",
+  "chat.waiting": "正在等待网络连接",
+  "chat.sending": "正在发送...",
+  "chat.versions": "此轮对话的版本",
+  "chat.edit": "编辑",
+  "chat.regenerate": "重新生成",
+  "chat.hiddenOne": "有 1 处房源被您的通勤筛选隐藏。",
+  "chat.hiddenMany": "有 {count} 处房源被您的通勤筛选隐藏。",
+  "chat.placeholder": "例如：“是隆的豪华公寓，4 万泰铢以内...”",
+  "chat.stop": "停止生成",
+  "chat.disclaimer": "CondoScout AI 可能会出错 · 请务必通过官方渠道核实详情",
+  "chat.stopped": "_已停止回复。_",
+  "chat.updateCriteria": "请按我修改后的搜索条件更新结果。",
+
+  "error.rate-limited": "Royce 当前请求较多，请一分钟后再试。",
+  "error.auth": "无法验证此请求的登录状态，请重新登录。",
+  "error.blocked": "Royce 无法处理这样表述的请求，请换种说法再搜索。",
+  "error.network": "无法连接 CondoScout，请检查网络后重试。",
+  "error.no-results": "Royce 没有找到符合条件的房源，请扩大范围或放宽条件。",
+  "error.unavailable": "房源数据库暂时不可用，请稍后再试。",
+  "error.not-configured": "此服务器尚未配置 Royce，请告知网站管理员。",
+
+  "banner.offline":
+    "您已离线。已保存的对话仍可查看，新消息将在恢复连接后发送。",
+  "banner.guestOne": "此设备上有 1 条访客模式的搜索。",
+  "banner.guestMany": "此设备上有 {count} 条访客模式的搜索。",
+  "banner.addToAccount": "添加到我的账户",
+  "banner.discard": "丢弃",
+  "banner.askNextTime": "下次再问我",
+  "banner.deletedOne": "已删除“{title}”",
+  "banner.deletedMany": "已删除 {count} 条搜索",
+  "banner.compareSelected": "已选择 {count} 处进行比较",
+  "banner.compareMax": "（最多 {max} 处）",
+  "banner.exportSelection": "导出所选房源",
+  "banner.clear": "清除",
+  "banner.compare": "比较",
+
+  "sync.quota": "浏览器存储空间已满，请删除一些旧对话以继续保存。",
+  "sync.failed": "无法保存您的对话，将在下次编辑时重试。",
+  "sync.loadFailed": "无法加载已保存的对话。",
+
+  "sidebar.history": "历史",
+  "sidebar.shortlist": "收藏",
+  "sidebar.searchPlaceholder": "搜索消息和地点",
+  "sidebar.filterTitle": "按日期和房源类型筛选",
+  "sidebar.selectTitle": "选择多条搜索",
+  "sidebar.selected": "已选择 {count} 条",
+  "sidebar.archive": "归档",
+  "sidebar.from": "开始",
+  "sidebar.to": "结束",
+  "sidebar.anyType": "任意房源类型",
+  "sidebar.clearSearch": "清除搜索",
+  "sidebar.noMatches": "没有匹配的搜索",
+  "sidebar.noHistory": "暂无搜索记录",
+  "sidebar.pinned": "已置顶",
+  "sidebar.recent": "最近",
+  "sidebar.showArchived": "显示已归档（{count}）",
+  "sidebar.hideArchived": "隐藏已归档（{count}）",
+  "sidebar.footer": "CondoScout Concierge",
+  "sidebar.moreHits": "此搜索中还有 {count} 条",
+
+  "propertyType.condo": "公寓",
+  "propertyType.apartment": "服务式公寓",
+  "propertyType.hotel": "酒店",
+  "criteria.studio": "开间",
+  "criteria.bedrooms": "{count} 居室",
+  "criteria.transit": "距 BTS/MRT ≤ {distance}",
+  "criteria.pets": "可养宠物",
+  "criteria.noPets": "不可养宠物",
+  "criteria.furnished": "带家具",
+  "criteria.unfurnished": "不带家具",
+  "criteria.field.budget": "预算",
+  "criteria.field.bedrooms": "卧室",
+  "criteria.field.propertyType": "房产类型",
+  "criteria.field.transit": "到 BTS/MRT 的距离",
+  "criteria.field.pets": "宠物",
+  "criteria.field.furnished": "家具",
+  "criteria.edit": "编辑{field}",
+  "criteria.addFilter": "+ 筛选",
+  "criteria.min": "最低",
+  "criteria.max": "最高",
+  "criteria.bedroomsHint": "0 表示开间",
+  "criteria.meters": "米",
+
+  "travel.transit": "公共交通",
+  "travel.walk": "步行",
+  "travel.drive": "驾车",
+
+  "price.perMonth": "月",
+  "price.perNight": "晚",
+  "budget.from": "{amount} 起",
+  "budget.upTo": "最高 {amount}",
+
+  "place.save": "加入收藏",
+  "place.unsave": "从收藏中移除",
+  "place.addCompare": "加入比较",
+  "place.removeCompare": "从比较中移除",
+  "place.compare": "+ 比较",
+  "place.compared": "✓ 比较",
+  "place.satellite": "卫星视图",
+  "place.estimated": "由 Royce 估算，请向楼盘或中介核实",
+  "place.est": "估",
+  "place.walk": "步行 {time}",
+  "place.commute": "{mode}至 {anchor} · {time}",
+  "place.noDescription": "查看此地点的更多详情。",
+  "place.directions": "路线",
+  "place.directionsTitle": "在 Google 地图中打开",
+  "place.details": "详情 / 中介",
+  "place.detailsTitle": "搜索中介和详情",
+  "place.ask": "询问此房源",
+  "place.askTitle": "向 Royce 询问此地点",
+  "place.askNumberTitle": "向 Royce 询问 #{number}",
+  "place.mapOf": "{title} 的地图",
+  "place.offlineMap": "离线时无法显示地图",
+  "detail.researching": "Royce 正在研究这栋楼...",
+  "detail.failed": "暂时无法整理这栋楼的简报。你仍然可以在下方提问。",
+  "detail.pros": "优点",
+  "detail.cons": "缺点",
+  "detail.typicalRent": "常见租金",
+  "detail.neighbourhood": "周边街区",
+  "detail.nearby": "附近",
+  "detail.reviewThemes": "评价要点",
+  "detail.askPlaceholder": "询问关于 {title} 的问题...",
+  "detail.ask": "提问",
+  "detail.continueInChat": "在主对话中继续",
+  "compare.title": "比较 {count} 处房源",
+  "compare.comparing": "Royce 正在比较...",
+  "compare.ask": "让 Royce 比较这些房源",
+  "compare.verdict": "Royce 的结论",
+  "compare.failed": "抱歉，暂时无法完成比较，请稍后再试。",
+  "compare.address": "地址",
+  "compare.price": "价格",
+  "compare.transit": "最近车站",
+  "compare.rating": "评分",
+  "compare.unitTypes": "户型",
+  "compare.amenities": "配套设施",
+  "compare.reviews": "评价",
+  "area.nearMe": "我附近",
+  "area.device": "我的位置",
+  "area.pinned": "在地图上标记",
+  "area.neighbourhood": "街区",
+  "area.choose": "选择搜索区域",
+  "area.title": "搜索区域",
+  "area.aroundDevice": "在你当前位置 ({coords}) 附近搜索。",
+  "area.noDevice": "无法获取位置，结果不会按你的位置优先排列。",
+  "area.neighbourhoodPlaceholder": "例如：通罗、阿黎、沙通",
+  "area.apply": "在此搜索",
+  "area.pinHint": "在地图上放置标记，Royce 会在其附近搜索。",
+  "area.pinnedAt": "正在 {coords} 的标记附近搜索。",
+  "area.pickOnMap": "在地图上放置标记",
+  "commute.anchors": "通勤地点",
+  "commute.badge": "≤ {time} · {anchor}",
+  "commute.button": "通勤",
+  "commute.myPlaces": "我的地点",
+  "commute.empty":
+    "添加你的办公室、学校或常去的地方，Royce 会为每个结果估算通勤时间。",
+  "commute.namePlaceholder": "公司",
+  "commute.addressPlaceholder": "地址或地标",
+  "commute.add": "+ 添加地点",
+  "commute.filter": "筛选结果",
+  "commute.maxMinutes": "最长分钟数（不限）",
+  "commute.sort": "按通勤时间排序",
+  "commute.estimating": "正在估算...",
+  "commute.estimate": "估算本次搜索的通勤时间",
+  "savedSearch.daily": "每天",
+  "savedSearch.every3Days": "每 3 天",
+  "savedSearch.weekly": "每周",
+  "savedSearch.everyHours": "每 {hours} 小时",
+  "savedSearch.watchTitle": "关注此搜索的新房源和价格变化",
+  "savedSearch.watchingTitle": "正在关注此搜索：{interval}",
+  "savedSearch.watch": "关注此搜索",
+  "savedSearch.watching": "正在关注此搜索",
+  "savedSearch.lastChecked": "上次检查：{date}。",
+  "savedSearch.firstCheck": "首次检查：{date}。",
+  "savedSearch.intro":
+    "Royce 会重新运行你最近的搜索，并在有新房源或价格变化时通知你。",
+  "savedSearch.stop": "停止关注",
+  "savedSearch.failed": "无法更新此已保存的搜索，请重试。",
+  "alerts.title": "已保存搜索的提醒",
+  "alerts.heading": "提醒",
+  "alerts.markAllRead": "全部标为已读",
+  "alerts.empty": "暂无提醒。关注一个搜索即可获知新房源和价格变化。",
+  "alerts.more": "还有 {count} 条",
+  "alerts.newMatch": "新房源",
+  "alerts.price": "价格 {from} → {to}",
+  "alerts.rating": "评分 {from} → {to}",
+  "alerts.unitTypes": "户型有变化",
+  "alerts.unknownPrice": "未知",
+  "share.title": "分享此搜索的只读链接",
+  "share.heading": "只读链接",
+  "share.creating": "正在创建链接...",
+  "share.failed": "无法创建链接，请重试。",
+  "share.copied": "已复制到剪贴板。",
+  "share.note":
+    "任何拥有链接的人都可以查看此搜索的当前内容，不会看到你的姓名或位置。",
+  "shared.label": "共享的搜索 · 只读",
+  "shared.open": "打开 CondoScout",
+  "shared.forkTitle": "将此搜索复制到你的历史记录并继续对话",
+  "shared.fork": "保存副本",
+  "shared.loading": "正在打开共享的搜索...",
+  "shared.missing": "此链接没有指向共享的搜索，可能输入有误或已过期。",
+  "shared.error": "无法打开此共享的搜索，请稍后再试。",
+  "shortlist.select": "选择以比较",
+  "shortlist.note": "添加备注...",
+  "shortlist.tag": "输入标签后按 Enter",
+  "shortlist.goToChat": "前往对话",
+  "shortlist.openMap": "打开地图",
+  "shortlist.empty": "还没有保存的房源",
+  "shortlist.emptyHint": "点击房源卡片上的书签即可保存到这里。",
+  "map.empty": "Royce 在此搜索中找到的房源会显示在这里。",
+  "map.zoomIn": "放大",
+  "map.zoomOut": "缩小",
+  "map.fitTitle": "显示所有房源",
+  "map.fit": "全部",
+  "map.locatingOne": "正在定位 1 处房源...",
+  "map.locatingMany": "正在定位 {count} 处房源...",
+  "map.missingOne": "有 1 处房源无法定位",
+  "map.missingMany": "有 {count} 处房源无法定位",
+  "map.placesOne": "1 处房源",
+  "map.placesMany": "{count} 处房源",
+  "map.pickHint": "在地图上点击希望 Royce 搜索的位置。",
+  "map.searchPoint": "搜索区域标记",
+  "export.button": "导出",
+  "export.preparing": "正在准备...",
+  "export.markdown": "Markdown",
+  "export.csv": "CSV 表格",
+  "export.pdf": "可打印宣传册 (PDF)",
+  "report.untitled": "CondoScout 搜索",
+  "report.selection": "所选房源",
+  "report.exportedOn": "于 {date} 从 CondoScout 导出",
+  "report.preparedOn": "于 {date} 使用 CondoScout 制作",
+  "report.placesShown": "显示的房源：{places}",
+  "report.places": "房源",
+  "report.reviews": "{count} 条评价",
+  "report.footer": "标有（{est}）的信息为估计值，请务必向楼盘或中介核实。",
+  "report.preparing": "正在准备报告…",
+  "model.title": "此搜索使用的模型",
+  "session.pending": "Royce 仍在回复",
+  "session.renameTitle": "双击以重命名",
+  "session.options": "搜索选项",
+  "session.rename": "重命名",
+  "session.pin": "置顶",
+  "session.unpin": "取消置顶",
+  "session.unarchive": "取消归档",
+  "session.moveToFolder": "移至文件夹",
+  "session.removeFromFolder": "从“{folder}”中移除",
+  "session.newFolder": "输入新文件夹名后按 Enter",
+  "csv.number": "编号",
+  "csv.title": "名称",
+  "csv.address": "地址",
+  "csv.placeId": "Place ID",
+  "csv.mapsUrl": "Google 地图链接",
+  "csv.priceMin": "最低价格",
+  "csv.priceMax": "最高价格",
+  "csv.currency": "货币",
+  "csv.pricePeriod": "价格周期",
+  "csv.unitTypes": "户型",
+  "csv.rating": "评分",
+  "csv.reviewCount": "评价数",
+  "csv.station": "最近车站",
+  "csv.line": "线路",
+  "csv.walkMinutes": "步行至车站（分钟）",
+  "csv.amenities": "配套设施",
+  "csv.commute": "{mode}至{anchor}（分钟）",
+  "csv.estimatedFields": "估计字段",
+  "csv.reviewSnippet": "评价摘录",
+};
+
+export const MESSAGES: Record<Locale, Record<MessageKey, string>> = {
+  en,
+  th,
+  ja,
+  zh,
+};
@@ -3,6 +3,32 @@ export interface Location {
   longitude: number;
 }
 
+// Where Royce should search: the device position, a manually pinned point,
+// or a typed neighbourhood name.
+export type SearchAreaMode = 'device' | 'pinned' | 'neighbourhood';
+
+export interface SearchArea {
+  mode: SearchAreaMode;
+  location?: Location; // Pinned point, or the device position resolved at send time
+  label?: string; // Neighbourhood name, or a display label for a pin
+}
+
+export type PropertyType = 'condo' | 'apartment' | 'hotel';
+
+// What the user is looking for, extracted from their messages and editable as chips
+export interface SearchCriteria {
+  budget?: {
+    min?: number;
+    max?: number;
+    currency: string; // ISO 4217 code, e.g. "THB"
+  };
+  bedrooms?: number; // 0 means studio
+  propertyType?: PropertyType;
+  maxTransitDistanceMeters?: number; // Walking distance to the nearest BTS/MRT station
+  petsAllowed?: boolean;
+  furnished?: boolean;
+}
+
 export interface GroundingChunk {
   web?: {
     uri?: string;
@@ -22,12 +48,100 @@ export interface GroundingChunk {
   };
 }
 
+export interface PriceRange {
+  min?: number;
+  max?: number;
+  currency: string; // ISO 4217 code, e.g. "THB"
+  period: 'month' | 'night';
+}
+
+export interface TransitInfo {
+  station: string;
+  line?: string; // e.g. "BTS Sukhumvit Line"
+  walkingMinutes?: number;
+}
+
+export type TravelMode = 'transit' | 'walk' | 'drive';
+
+// A place the user commutes to, e.g. their office or a child's school
+export interface Anchor {
+  id: string;
+  name: string; // e.g. "Work"
+  address: string;
+}
+
+export interface CommuteEstimate {
+  anchorId: string;
+  transitMinutes?: number;
+  walkMinutes?: number;
+  driveMinutes?: number;
+}
+
+// Narrows and orders result cards by travel time to one anchor
+export interface CommuteFilter {
+  anchorId: string;
+  mode: TravelMode;
+  maxMinutes?: number;
+  sortByCommute: boolean;
+}
+
+// Listing fields filled in by the follow-up structured-output call
+export type ListingField =
+  | 'priceRange'
+  | 'unitTypes'
+  | 'rating'
+  | 'reviewCount'
+  | 'nearestTransit'
+  | 'amenities'
+  | 'commutes';
+
 export interface PlaceData {
   title: string;
   uri: string;
   address?: string;
   description?: string;
   placeId?: string;
+  priceRange?: PriceRange;
+  unitTypes?: string[];
+  rating?: number; // 1-5
+  reviewCount?: number;
+  nearestTransit?: TransitInfo;
+  amenities?: string[];
+  commutes?: CommuteEstimate[];
+  estimatedFields?: ListingField[]; // Values the model inferred rather than knew
+}
+
+// Royce's deep-dive on a single building, shown in the place detail drawer
+export interface PlaceInsight {
+  summary: string;
+  pros: string[];
+  cons: string[];
+  typicalRent?: string; // Free text, e.g. "22,000-35,000 THB/month for a 1-bed"
+  neighbourhood?: string;
+  nearbyAmenities: string[];
+  reviewThemes: string[];
+}
+
+// A place the user saved, kept independently of the session it came from
+export interface ShortlistItem {
+  key: string; // See placeKey in services/shortlistStore
+  place: PlaceData;
+  note: string;
+  tags: string[];
+  savedAt: number;
+  source?: {
+    sessionId: string;
+    messageId: string;
+  };
+}
+
+// A message written while offline, sent into its session once the app is back
+// online; see services/outbox.ts
+export interface OutboxEntry {
+  id: string;
+  sessionId: string;
+  text: string;
+  queuedAt: number;
 }
 
 export interface Message {
@@ -36,6 +150,53 @@ export interface Message {
   text: string;
   places?: PlaceData[];
   isThinking?: boolean;
+  isStreaming?: boolean; // Text is still arriving from the model
+  versions?: MessageVersions; // Other takes on this turn, see services/branches.ts
+  error?: ConciergeErrorKind; // The reply failed; text holds whatever arrived first
+}
+
+// UI language, which Royce also replies in
+export type Locale = 'en' | 'th' | 'ja' | 'zh';
+
+// Why a reply failed, see services/conciergeErrors.ts
+export type ConciergeErrorKind = 'rate-limited' | 'auth' | 'blocked' | 'network' | 'no-results' | 'unavailable' | 'not-configured';
+
+// The conversation is a tree: editing a message or regenerating a reply starts
+// a new version of that turn. Only the selected path is kept in messages; the
+// first message of each turn holds the tails of its other versions.
+export interface MessageVersions {
+  others: Message[][]; // Each from this turn to the end of that branch
+  index: number; // Where the shown version sits among all of them, 0-based
+}
+
+// Just enough about a place for Royce to recognise it again later
+export interface PlaceSummary {
+  number: number; // Its number within the session, as on the map pins
+  title: string;
+  address?: string;
+  placeId?: string;
+}
+
+// A finished turn of the conversation as the server replays it to Gemini
+export interface ChatTurn {
+  role: 'user' | 'model';
+  text: string;
+  places?: PlaceSummary[]; // The places this reply showed as cards
+}
+
+// Everything about the search that travels with each user message
+export interface SearchContext {
+  searchArea?: SearchArea;
+  criteria?: SearchCriteria;
+  anchors?: Anchor[];
+  commuteFilter?: CommuteFilter | null;
+  references?: PlaceSummary[]; // Places the user points at with "#n"
+  locale?: Locale; // Royce replies in this language
+}
+
+export interface StreamChunk {
+  text: string;
+  places: PlaceData[];
 }
 
 export interface ChatSession {
@@ -44,6 +205,59 @@ export interface ChatSession {
   messages: Message[];
   createdAt: number;
   lastUpdated: number;
+  searchArea?: SearchArea;
+  searchCriteria?: SearchCriteria;
+  model?: string; // Concierge model this session runs on
+  revision?: number; // Storage version, bumped on every save to detect conflicts
+  isTitleEdited?: boolean; // Renamed by the user, so never retitled automatically
+  pinned?: boolean;
+  archived?: boolean;
+  folder?: string; // User-defined group, e.g. one per client
+}
+
+// A read-only snapshot of a session behind a share link. It carries the
+// conversation and criteria only: no owner, revision or search location.
+export interface SharedSession {
+  id: string;
+  title: string;
+  messages: Message[];
+  searchCriteria?: SearchCriteria;
+  createdAt: number;
+}
+
+// A session's search that the server re-runs on a schedule, watching for new
+// places or changed listings; see server/savedSearchJob.ts
+export interface SavedSearch {
+  id: string;
+  sessionId: string; // The chat it was saved from; alerts open it again
+  title: string;
+  query: string; // The message re-sent to Royce on every run
+  searchArea?: SearchArea;
+  searchCriteria?: SearchCriteria;
+  model?: string; // Concierge model of the session, used for every run
+  intervalMs: number;
+  createdAt: number;
+  lastRunAt?: number;
+  nextRunAt: number;
+  places: PlaceData[]; // Results of the last run, the baseline for the next one
+}
+
+export interface PlaceChange {
+  kind: 'new' | 'changed';
+  place: PlaceData;
+  previous?: PlaceData; // The same place in the last run, for 'changed'
+  fields: ListingField[]; // What changed; empty for 'new'
+}
+
+// What one run of a saved search found, shown as a notification in the app
+export interface SearchAlert {
+  id: string;
+  savedSearchId: string;
+  sessionId: string;
+  title: string;
+  changes: PlaceChange[];
+  createdAt: number;
+  read: boolean;
 }
 
 export interface User {
@@ -51,4 +265,5 @@ export interface User {
   name: string;
   email: string;
   picture: string;
+  sessionToken?: string; // Issued by our API once it has verified the Google credential
 }
\ No newline at end of file
@@ -1,18 +1,51 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { Plugin, defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { condoscoutApi } from './server/vitePlugin';
+import { DEFAULT_GOOGLE_CLIENT_ID } from './server/auth';
 
-export default defineConfig(({ mode }) => {
+// Lists the built files for public/sw.js to cache when it installs
+const precacheManifest = (): Plugin => ({
+    name: 'condoscout-precache-manifest',
+    apply: 'build',
+    generateBundle(_, bundle) {
+      const files = Object.keys(bundle)
+        .filter((file) => !file.endsWith('.html') && !file.endsWith('.map'))
+        .map((file) => `/${file}`);
+      this.emitFile({
+        type: 'asset',
+        fileName: 'precache-manifest.json',
+        source: JSON.stringify(files),
+      });
+    },
+});
+
+export default defineConfig(({ command, mode }) => {
     const env = loadEnv(mode, '.', '');
+    const googleClientId = env.GOOGLE_CLIENT_ID || DEFAULT_GOOGLE_CLIENT_ID;
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [
+        react(),
+        precacheManifest(),
+        condoscoutApi({
+          geminiApiKey: env.GEMINI_API_KEY,
+          conciergeProvider: env.CONCIERGE_PROVIDER,
+          googleClientId,
+          fakeClock: env.SAVED_SEARCH_FAKE_CLOCK === 'true',
+        }),
+      ],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GOOGLE_CLIENT_ID': JSON.stringify(googleClientId),
+        'process.env.GOOGLE_MAPS_API_KEY': JSON.stringify(env.GOOGLE_MAPS_API_KEY),
+        'process.env.MAP_PROVIDER': JSON.stringify(env.MAP_PROVIDER),
+        'process.env.SESSION_BACKEND': JSON.stringify(env.SESSION_BACKEND),
+        'process.env.CONCIERGE_PROVIDER': JSON.stringify(env.CONCIERGE_PROVIDER),
+        'process.env.CONCIERGE_MODEL': JSON.stringify(env.CONCIERGE_MODEL),
+        'process.env.SERVICE_WORKER': JSON.stringify(command === 'build' ? 'on' : '')
       },
       resolve: {
         alias: {
@@ -0,0 +1,11 @@
+import { defineConfig } from "vitest/config";
+
+// Tests run in Node without the app's Vite plugins, so the dev API (and its
+// saved-search timer) isn't started for them
+export default defineConfig({
+  test: {
+    environment: "node",
+    include: ["**/*.test.ts"],
+    exclude: ["node_modules/**", "dist/**"],
+  },
+});